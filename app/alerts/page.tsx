@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { EnergyFilters } from "@/components/energy-filters";
+import { useAlerts } from "@/contexts/alert-context";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import {
+  ALERT_METRICS,
+  AlertMetric,
+  AlertOperator,
+  describeRule,
+  MAX_DURATION_MINUTES,
+} from "@/lib/alerts";
+
+export default function Alerts() {
+  const { fakultas, gedung, lantai, filterLabels } = useEnergyFilter();
+  const { rules, addRule, removeRule, toggleRule, isRuleSnoozed } = useAlerts();
+
+  const [metric, setMetric] = useState<AlertMetric>("power");
+  const [operator, setOperator] = useState<AlertOperator>(">");
+  const [threshold, setThreshold] = useState("");
+  const [duration, setDuration] = useState("15");
+
+  const thresholdValue = Number(threshold);
+  const durationValue = Number(duration);
+  const durationValid =
+    metric !== "power" ||
+    (Number.isInteger(durationValue) &&
+      durationValue >= 0 &&
+      durationValue <= MAX_DURATION_MINUTES);
+  const valid =
+    threshold !== "" && Number.isFinite(thresholdValue) && durationValid;
+
+  const handleAdd = () => {
+    if (!valid) return;
+    addRule({
+      scope: { fakultas, gedung, lantai },
+      scopeLabel: [filterLabels.fakultas, filterLabels.gedung, filterLabels.lantai].join(" / "),
+      metric,
+      operator,
+      threshold: thresholdValue,
+      durationMinutes: metric === "power" ? durationValue : 0,
+    });
+    setThreshold("");
+  };
+
+  const unit = ALERT_METRICS.find((m) => m.id === metric)!.unit;
+
+  return (
+    <div className="p-6">
+      <EnergyFilters>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Metric</label>
+          <Select
+            value={metric}
+            onValueChange={(value: AlertMetric) => setMetric(value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ALERT_METRICS.map((m) => (
+                <SelectItem key={m.id} value={m.id}>
+                  {m.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </EnergyFilters>
+
+      <div className="bg-white p-4 rounded-lg shadow-md mb-8">
+        <h2 className="text-xl font-semibold mb-4">New Alert Rule</h2>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="flex flex-col">
+            <label className="text-sm font-medium mb-1">Condition</label>
+            <Select
+              value={operator}
+              onValueChange={(value: AlertOperator) => setOperator(value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value=">">Above</SelectItem>
+                <SelectItem value="<">Below</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col">
+            <label className="text-sm font-medium mb-1">Threshold ({unit})</label>
+            <input
+              type="number"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className="p-2 border rounded-md"
+              min={0}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label className="text-sm font-medium mb-1">For (minutes)</label>
+            <input
+              type="number"
+              value={metric === "power" ? duration : ""}
+              onChange={(e) => setDuration(e.target.value)}
+              className="p-2 border rounded-md"
+              min={0}
+              max={MAX_DURATION_MINUTES}
+              disabled={metric !== "power"}
+            />
+            {!durationValid && (
+              <span className="text-xs text-red-500 mt-1">
+                Whole minutes from 0 to {MAX_DURATION_MINUTES}
+              </span>
+            )}
+          </div>
+          <Button onClick={handleAdd} disabled={!valid}>
+            Add rule
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground mt-4">
+          The rule applies to {filterLabels.fakultas} / {filterLabels.gedung} /{" "}
+          {filterLabels.lantai}. Rules are checked every minute against the
+          live data while the dashboard is open.
+        </p>
+      </div>
+
+      <h2 className="text-xl font-semibold mb-4">Alert Rules</h2>
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <Table>
+          <TableHeader className="bg-gray-100">
+            <TableRow>
+              <TableHead>Enabled</TableHead>
+              <TableHead>Scope</TableHead>
+              <TableHead>Rule</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No alert rules yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rules.map((rule) => {
+                const snoozedUntil = isRuleSnoozed(rule.id);
+                return (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={() => toggleRule(rule.id)}
+                      />
+                    </TableCell>
+                    <TableCell>{rule.scopeLabel}</TableCell>
+                    <TableCell>{describeRule(rule)}</TableCell>
+                    <TableCell>
+                      {!rule.enabled
+                        ? "Disabled"
+                        : snoozedUntil
+                          ? `Snoozed until ${new Date(snoozedUntil).toLocaleTimeString()}`
+                          : "Active"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeRule(rule.id)}
+                        aria-label="Delete rule"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,467 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { motion } from "framer-motion";
+import { Loader2 } from "lucide-react";
+import {
+  BarChart,
+  Bar,
+  Cell,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceArea,
+  ReferenceLine,
+} from "recharts";
+import { ExportMenu } from "@/components/export-menu";
+import { useConnectivity } from "@/contexts/connectivity-context";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import { seriesKey } from "@/lib/daily-comparison";
+import { ExportDocument, keyValueTable } from "@/lib/export";
+import { SERIES_COLORS } from "@/lib/format";
+import {
+  BENCHMARK_MONTHS,
+  BenchmarkMonth,
+  benchmarkFaculties,
+  IKE_STANDARDS,
+  IkeStandard,
+  loadBenchmarkHistory,
+  rankByIke,
+} from "@/lib/ike-benchmark";
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    year: "numeric",
+  });
+
+export default function Benchmark() {
+  const [history, setHistory] = useState<BenchmarkMonth[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filter states
+  const currentMonth = new Date().toISOString().slice(0, 7);
+  const { month, setMonth } = useEnergyFilter();
+  const { revision } = useConnectivity();
+  const [standard, setStandard] = useState<IkeStandard>("ac");
+  // Optional campus target, drawn as a line over the national bands
+  const [target, setTarget] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    loadBenchmarkHistory(month)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.length === 0) throw new Error("No faculty data available");
+        setHistory(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setHistory(null);
+        setError(err instanceof Error ? err.message : "Unknown error occurred");
+        console.error("Error fetching data:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [month, revision]);
+
+  const { bands } = IKE_STANDARDS[standard];
+  const targetValue = target !== "" ? Number(target) : null;
+
+  const selected = history?.find((h) => h.month === month);
+  const benchmarks = selected
+    ? benchmarkFaculties(selected.data.info, standard).sort(
+        (a, b) => (a.ike ?? Infinity) - (b.ike ?? Infinity),
+      )
+    : [];
+  const ranks = rankByIke(benchmarks);
+  const withIke = benchmarks.filter((b) => b.ike !== null);
+  const totalArea = benchmarks.reduce((sum, b) => sum + b.area, 0);
+  const campusIke =
+    totalArea > 0
+      ? benchmarks.reduce((sum, b) => sum + b.energy, 0) / totalArea
+      : null;
+  const meetingTarget =
+    targetValue !== null
+      ? withIke.filter((b) => b.ike! <= targetValue).length
+      : null;
+  const ikeMax = Math.max(...withIke.map((b) => b.ike!), targetValue ?? 0, 0);
+
+  // One rank line per faculty across the loaded months
+  const faculties = benchmarks.map((b) => b.faculty);
+  const monthlyRanks = (history ?? []).map(({ month, data }) => ({
+    month,
+    ranks: rankByIke(benchmarkFaculties(data.info, standard)),
+  }));
+  const rankData = monthlyRanks.map(({ month, ranks }) => {
+    const row: Record<string, string | number | null> = {
+      month: formatMonth(month),
+    };
+    faculties.forEach((faculty, index) => {
+      row[seriesKey(index)] = ranks.get(faculty) ?? null;
+    });
+    return row;
+  });
+  const firstRanks = monthlyRanks[0]?.ranks;
+
+  const tableRows = benchmarks.map((b) => {
+    const rank = ranks.get(b.faculty) ?? null;
+    const firstRank = firstRanks?.get(b.faculty);
+    return {
+      ...b,
+      band: b.band?.label ?? "N/A",
+      rank,
+      // Positive means the faculty moved up (lower IKE relative to others)
+      rankChange:
+        rank !== null && firstRank !== undefined ? firstRank - rank : null,
+    };
+  });
+
+  const getExportDocument = (): ExportDocument | null =>
+    selected
+      ? {
+          title: `ELISA IKE Benchmark ${month}`,
+          metadata: [
+            ["Month", month],
+            ["Standard", IKE_STANDARDS[standard].label],
+            ["Target IKE (kWh/m²)", targetValue !== null ? String(targetValue) : "None"],
+          ],
+          tables: [
+            {
+              name: "Benchmark",
+              columns: [
+                { key: "rank", header: "Rank" },
+                { key: "faculty", header: "Faculty" },
+                { key: "ike", header: "IKE (kWh/m²)" },
+                { key: "band", header: "Class" },
+                { key: "energyPerStudent", header: "Energy per student (kWh)" },
+                { key: "energy", header: "Energy (kWh)" },
+                { key: "area", header: "Area (m²)" },
+                { key: "students", header: "Students" },
+                { key: "rankChange", header: `Rank change since ${history![0].month}` },
+              ],
+              rows: tableRows,
+            },
+            {
+              name: "Rank History",
+              columns: [
+                { key: "faculty", header: "Faculty" },
+                ...monthlyRanks.map(({ month }) => ({ key: month, header: month })),
+              ],
+              rows: faculties.map((faculty) => ({
+                faculty,
+                ...Object.fromEntries(
+                  monthlyRanks.map(({ month, ranks }) => [month, ranks.get(faculty)]),
+                ),
+              })),
+            },
+            keyValueTable("Summary", [
+              ["Campus IKE (kWh/m²)", campusIke ?? undefined],
+              ["Faculties meeting target", meetingTarget ?? undefined],
+            ]),
+          ],
+        }
+      : null;
+
+  return (
+    <div className="p-6">
+      {/* Filter Section */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 my-6">
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Month</label>
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="p-2 border rounded-md"
+            max={currentMonth}
+          />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Reference Bands</label>
+          <Select
+            value={standard}
+            onValueChange={(value: IkeStandard) => setStandard(value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(IKE_STANDARDS) as IkeStandard[]).map((id) => (
+                <SelectItem key={id} value={id}>
+                  ESDM - {IKE_STANDARDS[id].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">ITB Target IKE (kWh/m²)</label>
+          <input
+            type="number"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className="p-2 border rounded-md"
+            min={0}
+            step={0.1}
+            placeholder="No target"
+          />
+        </div>
+      </div>
+
+      {selected && (
+        <div className="flex justify-end mb-4">
+          <ExportMenu getDocument={getExportDocument} />
+        </div>
+      )}
+
+      {loading ? (
+        <motion.div
+          key="results"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          layout
+          className="sm:h-full min-h-[400px] flex flex-col"
+        >
+          <div className="flex-grow flex flex-col items-center justify-center">
+            <div className="flex items-center justify-center">
+              <Loader2 className="h-12 w-12 animate-spin text-muted-foreground" />
+            </div>
+            <div className="flex items-center justify-center mt-4 text-muted-foreground">
+              Loading data...
+            </div>
+          </div>
+        </motion.div>
+      ) : (
+        selected && (
+          <motion.div
+            key="results"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            layout
+          >
+            {/* Summary Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Campus IKE</h3>
+                <p className="text-lg">
+                  {campusIke !== null ? `${campusIke.toFixed(2)} kWh/m²` : "N/A"}
+                </p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Most Efficient</h3>
+                <p className="text-lg">{withIke[0]?.faculty ?? "N/A"}</p>
+                <p>{withIke[0]?.ike?.toFixed(2)} kWh/m²</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Least Efficient</h3>
+                <p className="text-lg">{withIke[withIke.length - 1]?.faculty ?? "N/A"}</p>
+                <p>{withIke[withIke.length - 1]?.ike?.toFixed(2)} kWh/m²</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Meeting Target</h3>
+                <p className="text-lg">
+                  {meetingTarget !== null
+                    ? `${meetingTarget} of ${withIke.length} faculties`
+                    : "Set a target IKE"}
+                </p>
+              </div>
+            </div>
+
+            {/* IKE against the reference bands */}
+            <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+              <h2 className="text-xl font-semibold mb-4">
+                Energy Intensity per Faculty ({formatMonth(month)})
+              </h2>
+              <div style={{ height: Math.max(384, withIke.length * 32) }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    layout="vertical"
+                    data={withIke}
+                    margin={{ top: 20, right: 30, left: 100, bottom: 20 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    {bands.map((band) => (
+                      <ReferenceArea
+                        key={band.label}
+                        x1={band.min}
+                        x2={Math.min(band.max, ikeMax * 1.1)}
+                        fill={band.color}
+                        fillOpacity={0.08}
+                        ifOverflow="hidden"
+                      />
+                    ))}
+                    <XAxis
+                      type="number"
+                      domain={[0, Math.ceil(ikeMax * 1.1)]}
+                      label={{ value: "IKE (kWh/m²)", position: "insideBottom", offset: -10 }}
+                    />
+                    <YAxis dataKey="faculty" type="category" width={150} tick={{ fontSize: 12 }} />
+                    <Tooltip formatter={(value: number) => [`${value.toFixed(2)} kWh/m²`, "IKE"]} />
+                    <Bar dataKey="ike" name="IKE">
+                      {withIke.map((b) => (
+                        <Cell key={b.faculty} fill={b.band?.color ?? "#8884d8"} />
+                      ))}
+                    </Bar>
+                    {targetValue !== null && (
+                      <ReferenceLine
+                        x={targetValue}
+                        stroke="#1f2937"
+                        strokeDasharray="5 5"
+                        label={{ value: "ITB target", position: "top" }}
+                      />
+                    )}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="flex flex-wrap gap-4 mt-2 text-sm">
+                {bands.map((band) => (
+                  <span key={band.label} className="flex items-center gap-1">
+                    <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: band.color }} />
+                    {band.label} ({band.max === Infinity ? `> ${band.min}` : `${band.min} - ${band.max}`})
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {/* Energy per student */}
+              <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+                <h2 className="text-xl font-semibold mb-4">Energy per Student</h2>
+                <div className="h-96">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart
+                      layout="vertical"
+                      data={[...benchmarks]
+                        .filter((b) => b.energyPerStudent !== null)
+                        .sort((a, b) => a.energyPerStudent! - b.energyPerStudent!)}
+                      margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" />
+                      <YAxis dataKey="faculty" type="category" width={120} tick={{ fontSize: 12 }} />
+                      <Tooltip formatter={(value: number) => [`${value.toFixed(2)} kWh`, "Per student"]} />
+                      <Bar dataKey="energyPerStudent" fill="#82ca9d" name="kWh per student" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              {/* Ranking over time */}
+              <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+                <h2 className="text-xl font-semibold mb-4">
+                  IKE Ranking, Last {BENCHMARK_MONTHS} Months
+                </h2>
+                <div className="h-96">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={rankData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="month" />
+                      <YAxis reversed allowDecimals={false} domain={[1, Math.max(faculties.length, 1)]} />
+                      <Tooltip />
+                      <Legend wrapperStyle={{ fontSize: 12 }} />
+                      {faculties.map((faculty, index) => (
+                        <Line
+                          key={faculty}
+                          type="monotone"
+                          dataKey={seriesKey(index)}
+                          name={faculty}
+                          stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                          strokeWidth={2}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </div>
+
+            {/* Table Section */}
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-4">Benchmark Data</h2>
+              <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                <Table>
+                  <TableHeader className="bg-gray-100">
+                    <TableRow>
+                      <TableHead>Rank</TableHead>
+                      <TableHead>Faculty</TableHead>
+                      <TableHead>IKE (kWh/m²)</TableHead>
+                      <TableHead>Class</TableHead>
+                      <TableHead>kWh per Student</TableHead>
+                      <TableHead>Area (m²)</TableHead>
+                      <TableHead>Students</TableHead>
+                      <TableHead>Rank Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tableRows.map((row) => (
+                      <TableRow key={row.faculty}>
+                        <TableCell>{row.rank ?? "N/A"}</TableCell>
+                        <TableCell>{row.faculty}</TableCell>
+                        <TableCell>{row.ike?.toFixed(2) ?? "N/A"}</TableCell>
+                        <TableCell>{row.band}</TableCell>
+                        <TableCell>{row.energyPerStudent?.toFixed(2) ?? "N/A"}</TableCell>
+                        <TableCell>{row.area.toFixed(2)}</TableCell>
+                        <TableCell>{row.students}</TableCell>
+                        <TableCell
+                          className={
+                            row.rankChange && row.rankChange > 0
+                              ? "text-green-600"
+                              : row.rankChange && row.rankChange < 0
+                                ? "text-red-600"
+                                : ""
+                          }
+                        >
+                          {row.rankChange === null
+                            ? "N/A"
+                            : row.rankChange > 0
+                              ? `↑ ${row.rankChange}`
+                              : row.rankChange < 0
+                                ? `↓ ${-row.rankChange}`
+                                : "-"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </motion.div>
+        )
+      )}
+      {error && <p className="text-red-500 text-center">Error: {error}</p>}
+    </div>
+  );
+}
@@ -12,139 +12,100 @@ import {
 import { motion, AnimatePresence } from "framer-motion";
 import { Loader2 } from "lucide-react";
 import {
-  BarChart,
+  ComposedChart,
   Bar,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ReferenceArea,
 } from "recharts";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AcademicCalendarDialog } from "@/components/academic-calendar-dialog";
+import { AnomalyPanel } from "@/components/anomaly-panel";
+import { Button } from "@/components/ui/button";
+import { calendarBandAreas, CalendarBandLegend } from "@/components/calendar-bands";
+import { DailyComparison } from "@/components/daily-comparison";
+import { EmissionFactorDialog } from "@/components/emission-factor-dialog";
+import { EnergyFilters } from "@/components/energy-filters";
+import { ExportMenu } from "@/components/export-menu";
+import { ExternalSeriesPanel } from "@/components/external-series-panel";
+import { ForecastPanel } from "@/components/forecast-panel";
+import {
+  DeltaText,
+  NO_COMPARISON,
+  PeriodComparisonSelect,
+  PeriodComparisonTable,
+} from "@/components/period-comparison";
+import { qualityAreas, QualitySummary } from "@/components/quality-marks";
+import { TariffSimulator } from "@/components/tariff-simulator";
+import { WastePanel } from "@/components/waste-analysis";
+import { useAcademicCalendar } from "@/contexts/academic-calendar-context";
+import { useConnectivity } from "@/contexts/connectivity-context";
+import { useEmissionFactors } from "@/contexts/emission-factor-context";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import { useAnomalyBaseline } from "@/hooks/use-anomaly-baseline";
+import {
+  DEFAULT_ANOMALY_OPTIONS,
+  detectAnomalies,
+  intervalHours,
+} from "@/lib/anomaly";
+import { totalPhases } from "@/lib/daily-comparison";
+import { calendarBands } from "@/lib/academic-calendar";
+import {
+  checkSeries,
+  DEFAULT_QUALITY_OPTIONS,
+  READING_INTERVAL_MINUTES,
+  READINGS_PER_DAY,
+} from "@/lib/data-quality";
+import { getAnalysis, getDailyData } from "@/lib/elisa-client";
+import { emissionsFor, formatEmissions } from "@/lib/emissions";
+import { hourlyTotals } from "@/lib/forecast";
+import { DailyData, dailyDataSchema } from "@/lib/elisa-schemas";
+import { ExportDocument, filterMetadata, keyValueTable } from "@/lib/export";
+import { formatTimestamp } from "@/lib/format";
+import { loadsFromHourlyTotals } from "@/lib/waste";
+import { applyLiveUpdate, liveChannel, subscribeLive } from "@/lib/live";
+import {
+  alignPeriods,
+  DAILY_PERIODS,
+  DailyPeriod,
+  previousDate,
+  timeOfDayKey,
+} from "@/lib/period-comparison";
 
 const ELISA_URL = 'https://elisa.itb.ac.id';
 
-interface ElisaData {
-  chart_data: {
-    timestamp: string;
-    R: number;
-    S: number;
-    T: number;
-  }[];
-  hourly_data: {
-    hour: string;
-    cost: number;
-    energy: number;
-  }[];
-  today_data: {
-    total_daya: number;
-    avg_daya: number;
-    total_cost: number;
-    avg_cost: number;
-  };
-  prev_month_data: {
-    total_daya: number;
-    day_daya: number;
-    total_cost: number;
-    day_cost: number;
-  };
-}
-
-interface Option {
-  value: string;
-  label: string;
-}
-
-const formatTimestamp = (timestamp: string) => {
-  const date = new Date(timestamp);
-  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-};
-
 export default function Home() {
-  const [data, setData] = useState<ElisaData | null>(null);
+  const [data, setData] = useState<DailyData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Filter states
-  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
-  const [fakultas, setFakultas] = useState("all");
-  const [gedung, setGedung] = useState("all");
-  const [lantai, setLantai] = useState("all");
-
-  // Options states
-  const [fakultasOptions, setFakultasOptions] = useState<Option[]>([]);
-  const [gedungOptions, setGedungOptions] = useState<Option[]>([]);
-  const [lantaiOptions, setLantaiOptions] = useState<Option[]>([]);
+  const { date, setDate, apiFilters, filterLabels } = useEnergyFilter();
+  const { revision } = useConnectivity();
+  const { faculty, building, floor } = apiFilters;
+  const { factors } = useEmissionFactors();
+  const { events } = useAcademicCalendar();
 
   // Analysis
   const [analysis, setAnalysis] = useState("");
 
-  const ANALYSIS_URL = process.env.NEXT_PUBLIC_API_URL
+  // Comparison mode overlays several buildings instead of the single selection
+  const [compareMode, setCompareMode] = useState(false);
 
-  // Fetch initial fakultas options
-  useEffect(() => {
-    const fetchFakultas = async () => {
-      try {
-        const response = await fetch(`${ANALYSIS_URL}/api/get-fakultas`);
-        if (!response.ok) throw new Error('Failed to fetch fakultas');
-        const data = await response.json();
-        setFakultasOptions(data.fakultas || []);
-      } catch (err) {
-        console.error("Error fetching fakultas:", err);
-      }
-    };
-    fetchFakultas();
-  }, [ANALYSIS_URL]);
+  // Anomaly detection against the hour-of-week history
+  const [anomalyOptions, setAnomalyOptions] = useState(DEFAULT_ANOMALY_OPTIONS);
+  const anomalyBaseline = useAnomalyBaseline(date, apiFilters);
 
-  // Fetch gedung options when fakultas changes
-  useEffect(() => {
-    if (fakultas === "all") {
-      setGedung("all");
-      setGedungOptions([]);
-      setLantai("all");
-      setLantaiOptions([]);
-      return;
-    }
+  // Period-over-period overlay
+  const [comparison, setComparison] = useState<
+    DailyPeriod | typeof NO_COMPARISON
+  >(NO_COMPARISON);
+  const [previousData, setPreviousData] = useState<DailyData | null>(null);
 
-    const fetchGedung = async () => {
-      try {
-        const response = await fetch(`${ANALYSIS_URL}/api/get-gedung?fakultas=${fakultas}`);
-        if (!response.ok) throw new Error('Failed to fetch gedung');
-        const data = await response.json();
-        setGedungOptions(data.gedung || []);
-        setGedung("all");
-        setLantai("all");
-      } catch (err) {
-        console.error("Error fetching gedung:", err);
-      }
-    };
-    fetchGedung();
-  }, [fakultas]);
-
-  // Fetch lantai options when gedung changes
-  useEffect(() => {
-    if (gedung === "all" || fakultas === "all") {
-      setLantai("all");
-      setLantaiOptions([]);
-      return;
-    }
-
-    const fetchLantai = async () => {
-      try {
-        const response = await fetch(
-          `${ANALYSIS_URL}/api/get-lantai?fakultas=${fakultas}&gedung=${gedung}`
-        );
-        if (!response.ok) throw new Error('Failed to fetch lantai');
-        const data = await response.json();
-        setLantaiOptions(data.lantai || []);
-        setLantai("all");
-      } catch (err) {
-        console.error("Error fetching lantai:", err);
-      }
-    };
-    fetchLantai();
-  }, [gedung, fakultas]);
 
 
   // Fetch data when filters change
@@ -154,19 +115,7 @@ export default function Home() {
     const fetchData = async () => {
       console.log("fetching data");
       try {
-        const fakultas_data = fakultas === "all" ? "" : fakultas;
-        const gedung_data = gedung === "all" ? "" : gedung;
-        const lantai_data = lantai === "all" ? "" : lantai;
-
-        const url = `${ANALYSIS_URL}/api/daily?date=${date}&faculty=${fakultas_data}&building=${gedung_data}&floor=${lantai_data}`;
-
-        // console.log(url);
-        const response = await fetch(url);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch data: ${response.status}`);
-        }
-
-        const data: ElisaData = await response.json();
+        const data = await getDailyData(date, { faculty, building, floor });
         setData(data);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Unknown error occurred');
@@ -179,15 +128,9 @@ export default function Home() {
     const fetchAnalysis = async () => {
       setAnalysis("");
       try {
-        const fakultas_data = fakultas === "all" ? "" : fakultas;
-        const gedung_data = gedung === "all" ? "" : gedung;
-        const lantai_data = lantai === "all" ? "" : lantai;
 
-        const response = await fetch(`${ANALYSIS_URL}/api/analysis/daily?date=${date}&faculty=${fakultas_data}&building=${gedung_data}&floor=${lantai_data}`);
-        if (!response.ok) throw new Error('Failed to fetch analysis');
-        const analysis_result = await response.json();
-        setAnalysis(analysis_result.analysis);
-        console.log(analysis_result)
+        const analysis_result = await getAnalysis("daily", { date, faculty, building, floor });
+        setAnalysis(analysis_result);
       } catch (err) {
         console.error("Error fetching analysis:", err);
       }
@@ -200,28 +143,167 @@ export default function Home() {
 
     fetchAll();
 
-    let intervalId: NodeJS.Timeout;
-    intervalId = setInterval(fetchAll, 15 * 60 * 1000);
+    return subscribeLive({
+      channel: liveChannel("/api/daily", { date, faculty, building, floor }),
+      pollInterval: 15 * 60 * 1000,
+      poll: fetchAll,
+      onMessage: (message) =>
+        setData((current) =>
+          applyLiveUpdate(current, message, dailyDataSchema.partial()),
+        ),
+    });
 
-    return () => {
-      if (intervalId) clearInterval(intervalId);
-    };
+  }, [date, faculty, building, floor, revision]);
+
+  // Fetch the comparison day when a comparison is selected
+  useEffect(() => {
+    setPreviousData(null);
+    if (comparison === NO_COMPARISON) return;
 
-  }, [date, fakultas, gedung, lantai]);
+    let cancelled = false;
+    getDailyData(previousDate(date, comparison), { faculty, building, floor })
+      .then((result) => {
+        if (!cancelled) setPreviousData(result);
+      })
+      .catch((err) => console.error("Error fetching comparison data:", err));
 
+    return () => {
+      cancelled = true;
+    };
+  }, [comparison, date, faculty, building, floor]);
+
+  const comparisonLabel = DAILY_PERIODS.find((p) => p.id === comparison)?.label;
+  const periodPoints =
+    data && previousData
+      ? alignPeriods(
+          data.chart_data.map((item) => ({
+            timestamp: item.timestamp,
+            value: totalPhases(item),
+          })),
+          previousData.chart_data.map((item) => ({
+            timestamp: item.timestamp,
+            value: totalPhases(item),
+          })),
+          timeOfDayKey,
+          (key) => formatTimestamp(`${date}T${key}:00`),
+        )
+      : [];
 
   // Prepare chart data for clustered column chart
-  const chartData = data?.chart_data.map(item => ({
-    time: formatTimestamp(item.timestamp),
-    R: item.R,
-    S: item.S,
-    T: item.T
-  })) || [];
+  const chartData = periodPoints.length > 0
+    ? periodPoints.map((point) => {
+        const item = data?.chart_data.find((i) => i.timestamp === point.timestamp);
+        return {
+          time: point.label,
+          R: item?.R,
+          S: item?.S,
+          T: item?.T,
+          current: point.current,
+          previous: point.previous,
+          deltaPct: point.deltaPct,
+        };
+      })
+    : data?.chart_data.map(item => ({
+        time: formatTimestamp(item.timestamp),
+        R: item.R,
+        S: item.S,
+        T: item.T
+      })) || [];
+
+  // Every row is on the selected day, so an event spans the whole chart
+  const bands = calendarBands(
+    chartData.map((row) => ({ date, label: row.time })),
+    events,
+  );
+
+  // Readings are scaled to kWh per hour to match the hourly heatmap history
+  const readingHours = data
+    ? intervalHours(data.chart_data.map((item) => item.timestamp))
+    : 1;
+  const anomalies =
+    data && anomalyBaseline.baseline
+      ? detectAnomalies(
+          data.chart_data.map((item) => ({
+            timestamp: item.timestamp,
+            value: totalPhases(item) / readingHours,
+          })),
+          anomalyBaseline.baseline,
+          anomalyOptions,
+        )
+      : [];
+
+  // A full day of readings is expected for past days
+  const quality = data
+    ? checkSeries(
+        data.chart_data.map((item) => ({
+          timestamp: item.timestamp,
+          value: totalPhases(item),
+        })),
+        {
+          ...DEFAULT_QUALITY_OPTIONS,
+          intervalMinutes: READING_INTERVAL_MINUTES,
+          expected: date < new Date().toISOString().slice(0, 10) ? READINGS_PER_DAY : undefined,
+        },
+      )
+    : null;
+
+  const getExportDocument = (): ExportDocument | null =>
+    data && {
+      title: `ELISA Daily ${date}`,
+      metadata: [...filterMetadata(filterLabels), ["Date", date]],
+      tables: [
+        {
+          name: "Phase Energy",
+          columns: [
+            { key: "timestamp", header: "Timestamp" },
+            { key: "R", header: "Phase R (kWh)" },
+            { key: "S", header: "Phase S (kWh)" },
+            { key: "T", header: "Phase T (kWh)" },
+          ],
+          rows: data.chart_data,
+        },
+        {
+          name: "Hourly Data",
+          columns: [
+            { key: "hour", header: "Hour (UTC+7)" },
+            { key: "energy", header: "Energy (kWh)" },
+            { key: "cost", header: "Cost (Rp)" },
+          ],
+          rows: data.hourly_data,
+        },
+        ...(periodPoints.length > 0
+          ? [
+              {
+                name: `vs ${comparisonLabel}`,
+                columns: [
+                  { key: "label", header: "Time (UTC+7)" },
+                  { key: "current", header: "Current (kWh)" },
+                  { key: "previous", header: `${comparisonLabel} (kWh)` },
+                  { key: "delta", header: "Change (kWh)" },
+                  { key: "deltaPct", header: "Change (%)" },
+                ],
+                rows: periodPoints.map((point) => ({ ...point })),
+              },
+            ]
+          : []),
+        keyValueTable("Summary", [
+          ["Today energy (kWh)", data.today_data.total_daya],
+          ["Today cost (Rp)", data.today_data.total_cost],
+          ["Today emissions (kg CO2e)", emissionsFor(data.today_data.total_daya, date, factors)],
+          ["Average hourly energy (kWh/hour)", data.today_data.avg_daya],
+          ["Average hourly cost (Rp/hour)", data.today_data.avg_cost],
+          ["Previous month energy (kWh)", data.prev_month_data?.total_daya],
+          ["Previous month cost (Rp)", data.prev_month_data?.total_cost],
+          ["Previous month daily energy (kWh/day)", data.prev_month_data?.day_daya],
+          ["Previous month daily cost (Rp/day)", data.prev_month_data?.day_cost],
+        ]),
+      ],
+    };
 
   return (
     <div className="p-6">
       {/* Filter Section */}
-      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 my-6">
+      <EnergyFilters>
         <div className="flex flex-col">
           <label className="text-sm font-medium mb-1">Date</label>
           <input
@@ -232,95 +314,32 @@ export default function Home() {
             max={new Date().toISOString().split('T')[0]} // Prevent future dates
           />
         </div>
-
-        {/* Fakultas Select */}
-        <div className="flex flex-col">
-          <label className="text-sm font-medium mb-1">Fakultas</label>
-          <Select
-            value={fakultas}
-            onValueChange={(value) => {
-              setFakultas(value);
-              setGedung("all");
-              setLantai("all");
-            }}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder="Select Fakultas" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Fakultas</SelectItem>
-              {fakultasOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-
-        {/* Gedung Select */}
-        <div className="flex flex-col">
-          <label className="text-sm font-medium mb-1">Gedung</label>
-          <Select
-            value={gedung}
-            onValueChange={(value) => {
-              setGedung(value);
-              setLantai("all");
-            }}
-            disabled={fakultas === "all"}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder={fakultas !== "all" ? "Select Gedung" : "Select Fakultas first"} />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Gedung</SelectItem>
-              {gedungOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-
-        {/* Lantai Select */}
-        <div className="flex flex-col">
-          <label className="text-sm font-medium mb-1">Lantai</label>
-          <Select
-            value={lantai}
-            onValueChange={setLantai}
-            disabled={gedung === "all" || fakultas === "all"}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder={gedung !== "all" ? "Select Lantai" : "Select Gedung first"} />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Lantai</SelectItem>
-              {lantaiOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-
-        {/* Reset Button */}
-        <div className="flex items-end">
-          <button
-            onClick={() => {
-              setFakultas("all");
-              setGedung("all");
-              setLantai("all");
-            }}
-            className="w-full bg-gray-200 hover:bg-gray-300 text-gray-800 py-2 px-4 rounded-md"
-          >
-            Reset Filters
-          </button>
-        </div>
+      </EnergyFilters>
+
+      <div className="flex justify-end gap-2 mb-4">
+        {!compareMode && (
+          <PeriodComparisonSelect
+            periods={DAILY_PERIODS}
+            value={comparison}
+            onChange={setComparison}
+          />
+        )}
+        {!compareMode && <EmissionFactorDialog />}
+        {!compareMode && <AcademicCalendarDialog />}
+        {!compareMode && data && (
+          <ExportMenu getDocument={getExportDocument} />
+        )}
+        <Button
+          variant={compareMode ? "default" : "outline"}
+          onClick={() => setCompareMode(!compareMode)}
+        >
+          {compareMode ? "Back to single view" : "Compare buildings"}
+        </Button>
       </div>
 
-      {loading ? (
+      {compareMode ? (
+        <DailyComparison date={date} />
+      ) : loading ? (
         <motion.div
           key="results"
           initial={{ opacity: 0 }}
@@ -359,6 +378,7 @@ export default function Home() {
                           <h3 className="font-semibold">Total Usage</h3>
                           <p><span className="font-medium">Energy: </span>{data.today_data.total_daya.toFixed(2)} kWh</p>
                           <p><span className="font-medium">Cost: </span>Rp{data.today_data.total_cost.toFixed(2)}</p>
+                          <p><span className="font-medium">Emissions: </span>{formatEmissions(emissionsFor(data.today_data.total_daya, date, factors))}</p>
                         </div>
                         <div>
                         <h3 className="font-semibold">Average Hourly Usage</h3>
@@ -366,6 +386,13 @@ export default function Home() {
                           <p><span className="font-medium">Cost: </span>Rp{data.today_data.avg_cost.toFixed(2)} /hour</p>
                         </div>
                       </div>
+                      {previousData && (
+                        <div className="mt-4 pt-4 border-t">
+                          <h3 className="font-semibold">vs {comparisonLabel}</h3>
+                          <p><span className="font-medium">Energy: </span><DeltaText current={data.today_data.total_daya} previous={previousData.today_data.total_daya} unit="kWh" /></p>
+                          <p><span className="font-medium">Cost: </span><DeltaText current={data.today_data.total_cost} previous={previousData.today_data.total_cost} unit="Rp" /></p>
+                        </div>
+                      )}
                     </div>
                     <div className="bg-white p-4 rounded-lg shadow-md">
                       <h2 className="text-xl font-semibold mb-4">Previous Month Summary</h2>
@@ -389,7 +416,7 @@ export default function Home() {
                         <h2 className="text-xl font-semibold mb-4">Energy Consumption by Phase</h2>
                         <div className="h-80">
                           <ResponsiveContainer width="100%" height="100%">
-                            <BarChart
+                            <ComposedChart
                               data={chartData}
                               margin={{
                                 top: 20,
@@ -399,16 +426,41 @@ export default function Home() {
                               }}
                             >
                               <CartesianGrid strokeDasharray="3 3" />
+                              {calendarBandAreas(bands)}
+                              {quality && qualityAreas(quality.issues, formatTimestamp)}
                               <XAxis dataKey="time" />
                               <YAxis label={{ value: 'Energy (kWh)', angle: -90, position: 'insideLeft' }} />
-                              <Tooltip />
+                              <Tooltip
+                                formatter={(value, name, item) =>
+                                  item.dataKey === "current" && item.payload.deltaPct != null
+                                    ? [`${Number(value).toFixed(2)} (${item.payload.deltaPct > 0 ? "+" : ""}${item.payload.deltaPct.toFixed(1)}%)`, name]
+                                    : [value, name]
+                                }
+                              />
                               <Legend />
                               <Bar dataKey="R" fill="#8884d8" name="Phase R" />
                               <Bar dataKey="S" fill="#82ca9d" name="Phase S" />
                               <Bar dataKey="T" fill="#ffc658" name="Phase T" />
-                            </BarChart>
+                              {periodPoints.length > 0 && (
+                                <>
+                                  <Line type="monotone" dataKey="current" stroke="#1f2937" strokeWidth={2} dot={false} name="Total" />
+                                  <Line type="monotone" dataKey="previous" stroke="#9ca3af" strokeWidth={2} strokeDasharray="5 5" dot={false} name={`Total (${comparisonLabel})`} />
+                                </>
+                              )}
+                              {anomalies.map((anomaly) => (
+                                <ReferenceArea
+                                  key={anomaly.timestamp}
+                                  x1={formatTimestamp(anomaly.timestamp)}
+                                  x2={formatTimestamp(anomaly.timestamp)}
+                                  fill="#ef4444"
+                                  fillOpacity={0.15}
+                                />
+                              ))}
+                            </ComposedChart>
                           </ResponsiveContainer>
                         </div>
+                        <CalendarBandLegend bands={bands} />
+                        <QualitySummary report={quality} />
                       </div>
                       <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
                         <h2 className="text-xl font-semibold mb-4">AI Analysis</h2>
@@ -454,6 +506,35 @@ export default function Home() {
                         </div>
                       </div>
                     </div>
+                    <AnomalyPanel
+                      anomalies={anomalies}
+                      unit="kWh/hour"
+                      options={anomalyOptions}
+                      onOptionsChange={setAnomalyOptions}
+                      loading={anomalyBaseline.loading}
+                      error={anomalyBaseline.error}
+                    />
+                    <TariffSimulator data={data} />
+                    <WastePanel loads={loadsFromHourlyTotals(hourlyTotals(data.chart_data))} />
+                    <ForecastPanel
+                      kind="hourly"
+                      start={date}
+                      filters={apiFilters}
+                      actual={hourlyTotals(data.chart_data)}
+                    />
+                    <ExternalSeriesPanel
+                      kind="hourly"
+                      range={{ start: date, end: date }}
+                      power={hourlyTotals(data.chart_data)}
+                    />
+                    {periodPoints.length > 0 && (
+                      <PeriodComparisonTable
+                        points={periodPoints}
+                        unit="kWh"
+                        keyHeader="Time (UTC+7)"
+                        previousLabel={comparisonLabel!}
+                      />
+                    )}
                     {/* Table Section */}
                     <div className="mb-8">
                       <h2 className="text-xl font-semibold mb-4">Hourly Data</h2>
@@ -0,0 +1,339 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { motion } from "framer-motion";
+import { Loader2 } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { CalendarSplitStats } from "@/components/calendar-split-stats";
+import { EnergyFilters } from "@/components/energy-filters";
+import { ExportMenu } from "@/components/export-menu";
+import { useConnectivity } from "@/contexts/connectivity-context";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import { ExportDocument, filterMetadata, keyValueTable } from "@/lib/export";
+import {
+  aggregateReadings,
+  ExplorerReading,
+  formatBucket,
+  Granularity,
+  GRANULARITIES,
+  isSubDaily,
+  loadRangeReadings,
+} from "@/lib/explorer";
+
+export default function Explorer() {
+  const [readings, setReadings] = useState<ExplorerReading[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filter states
+  const { dateRange, setDateRange, apiFilters, filterLabels } = useEnergyFilter();
+  const { revision } = useConnectivity();
+  const { faculty, building, floor } = apiFilters;
+  const [granularity, setGranularity] = useState<Granularity>("daily");
+  const today = new Date().toISOString().split("T")[0];
+
+  // Sub-daily and daily/weekly views come from different endpoints, so only
+  // switching between those two groups needs a new fetch
+  const subDaily = isSubDaily(granularity);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    loadRangeReadings(
+      { start: dateRange.start, end: dateRange.end },
+      subDaily ? "hourly" : "daily",
+      { faculty, building, floor },
+    )
+      .then((result) => {
+        if (!cancelled) setReadings(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setReadings(null);
+        setError(err instanceof Error ? err.message : "Unknown error occurred");
+        console.error("Error fetching data:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dateRange.start, dateRange.end, subDaily, faculty, building, floor, revision]);
+
+  const buckets = readings ? aggregateReadings(readings, granularity) : [];
+  const chartData = buckets.map((bucket) => ({
+    ...bucket,
+    label: formatBucket(bucket.start, granularity),
+  }));
+  const hasCost = buckets.length > 0 && buckets.every((b) => b.cost !== null);
+
+  const totalEnergy = buckets.reduce((sum, b) => sum + b.energy, 0);
+  const totalCost = buckets.reduce((sum, b) => sum + (b.cost ?? 0), 0);
+  const peak = buckets.reduce<(typeof buckets)[number] | null>(
+    (max, b) => (max === null || b.energy > max.energy ? b : max),
+    null,
+  );
+  const granularityLabel = GRANULARITIES.find((g) => g.id === granularity)!.label;
+
+  const getExportDocument = (): ExportDocument | null =>
+    buckets.length > 0
+      ? {
+          title: `ELISA Explorer ${dateRange.start} to ${dateRange.end}`,
+          metadata: [
+            ...filterMetadata(filterLabels),
+            ["Start", dateRange.start],
+            ["End", dateRange.end],
+            ["Granularity", granularityLabel],
+          ],
+          tables: [
+            {
+              name: "Energy",
+              columns: [
+                { key: "start", header: "Period start" },
+                { key: "energy", header: "Energy (kWh)" },
+                ...(hasCost ? [{ key: "cost", header: "Cost (Rp)" }] : []),
+                { key: "readings", header: "Readings" },
+              ],
+              rows: buckets.map((bucket) => ({ ...bucket })),
+            },
+            keyValueTable("Summary", [
+              ["Total energy (kWh)", totalEnergy],
+              ["Total cost (Rp)", hasCost ? totalCost : undefined],
+              ["Average energy per period (kWh)", totalEnergy / buckets.length],
+              ["Peak period", peak?.start],
+              ["Peak energy (kWh)", peak?.energy],
+            ]),
+          ],
+        }
+      : null;
+
+  return (
+    <div className="p-6">
+      {/* Filter Section */}
+      <EnergyFilters>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Date Range</label>
+          <div className="flex gap-2">
+            <input
+              type="date"
+              value={dateRange.start}
+              onChange={(e) =>
+                setDateRange({ start: e.target.value, end: dateRange.end })
+              }
+              className="p-2 border rounded-md w-full"
+              max={dateRange.end}
+            />
+            <input
+              type="date"
+              value={dateRange.end}
+              onChange={(e) =>
+                setDateRange({ start: dateRange.start, end: e.target.value })
+              }
+              className="p-2 border rounded-md w-full"
+              min={dateRange.start}
+              max={today}
+            />
+          </div>
+        </div>
+      </EnergyFilters>
+
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <div className="flex flex-col w-48">
+          <label className="text-sm font-medium mb-1">Granularity</label>
+          <Select
+            value={granularity}
+            onValueChange={(value: Granularity) => setGranularity(value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GRANULARITIES.map((g) => (
+                <SelectItem key={g.id} value={g.id}>
+                  {g.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {buckets.length > 0 && <ExportMenu getDocument={getExportDocument} />}
+      </div>
+
+      {loading ? (
+        <motion.div
+          key="results"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          layout
+          className="sm:h-full min-h-[400px] flex flex-col"
+        >
+          <div className="flex-grow flex flex-col items-center justify-center">
+            <div className="flex items-center justify-center">
+              <Loader2 className="h-12 w-12 animate-spin text-muted-foreground" />
+            </div>
+            <div className="flex items-center justify-center mt-4 text-muted-foreground">
+              Loading data...
+            </div>
+          </div>
+        </motion.div>
+      ) : (
+        readings && (
+          <motion.div
+            key="results"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            layout
+          >
+            {/* Summary Section */}
+            <div className="bg-white p-4 rounded-lg shadow-md mb-8">
+              <h2 className="text-xl font-semibold mb-4">Range Summary</h2>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <h3 className="font-semibold">Total Energy</h3>
+                  <p>{totalEnergy.toFixed(2)} kWh</p>
+                </div>
+                <div>
+                  <h3 className="font-semibold">Total Cost</h3>
+                  <p>{hasCost ? `Rp${totalCost.toFixed(2)}` : "N/A"}</p>
+                </div>
+                <div>
+                  <h3 className="font-semibold">Average per Period</h3>
+                  <p>
+                    {buckets.length > 0
+                      ? (totalEnergy / buckets.length).toFixed(2)
+                      : "N/A"}{" "}
+                    kWh
+                  </p>
+                </div>
+                <div>
+                  <h3 className="font-semibold">Peak Period</h3>
+                  <p>
+                    {peak
+                      ? `${formatBucket(peak.start, granularity)} (${peak.energy.toFixed(2)} kWh)`
+                      : "N/A"}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            {/* Chart Section */}
+            <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+              <h2 className="text-xl font-semibold mb-4">
+                Energy Consumption ({granularityLabel})
+              </h2>
+              <div className="h-96">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart
+                    data={chartData}
+                    margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+                    <YAxis
+                      yAxisId="energy"
+                      label={{ value: "Energy (kWh)", angle: -90, position: "insideLeft" }}
+                    />
+                    {hasCost && (
+                      <YAxis
+                        yAxisId="cost"
+                        orientation="right"
+                        label={{ value: "Cost (Rp)", angle: 90, position: "insideRight" }}
+                      />
+                    )}
+                    <Tooltip />
+                    <Legend />
+                    <Line
+                      yAxisId="energy"
+                      type="monotone"
+                      dataKey="energy"
+                      stroke="#8884d8"
+                      strokeWidth={2}
+                      dot={chartData.length <= 60}
+                      name="Energy (kWh)"
+                    />
+                    {hasCost && (
+                      <Line
+                        yAxisId="cost"
+                        type="monotone"
+                        dataKey="cost"
+                        stroke="#82ca9d"
+                        strokeWidth={2}
+                        dot={chartData.length <= 60}
+                        name="Cost (Rp)"
+                      />
+                    )}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <CalendarSplitStats
+              days={aggregateReadings(readings ?? [], "daily").map((bucket) => ({
+                date: bucket.start.slice(0, 10),
+                energy: bucket.energy,
+              }))}
+            />
+
+            {/* Table Section */}
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-4">Detailed Data</h2>
+              <div className="bg-white rounded-lg shadow-md overflow-hidden max-h-[600px] overflow-y-auto">
+                <Table>
+                  <TableHeader className="bg-gray-100">
+                    <TableRow>
+                      <TableHead>Period (UTC+7)</TableHead>
+                      <TableHead>Energy</TableHead>
+                      <TableHead>Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {chartData.map((bucket) => (
+                      <TableRow key={bucket.start}>
+                        <TableCell>{bucket.label}</TableCell>
+                        <TableCell>{bucket.energy.toFixed(2)} kWh</TableCell>
+                        <TableCell>
+                          {bucket.cost !== null ? `Rp${bucket.cost.toFixed(2)}` : "N/A"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </motion.div>
+        )
+      )}
+      {error && <p className="text-red-500 text-center">Error: {error}</p>}
+    </div>
+  );
+}
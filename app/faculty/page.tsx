@@ -22,48 +22,24 @@ import {
   ResponsiveContainer,
   LabelList,
 } from "recharts";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EmissionFactorDialog } from "@/components/emission-factor-dialog";
+import { ExportMenu } from "@/components/export-menu";
+import { useConnectivity } from "@/contexts/connectivity-context";
+import { useEmissionFactors } from "@/contexts/emission-factor-context";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import { getAnalysis, getFacultyComparison } from "@/lib/elisa-client";
+import { FacultyComparisonData } from "@/lib/elisa-schemas";
+import {
+  emissionsFor,
+  FacultyEmissions,
+  formatEmissions,
+  loadFacultyYearToDate,
+} from "@/lib/emissions";
+import { ExportDocument, keyValueTable } from "@/lib/export";
+import { liveChannel, subscribeLive } from "@/lib/live";
 
 const ELISA_URL = 'https://elisa.itb.ac.id';
 
-interface FacultyComparisonData {
-  value: {
-    fakultas: string;
-    energy: number;
-    cost: number;
-  }[];
-  data: {
-    max: {
-      fakultas: string;
-      energy: number;
-      cost: number;
-    };
-    min: {
-      fakultas: string;
-      energy: number;
-      cost: number;
-    };
-    total: {
-      total: number;
-      cost: number;
-    };
-    average: {
-      average: number;
-      cost: number;
-    };
-  };
-  info: {
-    faculty: string;
-    energy: number;
-    cost: number;
-    area: number;
-    ike: number;
-    students: number;
-    specific_energy: number;
-  }[];
-}
-const ANALYSIS_URL = process.env.NEXT_PUBLIC_API_URL
-
 export default function FacultyComparison() {
   const [data, setData] = useState<FacultyComparisonData | null>(null);
   const [loading, setLoading] = useState(false);
@@ -71,7 +47,8 @@ export default function FacultyComparison() {
   
   // Filter state - default to current month
   const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
-  const [month, setMonth] = useState(currentMonth);
+  const { month, setMonth } = useEnergyFilter();
+  const { revision } = useConnectivity();
 
   // Sort state
   const [sortField, setSortField] = useState<keyof FacultyComparisonData['info'][0]>("energy");
@@ -80,6 +57,13 @@ export default function FacultyComparison() {
   // Analysis
   const [analysis, setAnalysis] = useState("");
 
+  // Year-to-date emissions per faculty
+  const { factors } = useEmissionFactors();
+  const [ytd, setYtd] = useState<{
+    months: string[];
+    faculties: FacultyEmissions[];
+  } | null>(null);
+
   
   // fetch analysis using useEffect
   // Fetch data when month changes
@@ -88,13 +72,7 @@ export default function FacultyComparison() {
       setLoading(true);
       setError(null);
       try {
-        const url = `${ANALYSIS_URL}/api/compare?date=${month}`;
-        const response = await fetch(url);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch data: ${response.status}`);
-        }
-        
-        const data: FacultyComparisonData = await response.json();
+        const data = await getFacultyComparison(month);
         setData(data);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Unknown error occurred');
@@ -106,11 +84,8 @@ export default function FacultyComparison() {
     
     const fetchAnalysis = async () => {
       try {
-        const response = await fetch(`${ANALYSIS_URL}/api/analysis/faculty?date=${month}`);
-        if (!response.ok) throw new Error('Failed to fetch analysis');
-        const analysis_result = await response.json();
-        setAnalysis(analysis_result.analysis);
-        console.log(analysis_result)
+        const analysis_result = await getAnalysis("faculty", { date: month });
+        setAnalysis(analysis_result);
       } catch (err) {
         console.error("Error fetching analysis:", err);
       }
@@ -123,14 +98,27 @@ export default function FacultyComparison() {
 
     fetchAll();
     
-    let intervalId: NodeJS.Timeout;
-    intervalId = setInterval(fetchAll, 60*60*1000);
+    return subscribeLive({
+      channel: liveChannel("/api/compare", { date: month }),
+      pollInterval: 60 * 60 * 1000,
+      poll: fetchAll,
+    });
+
+  }, [month, revision]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setYtd(null);
+    loadFacultyYearToDate(month, factors)
+      .then((result) => {
+        if (!cancelled) setYtd(result);
+      })
+      .catch((err) => console.error("Error fetching year-to-date data:", err));
 
     return () => {
-      if (intervalId) clearInterval(intervalId);
+      cancelled = true;
     };
-
-  }, [month, ANALYSIS_URL]);
+  }, [month, factors]);
 
   // Sort the info data
   const sortedInfo = data?.info ? [...data.info].sort((a, b) => {
@@ -144,6 +132,66 @@ export default function FacultyComparison() {
   const chartData = data?.value
     .sort((a, b) => b.energy - a.energy) || [];
 
+  const getExportDocument = (): ExportDocument | null =>
+    data && {
+      title: `ELISA Faculty Comparison ${month}`,
+      metadata: [["Month", month]],
+      tables: [
+        {
+          name: "Ranking",
+          columns: [
+            { key: "fakultas", header: "Faculty" },
+            { key: "energy", header: "Energy (kWh)" },
+            { key: "cost", header: "Cost (Rp)" },
+            { key: "emissions", header: "Emissions (kg CO2e)" },
+          ],
+          rows: chartData.map((item) => ({
+            ...item,
+            emissions: emissionsFor(item.energy, month, factors),
+          })),
+        },
+        ...(ytd
+          ? [
+              {
+                name: "Emissions YTD",
+                columns: [
+                  { key: "faculty", header: "Faculty" },
+                  { key: "energy", header: `Energy ${ytd.months[0] ?? ""} to ${month} (kWh)` },
+                  { key: "emissions", header: "Emissions (kg CO2e)" },
+                ],
+                rows: ytd.faculties.map((item) => ({ ...item })),
+              },
+            ]
+          : []),
+        {
+          name: "Faculty Info",
+          columns: [
+            { key: "faculty", header: "Faculty" },
+            { key: "energy", header: "Energy (kWh)" },
+            { key: "cost", header: "Cost (IDR)" },
+            { key: "area", header: "Area (m²)" },
+            { key: "ike", header: "IKE" },
+            { key: "students", header: "Students" },
+            { key: "specific_energy", header: "Specific Energy" },
+          ],
+          rows: sortedInfo.map((item) => ({
+            ...item,
+            specific_energy: item.energy / item.students,
+          })),
+        },
+        keyValueTable("Summary", [
+          ["Highest consumption", data.data.max.fakultas],
+          ["Highest energy (kWh)", data.data.max.energy],
+          ["Lowest consumption", data.data.min.fakultas],
+          ["Lowest energy (kWh)", data.data.min.energy],
+          ["Total energy (kWh)", data.data.total?.total],
+          ["Total cost (Rp)", data.data.total?.cost],
+          ["Average energy per day (kWh/day)", data.data.average?.average],
+          ["Average cost per day (Rp/day)", data.data.average?.cost],
+        ]),
+      ],
+    };
+
   return (
     <div className="p-6">
       {/* Filter Section */}
@@ -160,6 +208,11 @@ export default function FacultyComparison() {
         </div>
       </div>
 
+      <div className="flex justify-end gap-2 mb-4">
+        <EmissionFactorDialog />
+        {data && <ExportMenu getDocument={getExportDocument} />}
+      </div>
+
       {loading ? (
         <motion.div
           key="results"
@@ -254,6 +307,70 @@ export default function FacultyComparison() {
             </div>
           </div>
 
+          {/* Year-to-date emissions */}
+          <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+            <h2 className="text-xl font-semibold mb-4">
+              Carbon Emissions Year to Date ({month.slice(0, 4)})
+            </h2>
+            {!ytd ? (
+              <div className="flex items-center justify-center h-40 text-muted-foreground">
+                <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+                Loading year-to-date data...
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="h-96">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart
+                      layout="vertical"
+                      data={ytd.faculties.map((item) => ({
+                        ...item,
+                        tonnes: item.emissions / 1000,
+                      }))}
+                      margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" />
+                      <YAxis dataKey="faculty" type="category" width={120} tick={{ fontSize: 12 }} />
+                      <Tooltip formatter={(value: number) => [`${value.toFixed(2)} t CO2e`, "Emissions"]} />
+                      <Bar dataKey="tonnes" fill="#64748b" name="t CO2e" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="max-h-96 overflow-y-auto">
+                  <Table>
+                    <TableHeader className="bg-gray-100">
+                      <TableRow>
+                        <TableHead>Faculty</TableHead>
+                        <TableHead>This Month</TableHead>
+                        <TableHead>Year to Date</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {ytd.faculties.map((item) => {
+                        const monthEnergy = chartData.find((c) => c.fakultas === item.faculty)?.energy;
+                        return (
+                          <TableRow key={item.faculty}>
+                            <TableCell>{item.faculty}</TableCell>
+                            <TableCell>
+                              {monthEnergy !== undefined
+                                ? formatEmissions(emissionsFor(monthEnergy, month, factors))
+                                : "N/A"}
+                            </TableCell>
+                            <TableCell>{formatEmissions(item.emissions)}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                  <p className="text-sm text-muted-foreground mt-2">
+                    Covers {ytd.months.length} month{ytd.months.length === 1 ? "" : "s"} of data.
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+
           <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
               <h2 className="text-xl font-semibold mb-4">AI Analysis</h2>
               <div className="h-40">
@@ -0,0 +1,442 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { motion } from "framer-motion";
+import { Loader2 } from "lucide-react";
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import { ExportMenu } from "@/components/export-menu";
+import { formatCompleteness } from "@/components/quality-marks";
+import { useConnectivity } from "@/contexts/connectivity-context";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import {
+  issueCounts,
+  QUALITY_ISSUES,
+  qualityReports,
+  ResponseQuality,
+  subscribeQuality,
+} from "@/lib/data-quality";
+import { ExportDocument } from "@/lib/export";
+import { addDays } from "@/lib/explorer";
+import {
+  COMPLETENESS_TARGET,
+  HEALTH_DAY_COUNTS,
+  HealthEntity,
+  loadHealthEntities,
+} from "@/lib/meter-health";
+
+const completenessColor = (value: number | null) =>
+  value === null
+    ? "#9ca3af"
+    : value >= COMPLETENESS_TARGET
+      ? "#10b981"
+      : value >= COMPLETENESS_TARGET - 0.15
+        ? "#f59e0b"
+        : "#ef4444";
+
+const describeParams = (params: Record<string, string>) =>
+  Object.entries(params)
+    .filter(([, value]) => value !== "")
+    .map(([key, value]) => `${key}=${value}`)
+    .join(", ");
+
+export default function Health() {
+  const [entities, setEntities] = useState<HealthEntity[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [responses, setResponses] = useState<ResponseQuality[]>([]);
+
+  // Filter states; only whole days are scored, so the latest is yesterday
+  const yesterday = addDays(new Date().toISOString().slice(0, 10), -1);
+  const [endDate, setEndDate] = useState(yesterday);
+  const [dayCount, setDayCount] = useState(HEALTH_DAY_COUNTS[0]);
+  // Faculty whose buildings are scored, null for the faculties
+  const [fakultas, setFakultas] = useState<string | null>(null);
+  const { fakultasOptions } = useEnergyFilter();
+  const { revision } = useConnectivity();
+
+  const startDate = addDays(endDate, -(dayCount - 1));
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    loadHealthEntities({ start: startDate, end: endDate }, fakultas)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.length === 0) throw new Error("No meters found");
+        setEntities(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setEntities(null);
+        setError(err instanceof Error ? err.message : "Unknown error occurred");
+        console.error("Error fetching data:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, endDate, fakultas, revision]);
+
+  // Every ELISA response checked this session, including the ones above
+  useEffect(() => {
+    setResponses(qualityReports());
+    return subscribeQuality(() => setResponses(qualityReports()));
+  }, []);
+
+  const levelLabel = fakultas ? "Building" : "Faculty";
+  const fakultasLabel =
+    fakultasOptions.find((option) => option.value === fakultas)?.label ?? fakultas;
+
+  // Least complete first; failed requests last
+  const rows = (entities ?? [])
+    .map((entity) => ({
+      ...entity,
+      completeness: entity.report?.completeness ?? null,
+      counts: entity.report ? issueCounts(entity.report.issues) : null,
+    }))
+    .sort((a, b) => (a.completeness ?? Infinity) - (b.completeness ?? Infinity));
+
+  const scored = rows.filter((row) => row.completeness !== null);
+  const averageCompleteness = scored.length
+    ? scored.reduce((sum, row) => sum + row.completeness!, 0) / scored.length
+    : null;
+  const belowTarget = scored.filter((row) => row.completeness! < COMPLETENESS_TARGET);
+  const totalMissing = scored.reduce((sum, row) => sum + row.counts!.gap, 0);
+  const stuckMeters = scored.filter((row) => row.counts!.stuck > 0).length;
+
+  const chartData = rows.map((row) => ({
+    label: row.label,
+    completeness: row.completeness !== null ? row.completeness * 100 : 0,
+    color: completenessColor(row.completeness),
+  }));
+
+  const getExportDocument = (): ExportDocument | null =>
+    rows.length > 0
+      ? {
+          title: `ELISA Meter Health ${startDate} to ${endDate}`,
+          metadata: [
+            ["Period", `${startDate} to ${endDate}`],
+            ["Level", fakultas ? `Buildings of ${fakultasLabel}` : "Faculties"],
+            ["Completeness target", formatCompleteness(COMPLETENESS_TARGET)],
+          ],
+          tables: [
+            {
+              name: "Completeness",
+              columns: [
+                { key: "label", header: levelLabel },
+                { key: "completeness", header: "Completeness" },
+                { key: "readings", header: "Readings" },
+                { key: "expected", header: "Expected readings" },
+                ...QUALITY_ISSUES.map((kind) => ({ key: kind.id, header: kind.label })),
+                { key: "error", header: "Error" },
+              ],
+              rows: rows.map((row) => ({
+                label: row.label,
+                completeness: row.completeness,
+                readings: row.report?.readings,
+                expected: row.report?.expected,
+                ...row.counts,
+                error: row.error,
+              })),
+            },
+          ],
+        }
+      : null;
+
+  return (
+    <div className="p-6">
+      {/* Filter Section */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 my-6">
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Last day</label>
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => e.target.value && setEndDate(e.target.value)}
+            className="p-2 border rounded-md"
+            max={yesterday}
+          />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Days</label>
+          <Select
+            value={String(dayCount)}
+            onValueChange={(value) => setDayCount(Number(value))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HEALTH_DAY_COUNTS.map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count === 1 ? "1 day" : `${count} days`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Meters</label>
+          <Select
+            value={fakultas ?? "all"}
+            onValueChange={(value) => setFakultas(value === "all" ? null : value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All faculties</SelectItem>
+              {fakultasOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  Buildings of {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="flex justify-end mb-4">
+          <ExportMenu getDocument={getExportDocument} />
+        </div>
+      )}
+
+      {loading ? (
+        <motion.div
+          key="results"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          layout
+          className="sm:h-full min-h-[400px] flex flex-col"
+        >
+          <div className="flex-grow flex flex-col items-center justify-center">
+            <div className="flex items-center justify-center">
+              <Loader2 className="h-12 w-12 animate-spin text-muted-foreground" />
+            </div>
+            <div className="flex items-center justify-center mt-4 text-muted-foreground">
+              Checking meter readings...
+            </div>
+          </div>
+        </motion.div>
+      ) : error ? (
+        <p className="text-red-500 text-center">Error: {error}</p>
+      ) : (
+        rows.length > 0 && (
+          <motion.div
+            key="results"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            layout
+          >
+            {/* Summary Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Average Completeness</h3>
+                <p className="text-lg">{formatCompleteness(averageCompleteness)}</p>
+                <p>
+                  {scored.length} of {rows.length} {fakultas ? "buildings" : "faculties"} loaded
+                </p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Below Target</h3>
+                <p className="text-lg">{belowTarget.length}</p>
+                <p>Under {formatCompleteness(COMPLETENESS_TARGET)} complete</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Missing Readings</h3>
+                <p className="text-lg">{totalMissing}</p>
+                <p>15-minute intervals with no reading</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Stuck Meters</h3>
+                <p className="text-lg">{stuckMeters}</p>
+                <p>Repeating one value for an hour or more</p>
+              </div>
+            </div>
+
+            {/* Completeness per faculty or building */}
+            <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+              <h2 className="text-xl font-semibold mb-4">
+                Data Completeness by {levelLabel} ({startDate} to {endDate})
+              </h2>
+              <div style={{ height: Math.max(384, chartData.length * 32) }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    layout="vertical"
+                    data={chartData}
+                    margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      type="number"
+                      domain={[0, 100]}
+                      tickFormatter={(value) => `${value}%`}
+                    />
+                    <YAxis dataKey="label" type="category" width={150} tick={{ fontSize: 12 }} />
+                    <Tooltip formatter={(value: number) => [`${value.toFixed(1)}%`, "Completeness"]} />
+                    <Bar dataKey="completeness" name="Completeness">
+                      {chartData.map((row) => (
+                        <Cell key={row.label} fill={row.color} />
+                      ))}
+                    </Bar>
+                    <ReferenceLine
+                      x={COMPLETENESS_TARGET * 100}
+                      stroke="#1f2937"
+                      strokeDasharray="5 5"
+                      label={{ value: "Target", position: "insideTopRight" }}
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Table Section */}
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-4">Meter Health</h2>
+              <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                <Table>
+                  <TableHeader className="bg-gray-100">
+                    <TableRow>
+                      <TableHead>{levelLabel}</TableHead>
+                      <TableHead>Completeness</TableHead>
+                      <TableHead>Readings</TableHead>
+                      {QUALITY_ISSUES.map((kind) => (
+                        <TableHead key={kind.id} title={kind.description}>
+                          {kind.label}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow key={row.key}>
+                        <TableCell>
+                          {fakultas ? (
+                            row.label
+                          ) : (
+                            <button
+                              type="button"
+                              className="text-blue-600 hover:underline text-left"
+                              onClick={() => setFakultas(row.value)}
+                            >
+                              {row.label}
+                            </button>
+                          )}
+                        </TableCell>
+                        <TableCell
+                          className="font-medium"
+                          style={{ color: completenessColor(row.completeness) }}
+                        >
+                          {formatCompleteness(row.completeness)}
+                        </TableCell>
+                        {row.report && row.counts ? (
+                          <>
+                            <TableCell>
+                              {row.report.readings} / {row.report.expected}
+                            </TableCell>
+                            {QUALITY_ISSUES.map((kind) => (
+                              <TableCell key={kind.id}>{row.counts![kind.id]}</TableCell>
+                            ))}
+                          </>
+                        ) : (
+                          <TableCell colSpan={QUALITY_ISSUES.length + 1} className="text-red-500">
+                            {row.error}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-sm text-muted-foreground mt-2">
+                Completeness is the share of expected 15-minute readings that arrived
+                without issues. Missing readings count intervals; the other columns count
+                affected readings.{!fakultas && " Select a faculty to score its buildings."}
+              </p>
+            </div>
+          </motion.div>
+        )
+      )}
+
+      {/* Responses checked while browsing the dashboard */}
+      <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+        <h2 className="text-xl font-semibold mb-4">Checked Responses</h2>
+        {responses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No ELISA responses with readings checked yet.
+          </p>
+        ) : (
+          <div className="max-h-[400px] overflow-y-auto">
+            <Table>
+              <TableHeader className="bg-gray-100">
+                <TableRow>
+                  <TableHead>Checked</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Parameters</TableHead>
+                  <TableHead>Readings</TableHead>
+                  <TableHead>Completeness</TableHead>
+                  <TableHead>Issues</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {responses.map((response) => {
+                  const counts = issueCounts(response.report.issues);
+                  const found = QUALITY_ISSUES.filter((kind) => counts[kind.id] > 0);
+                  return (
+                    <TableRow key={response.key}>
+                      <TableCell>{new Date(response.checkedAt).toLocaleTimeString()}</TableCell>
+                      <TableCell>{response.endpoint}</TableCell>
+                      <TableCell>{describeParams(response.params)}</TableCell>
+                      <TableCell>{response.report.readings}</TableCell>
+                      <TableCell style={{ color: completenessColor(response.report.completeness) }}>
+                        {formatCompleteness(response.report.completeness)}
+                      </TableCell>
+                      <TableCell>
+                        {found.length === 0
+                          ? "None"
+                          : found.map((kind) => `${kind.label} (${counts[kind.id]})`).join(", ")}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -21,29 +21,58 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AcademicCalendarDialog } from "@/components/academic-calendar-dialog";
+import { CalendarBandLegend } from "@/components/calendar-bands";
+import { CalendarHeatmap } from "@/components/calendar-heatmap";
+import { EnergyFilters } from "@/components/energy-filters";
+import { ExportMenu } from "@/components/export-menu";
+import { HeatmapDifference } from "@/components/heatmap-difference";
+import { HeatmapCell, HeatmapDrilldown } from "@/components/heatmap-drilldown";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAcademicCalendar } from "@/contexts/academic-calendar-context";
+import { useConnectivity } from "@/contexts/connectivity-context";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import { calendarBands, categoryColor, primaryEvent } from "@/lib/academic-calendar";
+import { getAnalysis, getHeatmapData } from "@/lib/elisa-client";
+import { HeatmapData } from "@/lib/elisa-schemas";
+import { ExportDocument, filterMetadata } from "@/lib/export";
+import { addDays, loadRangeReadings, startOfWeek } from "@/lib/explorer";
+import { toDateInput } from "@/lib/format";
+import {
+  averageWeekGrid,
+  buildHeatmapGrid,
+  cellDate,
+  diffGrids,
+  COLOR_SCALES,
+  ColorScale,
+  colorScale,
+  dayNames,
+  heatColor,
+  HEATMAP_LAYOUTS,
+  HeatmapLayout,
+  hourLabels,
+  loadWeekGrids,
+  quantileBreaks,
+  stackWeeks,
+  WEEK_COUNTS,
+  WeekGrid,
+} from "@/lib/heatmap";
+import { liveChannel, subscribeLive } from "@/lib/live";
 import { HeatMapGrid } from "react-grid-heatmap";
 
 const ELISA_URL = 'https://elisa.itb.ac.id';
 
-interface HeatmapData {
-  dates: {
-    start: string;
-    end: string;
-  };
-  heatmap: {
-    day: number; // 1-7 (Monday-Sunday)
-    hour: number; // 0-23
-    value: number;
-  }[];
-}
-
-interface Option {
-  value: string;
-  label: string;
-}
-
-const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+// The week before the one starting on `weekStart`
+const previousWeek = (weekStart: string) => ({
+  start: addDays(weekStart, -7),
+  end: addDays(weekStart, -1),
+});
 
 export default function Home() {
   const [data, setData] = useState<HeatmapData | null>(null);
@@ -51,123 +80,67 @@ export default function Home() {
   const [error, setError] = useState<string | null>(null);
   
   // Filter states
-  const [dateRange, setDateRange] = useState<{start: string, end: string}>(() => {
-    // Default to current week
-    const today = new Date();
-    const end = new Date(today);
-    // start date is today - 6 days
-    const start = new Date(today);
-    start.setDate(today.getDate() - 6); 
-    
-    return {
-      start: start.toISOString().split('T')[0],
-      end: end.toISOString().split('T')[0]
-    };
-  });
-  const [fakultas, setFakultas] = useState("all");
-  const [gedung, setGedung] = useState("all");
-  const [lantai, setLantai] = useState("all");
+  const { dateRange, setDateRange, apiFilters, filterLabels } = useEnergyFilter();
+  const { revision } = useConnectivity();
+  const { events } = useAcademicCalendar();
+  const { faculty, building, floor } = apiFilters;
+  // The shared range may start on any day (by default the last seven days);
+  // this page always shows the Sunday to Saturday week it starts in
+  const weekStart = startOfWeek(dateRange.start);
+  const weekEnd = addDays(weekStart, 6);
   
-  // Options states
-  const [fakultasOptions, setFakultasOptions] = useState<Option[]>([]);
-  const [gedungOptions, setGedungOptions] = useState<Option[]>([]);
-  const [lantaiOptions, setLantaiOptions] = useState<Option[]>([]);
-
   // Analysis
   const [analysis, setAnalysis] = useState("");
 
-  const ANALYSIS_URL = process.env.NEXT_PUBLIC_API_URL
+  // Layout, color scale and drill-down
+  const [layout, setLayout] = useState<HeatmapLayout>("week");
+  const [scale, setScale] = useState<ColorScale>("linear");
+  const [weekCount, setWeekCount] = useState(WEEK_COUNTS[0]);
+  const [weeks, setWeeks] = useState<WeekGrid[] | null>(null);
+  const [calendar, setCalendar] = useState<{ date: string; value: number }[] | null>(null);
+  const [layoutLoading, setLayoutLoading] = useState(false);
+  const [layoutError, setLayoutError] = useState<string | null>(null);
+  const [selectedCell, setSelectedCell] = useState<HeatmapCell | null>(null);
 
-  // Prepare heatmap data
-  const prepareHeatmapData = () => {
-    if (!data) return { xLabels: [], yLabels: [], data: [] };
-    
-    // Initialize empty grid (7 days x 24 hours)
-    const grid = Array(7).fill(0).map(() => Array(24).fill(0));
-    
-    // Fill the grid with values
-    data.heatmap.forEach(item => {
-      // Adjust day index (API returns 1=Monday, we want 0=Sunday)
-      const dayIndex = (item.day + 6) % 7; // Convert to 0-6 (Sunday-Saturday)
-      grid[dayIndex][item.hour] = item.value;
-    });
-    
-    // Prepare labels
-    const xLabels = Array(24).fill(0).map((_, i) => `${i}:00`);
-    const yLabels = dayNames;
-    
-    return { xLabels, yLabels, data: grid };
-  };
-
-  const { xLabels, yLabels, data: heatmapData } = prepareHeatmapData();
+  // Difference mode compares the selected week against the average week of a
+  // baseline range, by default the week before
+  const [baselineRange, setBaselineRange] = useState(() => previousWeek(weekStart));
+  const [baselineGrid, setBaselineGrid] = useState<number[][] | null>(null);
+  const year = Number(weekStart.slice(0, 4));
 
-  // Find min and max values for color scaling
-  const minValue = Math.min(...(data?.heatmap.map(item => item.value) || [0]));
-  const maxValue = Math.max(...(data?.heatmap.map(item => item.value) || [1]));
-
-  // Fetch initial fakultas options
-  useEffect(() => {
-    const fetchFakultas = async () => {
-      try {
-        const response = await fetch(`${ANALYSIS_URL}/api/get-fakultas`);
-        if (!response.ok) throw new Error('Failed to fetch fakultas');
-        const data = await response.json();
-        setFakultasOptions(data.fakultas || []);
-      } catch (err) {
-        console.error("Error fetching fakultas:", err);
-      }
-    };
-    fetchFakultas();
-  }, []);
+  // Prepare heatmap data
+  const xLabels = hourLabels;
+  const yLabels = dayNames;
+  const heatmapData = data ? buildHeatmapGrid(data.heatmap) : [];
+  const stacked = weeks ? stackWeeks(weeks) : null;
 
-  // Fetch gedung options when fakultas changes
-  useEffect(() => {
-    if (fakultas === "all") {
-      setGedung("all");
-      setGedungOptions([]);
-      setLantai("all");
-      setLantaiOptions([]);
-      return;
-    }
+  // Values shown in the current layout drive the color scale
+  const layoutValues =
+    layout === "calendar"
+      ? (calendar ?? []).map((day) => day.value)
+      : layout === "weeks"
+        ? (stacked?.grid ?? []).flat()
+        : (data?.heatmap ?? []).map((item) => item.value);
+  const ratioOf = colorScale(layoutValues, scale);
 
-    const fetchGedung = async () => {
-      try {
-        const response = await fetch(`${ANALYSIS_URL}/api/get-gedung?fakultas=${fakultas}`);
-        if (!response.ok) throw new Error('Failed to fetch gedung');
-        const data = await response.json();
-        setGedungOptions(data.gedung || []);
-        setGedung("all");
-        setLantai("all");
-      } catch (err) {
-        console.error("Error fetching gedung:", err);
-      }
-    };
-    fetchGedung();
-  }, [fakultas, ANALYSIS_URL]);
+  // Find min and max values for the legend
+  const minValue = layoutValues.length ? Math.min(...layoutValues) : 0;
+  const maxValue = layoutValues.length ? Math.max(...layoutValues) : 0;
 
-  // Fetch lantai options when gedung changes
-  useEffect(() => {
-    if (gedung === "all" || fakultas === "all") {
-      setLantai("all");
-      setLantaiOptions([]);
-      return;
-    }
+  // Academic calendar events on the days of the current layout
+  const shownDates =
+    layout === "calendar"
+      ? (calendar ?? []).map((day) => day.date)
+      : layout === "weeks"
+        ? stacked?.dates ?? []
+        : data
+          ? yLabels.map((_, row) => cellDate(weekStart, row))
+          : [];
+  const bands = calendarBands(
+    shownDates.map((date) => ({ date, label: date })),
+    events,
+  );
 
-    const fetchLantai = async () => {
-      try {
-        const response = await fetch(
-          `${ANALYSIS_URL}/api/get-lantai?fakultas=${fakultas}&gedung=${gedung}`
-        );
-        if (!response.ok) throw new Error('Failed to fetch lantai');
-        const data = await response.json();
-        setLantaiOptions(data.lantai || []);
-        setLantai("all");
-      } catch (err) {
-        console.error("Error fetching lantai:", err);
-      }
-    };
-    fetchLantai();
-  }, [gedung, fakultas]);
 
   // Fetch data when filters change
   useEffect(() => {
@@ -175,19 +148,11 @@ export default function Home() {
       setLoading(true);
       setError(null);
       try {
-        const fakultas_data = fakultas === "all" ? "" : fakultas;
-        const gedung_data = gedung === "all" ? "" : gedung;
-        const lantai_data = lantai === "all" ? "" : lantai;
-
-        const url = `${ANALYSIS_URL}/api/heatmap?start=${dateRange.start}&end=${dateRange.end}&faculty=${fakultas_data}&building=${gedung_data}&floor=${lantai_data}`;
-        
-        console.log(url);
-        const response = await fetch(url);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch data: ${response.status}`);
-        }
-        
-        const data: HeatmapData = await response.json();
+        const data = await getHeatmapData(weekStart, weekEnd, {
+          faculty,
+          building,
+          floor,
+        });
         setData(data);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Unknown error occurred');
@@ -199,18 +164,18 @@ export default function Home() {
 
     const fetchAnalysis = async () => {
       try {
-        const fakultas_data = fakultas === "all" ? "" : fakultas;
-        const gedung_data = gedung === "all" ? "" : gedung;
-        const lantai_data = lantai === "all" ? "" : lantai;
 
-        const start_date_input = dateRange.start;
-        const end_date_input = dateRange.end;
+        const start_date_input = weekStart;
+        const end_date_input = weekEnd;
 
-        const response = await fetch(`${ANALYSIS_URL}/api/analysis/heatmap?start=${start_date_input}&end=${end_date_input}&faculty=${fakultas_data}&building=${gedung_data}&floor=${lantai_data}`);
-        if (!response.ok) throw new Error('Failed to fetch analysis');
-        const analysis_result = await response.json();
-        setAnalysis(analysis_result.analysis);
-        console.log(analysis_result)
+        const analysis_result = await getAnalysis("heatmap", {
+          start: start_date_input,
+          end: end_date_input,
+          faculty,
+          building,
+          floor,
+        });
+        setAnalysis(analysis_result);
       } catch (err) {
         console.error("Error fetching analysis:", err);
       }
@@ -222,13 +187,123 @@ export default function Home() {
 
     fetchAll();
     
-    let intervalId: NodeJS.Timeout;
-    intervalId = setInterval(fetchAll, 15*60*1000);
+    return subscribeLive({
+      channel: liveChannel("/api/heatmap", {
+        start: weekStart,
+        end: weekEnd,
+        faculty,
+        building,
+        floor,
+      }),
+      pollInterval: 15 * 60 * 1000,
+      poll: fetchAll,
+    });
+  }, [weekStart, weekEnd, faculty, building, floor, revision]);
+
+  useEffect(() => {
+    setBaselineRange(previousWeek(weekStart));
+  }, [weekStart]);
+
+  // Multi-week and calendar layouts need their own requests
+  useEffect(() => {
+    if (layout === "week") return;
+    if (layout === "difference" && baselineRange.start > baselineRange.end) {
+      setBaselineGrid(null);
+      setLayoutLoading(false);
+      setLayoutError("Baseline start must not be after its end");
+      return;
+    }
+    let cancelled = false;
+    setLayoutLoading(true);
+    setLayoutError(null);
+
+    const request =
+      layout === "difference"
+        ? getHeatmapData(baselineRange.start, baselineRange.end, apiFilters).then((result) => {
+            if (!cancelled) {
+              setBaselineGrid(averageWeekGrid(buildHeatmapGrid(result.heatmap), baselineRange));
+            }
+          })
+        : layout === "weeks"
+        ? loadWeekGrids(weekStart, apiFilters, weekCount).then((result) => {
+            if (!cancelled) setWeeks(result);
+          })
+        : loadRangeReadings(
+            {
+              start: `${year}-01-01`,
+              end: [`${year}-12-31`, toDateInput(new Date())].sort()[0],
+            },
+            "daily",
+            apiFilters,
+          ).then((readings) => {
+            if (!cancelled) {
+              setCalendar(
+                readings.map((reading) => ({
+                  date: reading.timestamp.slice(0, 10),
+                  value: reading.energy,
+                })),
+              );
+            }
+          });
+
+    request
+      .catch((err) => {
+        if (!cancelled) {
+          setLayoutError(err instanceof Error ? err.message : "Unknown error occurred");
+        }
+        console.error("Error fetching heatmap layout data:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLayoutLoading(false);
+      });
 
     return () => {
-      if (intervalId) clearInterval(intervalId);
+      cancelled = true;
     };
-  }, [dateRange, fakultas, gedung, lantai]);
+  }, [layout, weekCount, year, weekStart, apiFilters, baselineRange]);
+
+  const renderGrid = (
+    grid: number[][],
+    rowLabels: string[],
+    dateOf: (row: number) => string,
+    cellHeight: string,
+  ) => (
+    <HeatMapGrid
+      data={grid}
+      xLabels={xLabels}
+      yLabels={rowLabels}
+      cellHeight={cellHeight}
+      onClick={(x, y) => setSelectedCell({ date: dateOf(y), hour: x })}
+      cellStyle={(x, y) => {
+        const ratio = ratioOf(grid[y][x]);
+        return {
+          background: heatColor(ratio),
+          fontSize: "0.8rem",
+          color: ratio > 0.5 ? "white" : "black",
+          cursor: "pointer",
+        };
+      }}
+      cellRender={(x, y, value) => (
+        <div title={`${rowLabels[y]} ${xLabels[x]}: ${value?.toFixed(2) || 0} kWh`}>
+          {value?.toFixed(1) || 0}
+        </div>
+      )}
+      xLabelsStyle={() => ({
+        fontSize: "0.8rem",
+        textTransform: "uppercase",
+        color: "#777"
+      })}
+      yLabelsStyle={(row) => {
+        const event = primaryEvent(dateOf(row), events);
+        return {
+          fontSize: "0.8rem",
+          textTransform: "uppercase",
+          color: event ? categoryColor(event.category) : "#777",
+          fontWeight: event ? 600 : undefined,
+        };
+      }}
+    />
+  );
 
   // Handle date range change (always adjust to full week)
   const handleDateChange = (newDate: string) => {
@@ -244,106 +319,97 @@ export default function Home() {
     });
   };
 
+  const getExportDocument = (): ExportDocument | null =>
+    data && {
+      title: `ELISA Heatmap ${data.dates.start} to ${data.dates.end}`,
+      metadata: [
+        ...filterMetadata(filterLabels),
+        ["Start", data.dates.start],
+        ["End", data.dates.end],
+      ],
+      tables: [
+        {
+          name: "Heatmap (kWh)",
+          columns: [
+            { key: "day", header: "Day" },
+            ...xLabels.map((label, hour) => ({ key: String(hour), header: label })),
+          ],
+          rows: heatmapData.map((values, dayIndex) => ({
+            day: yLabels[dayIndex],
+            ...Object.fromEntries(values.map((value, hour) => [hour, value])),
+          })),
+        },
+        ...(layout === "weeks" && stacked
+          ? [
+              {
+                name: `Last ${weekCount} Weeks (kWh)`,
+                columns: [
+                  { key: "date", header: "Date" },
+                  ...xLabels.map((label, hour) => ({ key: String(hour), header: label })),
+                ],
+                rows: stacked.grid.map((values, row) => ({
+                  date: stacked.dates[row],
+                  ...Object.fromEntries(values.map((value, hour) => [hour, value])),
+                })),
+              },
+            ]
+          : []),
+        ...(layout === "calendar" && calendar
+          ? [
+              {
+                name: `Calendar ${year} (kWh)`,
+                columns: [
+                  { key: "date", header: "Date" },
+                  { key: "value", header: "Energy (kWh)" },
+                ],
+                rows: calendar,
+              },
+            ]
+          : []),
+        ...(layout === "difference" && baselineGrid
+          ? [
+              {
+                name: "Difference (kWh)",
+                columns: [
+                  { key: "day", header: "Day" },
+                  { key: "hour", header: "Hour" },
+                  { key: "baseline", header: `Baseline ${baselineRange.start} to ${baselineRange.end}, average week (kWh)` },
+                  { key: "current", header: `Current ${data.dates.start} to ${data.dates.end} (kWh)` },
+                  { key: "delta", header: "Change (kWh)" },
+                  { key: "deltaPct", header: "Change (%)" },
+                ],
+                rows: diffGrids(heatmapData, baselineGrid).map((cell) => ({
+                  ...cell,
+                  day: yLabels[cell.dayIndex],
+                  hour: xLabels[cell.hour],
+                })),
+              },
+            ]
+          : []),
+      ],
+    };
+
   return (
     <div className="p-6">
       {/* Filter Section */}
-      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 my-6">
+      <EnergyFilters>
         <div className="flex flex-col">
           <label className="text-sm font-medium mb-1">Week Starting</label>
           <input
             type="date"
-            value={dateRange.start}
+            value={weekStart}
             onChange={(e) => handleDateChange(e.target.value)}
             className="p-2 border rounded-md"
           />
         </div>
-        
-        {/* Fakultas Select */}
-        <div className="flex flex-col">
-          <label className="text-sm font-medium mb-1">Fakultas</label>
-          <Select 
-            value={fakultas} 
-            onValueChange={(value) => {
-              setFakultas(value);
-              setGedung("all");
-              setLantai("all");
-            }}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder="Select Fakultas" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Fakultas</SelectItem>
-              {fakultasOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-        
-        {/* Gedung Select */}
-        <div className="flex flex-col">
-          <label className="text-sm font-medium mb-1">Gedung</label>
-          <Select 
-            value={gedung} 
-            onValueChange={(value) => {
-              setGedung(value);
-              setLantai("all");
-            }}
-            disabled={fakultas === "all"}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder={fakultas !== "all" ? "Select Gedung" : "Select Fakultas first"} />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Gedung</SelectItem>
-              {gedungOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-        
-        {/* Lantai Select */}
-        <div className="flex flex-col">
-          <label className="text-sm font-medium mb-1">Lantai</label>
-          <Select 
-            value={lantai} 
-            onValueChange={setLantai}
-            disabled={gedung === "all" || fakultas === "all"}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder={gedung !== "all" ? "Select Lantai" : "Select Gedung first"} />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Lantai</SelectItem>
-              {lantaiOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-        
-        {/* Reset Button */}
-        <div className="flex items-end">
-          <button 
-            onClick={() => {
-              setFakultas("all");
-              setGedung("all");
-              setLantai("all");
-            }}
-            className="w-full bg-gray-200 hover:bg-gray-300 text-gray-800 py-2 px-4 rounded-md"
-          >
-            Reset Filters
-          </button>
+      </EnergyFilters>
+
+      {data && (
+        <div className="flex justify-end gap-2 mb-4">
+          <AcademicCalendarDialog />
+          <ExportMenu getDocument={getExportDocument} />
         </div>
-      </div>
+      )}
 
       {loading ? (
         <motion.div
@@ -377,42 +443,151 @@ export default function Home() {
         <>
           {/* Heatmap Section */}
           <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
-            <h2 className="text-xl font-semibold mb-4">
-              Energy Usage Heatmap ({new Date(data.dates.start).toLocaleDateString()} - {new Date(data.dates.end).toLocaleDateString()})
-            </h2>
-            <div className="h-[300px]">
-              <HeatMapGrid
-                data={heatmapData}
-                xLabels={xLabels}
-                yLabels={yLabels}
-                cellHeight="2rem"
-                cellStyle={(_x, _y, ratio) => ({
-                  background: `rgb(${255 * (ratio)}, ${255 * (1 - ratio)}, 0)`,
-                  fontSize: "0.8rem",
-                  color: ratio > 0.5 ? "white" : "black"
-                })}
-                cellRender={(x, y, value) => (
-                  <div title={`${yLabels[y]} ${xLabels[x]}: ${value?.toFixed(2) || 0} kWh`}>
-                    {value?.toFixed(1) || 0}
-                  </div>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h2 className="text-xl font-semibold">
+                {layout === "week" &&
+                  `Energy Usage Heatmap (${new Date(data.dates.start).toLocaleDateString()} - ${new Date(data.dates.end).toLocaleDateString()})`}
+                {layout === "weeks" && `Energy Usage Heatmap (last ${weekCount} weeks)`}
+                {layout === "calendar" && `Daily Energy Calendar ${year}`}
+                {layout === "difference" &&
+                  `Change vs ${baselineRange.start} to ${baselineRange.end}`}
+              </h2>
+              <div className="flex flex-wrap gap-2">
+                <Select value={layout} onValueChange={(value: HeatmapLayout) => setLayout(value)}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HEATMAP_LAYOUTS.map(({ id, label }) => (
+                      <SelectItem key={id} value={id}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {layout === "weeks" && (
+                  <Select
+                    value={String(weekCount)}
+                    onValueChange={(value) => setWeekCount(Number(value))}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEK_COUNTS.map((count) => (
+                        <SelectItem key={count} value={String(count)}>
+                          {count} weeks
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 )}
-                xLabelsStyle={(index) => ({
-                  fontSize: "0.8rem",
-                  textTransform: "uppercase",
-                  color: "#777"
-                })}
-                yLabelsStyle={() => ({
-                  fontSize: "0.8rem",
-                  textTransform: "uppercase",
-                  color: "#777"
-                })}
-              />
-            </div>
-            <div className="flex justify-between mt-2 text-sm text-gray-600">
-              <span>Low: {minValue.toFixed(2)} kWh</span>
-              <span>High: {maxValue.toFixed(2)} kWh</span>
+                {layout === "difference" ? (
+                  <>
+                    <input
+                      type="date"
+                      value={baselineRange.start}
+                      max={baselineRange.end}
+                      onChange={(e) => setBaselineRange({ ...baselineRange, start: e.target.value })}
+                      className="p-2 border rounded-md"
+                      aria-label="Baseline start"
+                    />
+                    <input
+                      type="date"
+                      value={baselineRange.end}
+                      min={baselineRange.start}
+                      onChange={(e) => setBaselineRange({ ...baselineRange, end: e.target.value })}
+                      className="p-2 border rounded-md"
+                      aria-label="Baseline end"
+                    />
+                  </>
+                ) : (
+                  <Select value={scale} onValueChange={(value: ColorScale) => setScale(value)}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COLOR_SCALES.map(({ id, label }) => (
+                        <SelectItem key={id} value={id}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
             </div>
+            {layout === "difference" && (
+              <p className="text-sm text-muted-foreground mb-4">
+                Current week {data.dates.start} to {data.dates.end} against the
+                average week of the baseline range, so ranges of any length
+                compare.
+              </p>
+            )}
+            {layout === "week" ? (
+              <div className="h-[300px]">
+                {renderGrid(
+                  heatmapData,
+                  yLabels,
+                  (row) => cellDate(weekStart, row),
+                  "2rem",
+                )}
+              </div>
+            ) : layoutLoading ? (
+              <div className="flex items-center justify-center h-40 text-muted-foreground">
+                <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+                Loading data...
+              </div>
+            ) : layoutError ? (
+              <p className="text-red-500 text-center">Error: {layoutError}</p>
+            ) : layout === "weeks" && stacked ? (
+              renderGrid(
+                stacked.grid,
+                stacked.dates.map(
+                  (date) =>
+                    `${dayNames[new Date(`${date}T00:00:00Z`).getUTCDay()].slice(0, 3)} ${date.slice(5)}`,
+                ),
+                (row) => stacked.dates[row],
+                "1.25rem",
+              )
+            ) : layout === "difference" && baselineGrid ? (
+              <HeatmapDifference
+                current={heatmapData}
+                baseline={baselineGrid}
+                onCellClick={(dayIndex, hour) =>
+                  setSelectedCell({ date: cellDate(weekStart, dayIndex), hour })
+                }
+              />
+            ) : layout === "calendar" && calendar ? (
+              <CalendarHeatmap
+                year={year}
+                totals={calendar}
+                scale={scale}
+                events={events}
+                onSelect={(date) => setSelectedCell({ date, hour: null })}
+              />
+            ) : null}
+            {layout !== "difference" && (
+              <div className="flex justify-between mt-2 text-sm text-gray-600">
+                <span>Low: {minValue.toFixed(2)} kWh</span>
+                {scale === "quantile" && (
+                  <span>
+                    Breaks: {quantileBreaks(layoutValues).map((value) => value.toFixed(1)).join(" / ")} kWh
+                  </span>
+                )}
+                <span>High: {maxValue.toFixed(2)} kWh</span>
+              </div>
+            )}
+            <CalendarBandLegend bands={bands} />
+            <p className="text-sm text-muted-foreground mt-1">
+              Click a cell to see its readings.
+            </p>
           </div>
+          <HeatmapDrilldown
+            cell={selectedCell}
+            filters={apiFilters}
+            onClose={() => setSelectedCell(null)}
+          />
           <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
               <h2 className="text-xl font-semibold mb-4">AI Analysis</h2>
               <div className="h-40 overflow-y-auto">
@@ -0,0 +1,231 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { HierarchyTree, HierarchyTreemap } from "@/components/hierarchy-navigator";
+import { useConnectivity } from "@/contexts/connectivity-context";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import { toDateInput } from "@/lib/format";
+import {
+  findNode,
+  HierarchyNode,
+  loadChildren,
+  nodeKey,
+  withChildren,
+} from "@/lib/hierarchy";
+
+const DASHBOARDS = [
+  { href: "/home", label: "Home" },
+  { href: "/daily", label: "Daily" },
+  { href: "/monthly", label: "Monthly" },
+  { href: "/heatmap", label: "Heatmap" },
+];
+
+export default function Hierarchy() {
+  const { fakultas, gedung, lantai, filterLabels, queryString, updateFilters } =
+    useEnergyFilter();
+  const { revision } = useConnectivity();
+  const [nodes, setNodes] = useState<HierarchyNode[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [loadingKeys, setLoadingKeys] = useState<Set<string>>(new Set());
+  // Node whose children fill the treemap, null for the whole campus
+  const [focusKey, setFocusKey] = useState<string | null>(null);
+
+  const today = toDateInput(new Date());
+  const selectedKey = nodeKey({ fakultas, gedung, lantai });
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setExpanded(new Set());
+    setFocusKey(null);
+    loadChildren(null, today)
+      .then((result) => {
+        if (!cancelled) setNodes(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Unknown error occurred");
+        console.error("Error fetching hierarchy:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [today, revision]);
+
+  const expand = async (node: HierarchyNode) => {
+    setExpanded((current) => new Set(current).add(node.key));
+    if (node.children !== null) return;
+
+    setLoadingKeys((current) => new Set(current).add(node.key));
+    try {
+      const children = await loadChildren(node, today);
+      setNodes((current) => withChildren(current, node.key, children));
+    } catch (err) {
+      console.error(`Error fetching children of ${node.label}:`, err);
+      setExpanded((current) => {
+        const next = new Set(current);
+        next.delete(node.key);
+        return next;
+      });
+    } finally {
+      setLoadingKeys((current) => {
+        const next = new Set(current);
+        next.delete(node.key);
+        return next;
+      });
+    }
+  };
+
+  const toggle = (node: HierarchyNode) => {
+    if (expanded.has(node.key)) {
+      setExpanded((current) => {
+        const next = new Set(current);
+        next.delete(node.key);
+        return next;
+      });
+    } else {
+      expand(node);
+      setFocusKey(node.key);
+    }
+  };
+
+  // Selecting a node sets the dashboard filters and zooms the treemap into it
+  const select = (node: HierarchyNode) => {
+    updateFilters(node.scope);
+    if (node.level !== "lantai") {
+      expand(node);
+      setFocusKey(node.key);
+    }
+  };
+
+  const focus = focusKey ? findNode(nodes, focusKey) : null;
+  const treemapNodes = focus ? focus.children ?? [] : nodes;
+
+  // Breadcrumb from the campus down to the focused node
+  const trail: HierarchyNode[] = [];
+  if (focus) {
+    const parts = focus.key.split("/");
+    parts.forEach((_, i) => {
+      const node = findNode(nodes, parts.slice(0, i + 1).join("/"));
+      if (node) trail.push(node);
+    });
+  }
+
+  const selectionLabel =
+    fakultas === "all"
+      ? "Whole campus"
+      : [filterLabels.fakultas, gedung !== "all" && filterLabels.gedung, lantai !== "all" && filterLabels.lantai]
+          .filter(Boolean)
+          .join(" / ");
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 my-6">
+        <div>
+          <p className="text-sm text-muted-foreground">Selected</p>
+          <p className="text-lg font-semibold">{selectionLabel}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {fakultas !== "all" && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateFilters({ fakultas: "all", gedung: "all", lantai: "all" })}
+            >
+              Clear selection
+            </Button>
+          )}
+          {DASHBOARDS.map((dashboard) => (
+            <Button key={dashboard.href} variant="outline" size="sm" asChild>
+              <Link href={queryString ? `${dashboard.href}?${queryString}` : dashboard.href}>
+                Open {dashboard.label}
+              </Link>
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <motion.div
+          key="results"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          layout
+          className="sm:h-full min-h-[400px] flex flex-col"
+        >
+          <div className="flex-grow flex flex-col items-center justify-center">
+            <div className="flex items-center justify-center">
+              <Loader2 className="h-12 w-12 animate-spin text-muted-foreground" />
+            </div>
+            <div className="flex items-center justify-center mt-4 text-muted-foreground">
+              Loading data...
+            </div>
+          </div>
+        </motion.div>
+      ) : error ? (
+        <p className="text-red-500 text-center">Error: {error}</p>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div className="bg-white p-4 rounded-lg shadow-md">
+            <h2 className="text-xl font-semibold mb-4">Campus Hierarchy ({today})</h2>
+            <div className="max-h-[600px] overflow-y-auto">
+              <HierarchyTree
+                nodes={nodes}
+                expanded={expanded}
+                loadingKeys={loadingKeys}
+                selectedKey={selectedKey}
+                onToggle={toggle}
+                onSelect={select}
+              />
+            </div>
+          </div>
+          <div className="bg-white p-4 rounded-lg shadow-md">
+            <div className="flex flex-wrap items-center gap-1 mb-4 text-sm">
+              <button
+                type="button"
+                className={focus ? "text-blue-600 hover:underline" : "font-semibold"}
+                onClick={() => setFocusKey(null)}
+              >
+                Campus
+              </button>
+              {trail.map((node) => (
+                <span key={node.key} className="flex items-center gap-1">
+                  <span className="text-muted-foreground">/</span>
+                  <button
+                    type="button"
+                    className={node.key === focusKey ? "font-semibold" : "text-blue-600 hover:underline"}
+                    onClick={() => setFocusKey(node.key)}
+                  >
+                    {node.label}
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="h-[560px]">
+              {focus && focus.children === null ? (
+                <div className="flex items-center justify-center h-full text-muted-foreground">
+                  <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+                  Loading data...
+                </div>
+              ) : (
+                <HierarchyTreemap nodes={treemapNodes} onSelect={select} />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
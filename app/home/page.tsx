@@ -20,136 +20,50 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ReferenceArea,
+  ReferenceDot,
 } from "recharts";
+import { AnomalyPanel } from "@/components/anomaly-panel";
+import { EnergyFilters } from "@/components/energy-filters";
+import { ExportMenu } from "@/components/export-menu";
+import { PeakDemandPanel } from "@/components/peak-demand";
+import { qualityAreas, QualitySummary } from "@/components/quality-marks";
+import { useConnectivity } from "@/contexts/connectivity-context";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import { useAnomalyBaseline } from "@/hooks/use-anomaly-baseline";
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+  anomalySegments,
+  DEFAULT_ANOMALY_OPTIONS,
+  detectAnomalies,
+} from "@/lib/anomaly";
+import { checkSeries } from "@/lib/data-quality";
+import { getAnalysis, getNowData } from "@/lib/elisa-client";
+import { NowData, nowDataSchema } from "@/lib/elisa-schemas";
+import { formatTimestamp } from "@/lib/format";
+import { ExportDocument, filterMetadata, keyValueTable } from "@/lib/export";
+import { applyLiveUpdate, liveChannel, subscribeLive } from "@/lib/live";
 
 const ELISA_URL = "https://elisa.itb.ac.id";
 
-interface ElisaData {
-  chart_data: {
-    timestamp: string;
-    power: number;
-  }[];
-  today_data: {
-    total_daya: number;
-    avg_daya: number;
-    total_cost: number;
-    avg_cost: number;
-  };
-  prev_month_data: {
-    total_daya: number;
-    total_cost: number;
-    day_daya: number;
-    day_cost: number;
-    hour_daya: number;
-    hour_cost: number;
-  };
-}
-
-interface Option {
-  value: string;
-  label: string;
-}
-
-const formatTimestamp = (timestamp: string) => {
-  const date = new Date(timestamp);
-  return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
-};
-
-const ANALYSIS_URL = process.env.NEXT_PUBLIC_API_URL
-
 export default function Home() {
-  const [data, setData] = useState<ElisaData | null>(null);
+  const [data, setData] = useState<NowData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Filter states
-  const [date, setDate] = useState("2025-01-01");
-  const [fakultas, setFakultas] = useState("all");
-  const [gedung, setGedung] = useState("all");
-  const [lantai, setLantai] = useState("all");
-
-  // Options states
-  const [fakultasOptions, setFakultasOptions] = useState<Option[]>([]);
-  const [gedungOptions, setGedungOptions] = useState<Option[]>([]);
-  const [lantaiOptions, setLantaiOptions] = useState<Option[]>([]);
+  // Starts at today, as the effect below sets it, so the anomaly baseline is
+  // only loaded once
+  const [date, setDate] = useState(() => new Date().toISOString().split("T")[0]);
+  const { apiFilters, filterLabels } = useEnergyFilter();
+  const { revision } = useConnectivity();
+  const { faculty, building, floor } = apiFilters;
 
   // Analysis
   const [analysis, setAnalysis] = useState("");
 
-  
-
-  // Fetch initial fakultas options
-
-  useEffect(() => {
-    const fetchFakultas = async () => {
-      try {
-        const response = await fetch(`${ANALYSIS_URL}/api/get-fakultas`);
-        if (!response.ok) throw new Error("Failed to fetch fakultas");
-        const data = await response.json();
-        setFakultasOptions(data.fakultas || []);
-      } catch (err) {
-        console.error("Error fetching fakultas:", err);
-      }
-    };
-    fetchFakultas();
-  }, []);
-
-  useEffect(() => {
-    if (fakultas === "all") {
-      setGedung("all");
-      setGedungOptions([]);
-      setLantai("all");
-      setLantaiOptions([]);
-      return;
-    }
-
-    const fetchGedung = async () => {
-      try {
-        const response = await fetch(
-          `${ANALYSIS_URL}/api/get-gedung?fakultas=${fakultas}`,
-        );
-        if (!response.ok) throw new Error("Failed to fetch gedung");
-        const data = await response.json();
-        setGedungOptions(data.gedung || []);
-        setGedung("all"); // Reset to "all" when fakultas changes
-        setLantai("all"); // Reset to "all" when fakultas changes
-      } catch (err) {
-        console.error("Error fetching gedung:", err);
-      }
-    };
-    fetchGedung();
-  }, [fakultas]);
-
-  // Fetch lantai options when gedung changes
-  useEffect(() => {
-    if (gedung === "all" || fakultas === "all") {
-      setLantai("all");
-      setLantaiOptions([]);
-      return;
-    }
-
-    const fetchLantai = async () => {
-      try {
-        const response = await fetch(
-          `${ANALYSIS_URL}/api/get-lantai?fakultas=${fakultas}&gedung=${gedung}`,
-        );
-        if (!response.ok) throw new Error("Failed to fetch lantai");
-        const data = await response.json();
-        setLantaiOptions(data.lantai || []);
-        setLantai("all"); // Reset to "all" when gedung changes
-      } catch (err) {
-        console.error("Error fetching lantai:", err);
-      }
-    };
-    fetchLantai();
-  }, [gedung, fakultas]);
+  // Anomaly detection against the hour-of-week history
+  const [anomalyOptions, setAnomalyOptions] = useState(DEFAULT_ANOMALY_OPTIONS);
+  const anomalyBaseline = useAnomalyBaseline(date, apiFilters);
 
   useEffect(() => {
     // current date in YYYY-MM-DD format without hour
@@ -162,17 +76,13 @@ export default function Home() {
         // delay 0.5 - 2 seconds
         const delay = Math.floor(Math.random() * 1000) + 100;
         await new Promise((resolve) => setTimeout(resolve, delay));
-        const fakultas_data = fakultas === "all" ? "" : fakultas;
-        const gedung_data = gedung === "all" ? "" : gedung;
-        const lantai_data = lantai === "all" ? "" : lantai;
 
-        const response = await fetch(
-          `${ANALYSIS_URL}/api/analysis/now?faculty=${fakultas_data}&building=${gedung_data}&floor=${lantai_data}`,
-        );
-        if (!response.ok) throw new Error("Failed to fetch analysis");
-        const analysis_result = await response.json();
-        setAnalysis(analysis_result.analysis);
-        console.log(analysis_result);
+        const analysis_result = await getAnalysis("now", {
+          faculty,
+          building,
+          floor,
+        });
+        setAnalysis(analysis_result);
       } catch (err) {
         console.error("Error fetching analysis:", err);
       }
@@ -180,20 +90,13 @@ export default function Home() {
 
     const fetchData = async () => {
       setError(null);
-      const fakultas_data = fakultas === "all" ? "" : fakultas;
-      const gedung_data = gedung === "all" ? "" : gedung;
-      const lantai_data = lantai === "all" ? "" : lantai;
 
       try {
-        const url = `${ANALYSIS_URL}/api/now?date=${current_date}&faculty=${fakultas_data}&building=${gedung_data}&floor=${lantai_data}`;
-
-        console.log(url);
-        const response = await fetch(url);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch data: ${response.status}`);
-        }
-
-        const data: ElisaData = await response.json();
+        const data = await getNowData(current_date, {
+          faculty,
+          building,
+          floor,
+        });
         setData(data);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Unknown error occurred");
@@ -211,13 +114,16 @@ export default function Home() {
 
     fetchAll();
 
-    let intervalId: NodeJS.Timeout;
-    intervalId = setInterval(fetchAll, 1 * 60 * 1000);
-
-    return () => {
-      if (intervalId) clearInterval(intervalId);
-    };
-  }, [date, fakultas, gedung, lantai]);
+    return subscribeLive({
+      channel: liveChannel("/api/now", { date: current_date, faculty, building, floor }),
+      pollInterval: 1 * 60 * 1000,
+      poll: fetchAll,
+      onMessage: (message) =>
+        setData((current) =>
+          applyLiveUpdate(current, message, nowDataSchema.partial()),
+        ),
+    });
+  }, [date, faculty, building, floor, revision]);
 
 
   const chartData =
@@ -244,10 +150,66 @@ export default function Home() {
   const bottomDomain = Math.floor(minPower * 0.98)
   const topDomain = Math.ceil(maxPower * 1.02)
 
+  // Power in kW over an hour equals the hourly kWh values of the heatmap
+  const anomalies =
+    data && anomalyBaseline.baseline
+      ? detectAnomalies(
+          data.chart_data.map((item) => ({
+            timestamp: item.timestamp,
+            value: item.power,
+          })),
+          anomalyBaseline.baseline,
+          anomalyOptions,
+        )
+      : [];
+
+  // Shade from the neighbouring readings so single points get a visible band
+  const anomalyAreas = anomalySegments(anomalies).map(([first, last]) => ({
+    x1: chartData[Math.max(first - 1, 0)].formattedTime,
+    x2: chartData[Math.min(last + 1, chartData.length - 1)].formattedTime,
+  }));
+
+  const quality = data
+    ? checkSeries(
+        data.chart_data.map((item) => ({
+          timestamp: item.timestamp,
+          value: item.power,
+        })),
+      )
+    : null;
+
+  const getExportDocument = (): ExportDocument | null =>
+    data && {
+      title: `ELISA Home ${date}`,
+      metadata: [...filterMetadata(filterLabels), ["Date", date]],
+      tables: [
+        {
+          name: "Power",
+          columns: [
+            { key: "timestamp", header: "Timestamp" },
+            { key: "power", header: "Power (kW)" },
+          ],
+          rows: data.chart_data,
+        },
+        keyValueTable("Summary", [
+          ["Today energy (kWh)", data.today_data.total_daya],
+          ["Today cost (Rp)", data.today_data.total_cost],
+          ["Today average energy (kWh/hour)", data.today_data.avg_daya],
+          ["Today average cost (Rp/hour)", data.today_data.avg_cost],
+          ["Previous month energy (kWh)", data.prev_month_data?.total_daya],
+          ["Previous month cost (Rp)", data.prev_month_data?.total_cost],
+          ["Previous month daily energy (kWh/day)", data.prev_month_data?.day_daya],
+          ["Previous month daily cost (Rp/day)", data.prev_month_data?.day_cost],
+          ["Previous month hourly energy (kWh/hour)", data.prev_month_data?.hour_daya],
+          ["Previous month hourly cost (Rp/hour)", data.prev_month_data?.hour_cost],
+        ]),
+      ],
+    };
+
   return (
     <div className="p-6">
       {/* Filter Section */}
-      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 my-6">
+      <EnergyFilters>
         <div className="flex flex-col">
           <label className="text-sm font-medium mb-1">Date</label>
           <input
@@ -258,101 +220,13 @@ export default function Home() {
             disabled
           />
         </div>
+      </EnergyFilters>
 
-        {/* Fakultas Select */}
-        <div className="flex flex-col">
-          <label className="text-sm font-medium mb-1">Fakultas</label>
-          <Select
-            value={fakultas}
-            onValueChange={(value) => {
-              setFakultas(value);
-              setGedung("all"); // Reset gedung when fakultas changes
-              setLantai("all"); // Reset lantai when fakultas changes
-            }}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder="Select Fakultas" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Fakultas</SelectItem>
-              {fakultasOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+      {data && (
+        <div className="flex justify-end mb-4">
+          <ExportMenu getDocument={getExportDocument} />
         </div>
-
-        {/* Gedung Select */}
-        <div className="flex flex-col">
-          <label className="text-sm font-medium mb-1">Gedung</label>
-          <Select
-            value={gedung}
-            onValueChange={(value) => {
-              setGedung(value);
-              setLantai("all"); // Reset lantai when gedung changes
-            }}
-            disabled={fakultas === "all"}
-          >
-            <SelectTrigger>
-              <SelectValue
-                placeholder={
-                  fakultas !== "all" ? "Select Gedung" : "Select Fakultas first"
-                }
-              />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Gedung</SelectItem>
-              {gedungOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-
-        {/* Lantai Select */}
-        <div className="flex flex-col">
-          <label className="text-sm font-medium mb-1">Lantai</label>
-          <Select
-            value={lantai}
-            onValueChange={setLantai}
-            disabled={gedung === "all" || fakultas === "all"}
-          >
-            <SelectTrigger>
-              <SelectValue
-                placeholder={
-                  gedung !== "all" ? "Select Lantai" : "Select Gedung first"
-                }
-              />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Lantai</SelectItem>
-              {lantaiOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-
-        {/* Reset Button */}
-        <div className="flex items-end">
-          <button
-            onClick={() => {
-              setFakultas("all");
-              setGedung("all");
-              setLantai("all");
-            }}
-            className="w-full bg-gray-200 hover:bg-gray-300 text-gray-800 py-2 px-4 rounded-md"
-          >
-            Reset Filters
-          </button>
-        </div>
-      </div>
+      )}
 
       {loading ? (
         <motion.div
@@ -409,7 +283,7 @@ export default function Home() {
               <div className="grid grid-cols-3 gap-4">
                 <div>
                   <h3 className="font-semibold">Total Usage:</h3>
-                  <p><span className="font-medium">Energy: </span>{data.prev_month_data?.total_daya.toFixed(2)} kWh</p>
+                  <p><span className="font-medium">Energy: </span>{data.prev_month_data?.total_daya?.toFixed(2)} kWh</p>
                   <p><span className="font-medium">Cost: </span>Rp{data.prev_month_data?.total_cost?.toFixed(2)}</p>
                 </div>
                 <div>
@@ -436,6 +310,7 @@ export default function Home() {
                 <ResponsiveContainer width="100%" height="100%">
                   <AreaChart data={chartData}>
                     <CartesianGrid strokeDasharray="3 3" />
+                    {quality && qualityAreas(quality.issues, formatTimestamp)}
                     <XAxis
                       dataKey="formattedTime"
                       tick={{ fontSize: 12 }}
@@ -468,9 +343,29 @@ export default function Home() {
                       activeDot={{ r: 8 }}
                       name="Power Consumption"
                     />
+                    {anomalyAreas.map((area) => (
+                      <ReferenceArea
+                        key={`${area.x1}-${area.x2}`}
+                        x1={area.x1}
+                        x2={area.x2}
+                        fill="#ef4444"
+                        fillOpacity={0.15}
+                      />
+                    ))}
+                    {anomalies.map((anomaly) => (
+                      <ReferenceDot
+                        key={anomaly.timestamp}
+                        x={chartData[anomaly.index].formattedTime}
+                        y={anomaly.value}
+                        r={4}
+                        fill="#ef4444"
+                        stroke="none"
+                      />
+                    ))}
                   </AreaChart>
                 </ResponsiveContainer>
               </div>
+              <QualitySummary report={quality} />
             </div>
 
             <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
@@ -518,6 +413,22 @@ export default function Home() {
             </div>
           </div>
 
+          <AnomalyPanel
+            anomalies={anomalies}
+            unit="kW"
+            options={anomalyOptions}
+            onOptionsChange={setAnomalyOptions}
+            loading={anomalyBaseline.loading}
+            error={anomalyBaseline.error}
+          />
+
+          <PeakDemandPanel
+            readings={data.chart_data.map((item) => ({
+              timestamp: item.timestamp,
+              demand: item.power,
+            }))}
+          />
+
           {/* Table Section */}
           <div className="mb-8">
             <h2 className="text-xl font-semibold mb-4">Detailed Data</h2>
@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { AnimatePresence, motion } from "framer-motion";
+import { CloudOff, Loader2 } from "lucide-react";
+import { HeatmapSlide, NowSlide, RankingSlide } from "@/components/kiosk-slides";
+import { useConnectivity } from "@/contexts/connectivity-context";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import { toDateInput } from "@/lib/format";
+import { liveChannel, subscribeLive } from "@/lib/live";
+import {
+  KIOSK_REFRESH_INTERVAL,
+  KioskData,
+  KioskSlide,
+  loadKioskData,
+  parseKioskConfig,
+  slideKey,
+} from "@/lib/kiosk";
+
+// Full-screen slideshow for lobby displays. It covers the dashboard chrome,
+// needs no input and is configured entirely through the URL (see lib/kiosk).
+export default function Kiosk() {
+  const searchParams = useSearchParams();
+  const config = useMemo(
+    () => parseKioskConfig(new URLSearchParams(searchParams.toString())),
+    [searchParams],
+  );
+  const { fakultasOptions } = useEnergyFilter();
+  const { staleSince, revision } = useConnectivity();
+
+  const [data, setData] = useState<KioskData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);
+  const [clock, setClock] = useState(() => new Date());
+
+  const labelOf = (faculty: string) =>
+    fakultasOptions.find((option) => option.value === faculty)?.label ?? faculty;
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchData = () =>
+      loadKioskData(config, toDateInput(new Date()))
+        .then((result) => {
+          if (cancelled) return;
+          setData(result);
+          setError(null);
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          setError(err instanceof Error ? err.message : "Unknown error occurred");
+          console.error("Error fetching kiosk data:", err);
+        });
+
+    fetchData();
+    // The slides combine several endpoints, so there is no channel to push
+    // to and the subscription is only polled
+    const unsubscribe = subscribeLive({
+      channel: liveChannel("/kiosk", { slides: config.slides.map(slideKey).join(",") }),
+      pollInterval: KIOSK_REFRESH_INTERVAL,
+      poll: fetchData,
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [config, revision]);
+
+  useEffect(() => {
+    setIndex(0);
+    if (config.slides.length === 0) return;
+    const intervalId = setInterval(
+      () => setIndex((current) => (current + 1) % config.slides.length),
+      config.interval * 1000,
+    );
+    return () => clearInterval(intervalId);
+  }, [config]);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setClock(new Date()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const slide = config.slides[index % config.slides.length];
+
+  const titleOf = (slide: KioskSlide) => {
+    switch (slide.type) {
+      case "campus":
+        return "ITB Campus Today";
+      case "faculty":
+        return `${labelOf(slide.faculty)} Today`;
+      case "heatmap":
+        return "Campus Usage This Week";
+      case "ranking":
+        return "Faculty Ranking This Month";
+    }
+  };
+
+  const renderSlide = (slide: KioskSlide) => {
+    if (!data) return null;
+    switch (slide.type) {
+      case "campus":
+        return <NowSlide data={data.now[""]} />;
+      case "faculty":
+        return <NowSlide data={data.now[slide.faculty]} />;
+      case "heatmap":
+        return <HeatmapSlide data={data.heatmap} />;
+      case "ranking":
+        return <RankingSlide data={data.ranking} labelOf={labelOf} />;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-white p-10 cursor-none">
+      <div className="flex items-baseline justify-between mb-8">
+        <h1 className="text-5xl font-bold">{slide ? titleOf(slide) : "Elisa"}</h1>
+        <span className="text-4xl tabular-nums text-muted-foreground">
+          {clock.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+        </span>
+      </div>
+
+      {!data ? (
+        <div className="flex-grow flex flex-col items-center justify-center text-2xl text-muted-foreground">
+          {error ? (
+            <p className="text-red-500">Error: {error}</p>
+          ) : (
+            <>
+              <Loader2 className="h-16 w-16 animate-spin" />
+              <p className="mt-4">Loading data...</p>
+            </>
+          )}
+        </div>
+      ) : !slide ? (
+        <div className="flex-grow flex items-center justify-center text-2xl text-muted-foreground">
+          No slides configured
+        </div>
+      ) : (
+        <AnimatePresence mode="wait">
+          <motion.div
+            key={slideKey(slide)}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="flex-grow flex flex-col"
+          >
+            {renderSlide(slide)}
+          </motion.div>
+        </AnimatePresence>
+      )}
+
+      <div className="flex items-center justify-between mt-8 text-xl text-muted-foreground">
+        <div className="flex gap-2">
+          {config.slides.map((item, i) => (
+            <span
+              key={slideKey(item)}
+              className={`h-3 w-3 rounded-full ${i === index ? "bg-slate-700" : "bg-slate-300"}`}
+            />
+          ))}
+        </div>
+        <span className="flex items-center gap-2">
+          {staleSince !== null && (
+            <>
+              <CloudOff className="h-5 w-5 text-yellow-600" />
+              Cached data from {new Date(staleSince).toLocaleString()} ·
+            </>
+          )}
+          {data && ` Updated ${new Date(data.updatedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -3,16 +3,17 @@ import { GeistMono } from "geist/font/mono";
 import { GeistSans } from "geist/font/sans";
 import { ThemeProvider } from "next-themes";
 import { cn } from "@/lib/utils"
-import Link from "next/link";
-import {
-  NavigationMenu,
-  NavigationMenuContent,
-  NavigationMenuItem,
-  NavigationMenuLink,
-  NavigationMenuList,
-  NavigationMenuTrigger,
-  navigationMenuTriggerStyle,
-} from "@/components/ui/navigation-menu";
+import { Suspense } from "react";
+import { NavMenu } from "@/components/nav-menu";
+import { NotificationCenter } from "@/components/notification-center";
+import { StaleBanner } from "@/components/stale-banner";
+import { Toaster } from "@/components/ui/sonner";
+import { AcademicCalendarProvider } from "@/contexts/academic-calendar-context";
+import { AlertProvider } from "@/contexts/alert-context";
+import { ConnectivityProvider } from "@/contexts/connectivity-context";
+import { EmissionFactorProvider } from "@/contexts/emission-factor-context";
+import { EnergyFilterProvider } from "@/contexts/energy-filter-context";
+import { ExternalSeriesProvider } from "@/contexts/external-series-context";
 
 export const metadata = {
   metadataBase: new URL("https://natural-language-postgres.vercel.app"),
@@ -31,60 +32,32 @@ export default function RootLayout({
     <html lang="en" suppressHydrationWarning>
       <body className={`${GeistMono.className} ${GeistSans.className}`}>
         <ThemeProvider attribute="class" defaultTheme="light" enableSystem>
+        <Suspense>
+        <ConnectivityProvider>
+        <EnergyFilterProvider>
+        <AlertProvider>
+        <EmissionFactorProvider>
+        <AcademicCalendarProvider>
+        <ExternalSeriesProvider>
           {/* center */}
-        <div className="absolute -mt-8 ml-4">
+        <div className="absolute -mt-8 ml-4 print:hidden">
         <div className="flex flex-row lg:flex-col gap-4 lg:gap-0 title text-base w-full text-left cursor-pointer text-slate-600"><div className="flex"><svg xmlns="http://www.w3.org/2000/svg" aria-hidden="true" role="img" className="w-auto h-6 text-yellow-400 iconify iconify--twemoji" width="1em" height="1em" viewBox="0 0 36 36"><path fill="#FFAC33" d="M32.938 15.651A1 1 0 0 0 32 15H19.925L26.89 1.458A1 1 0 0 0 26 0a1 1 0 0 0-.653.243L18 6.588L3.347 19.243A1 1 0 0 0 4 21h12.075L9.11 34.542A1 1 0 0 0 10 36a1 1 0 0 0 .653-.243L18 29.412l14.653-12.655a1 1 0 0 0 .285-1.106"></path></svg><h1 className="font-bold text-4xl tracking-wide mt-1">Elisa</h1></div><div className="leading-3 text-xs border-b border-transparent lg:pb-3 lg:pl-7 mt-0 self-center lg:self-start"><small className="block text-xs">Electrical Energy and Water Information System</small><small>Institut Teknologi Bandung</small></div></div>
         </div>
-        <div className="flex justify-center mt-12">
+        <div className="flex justify-center items-center gap-2 mt-12 print:hidden">
 
-        <NavigationMenu className="flex justify-center">
-        <NavigationMenuList>
-            <NavigationMenuItem>
-              <Link href="/home" legacyBehavior passHref>
-                <NavigationMenuLink className={navigationMenuTriggerStyle()}>
-                  Home
-                </NavigationMenuLink>
-              </Link>
-            </NavigationMenuItem>
-            <NavigationMenuItem>
-              <Link href="/daily" legacyBehavior passHref>
-                <NavigationMenuLink className={navigationMenuTriggerStyle()}>
-                  Daily
-                </NavigationMenuLink>
-              </Link>
-            </NavigationMenuItem>
-            <NavigationMenuItem>
-              <Link href="/monthly" legacyBehavior passHref>
-                <NavigationMenuLink className={navigationMenuTriggerStyle()}>
-                  Monthly
-                </NavigationMenuLink>
-              </Link>
-            </NavigationMenuItem>
-            <NavigationMenuItem>
-              <Link href="/heatmap" legacyBehavior passHref>
-                <NavigationMenuLink className={navigationMenuTriggerStyle()}>
-                  Heatmap
-                </NavigationMenuLink>
-              </Link>
-            </NavigationMenuItem>
-            <NavigationMenuItem>
-              <Link href="/faculty" legacyBehavior passHref>
-                <NavigationMenuLink className={navigationMenuTriggerStyle()}>
-                  Faculty
-                </NavigationMenuLink>
-              </Link>
-            </NavigationMenuItem>
-            <NavigationMenuItem>
-              <Link href="/" legacyBehavior passHref>
-                <NavigationMenuLink className={navigationMenuTriggerStyle()}>
-                  Smart Analysis
-                </NavigationMenuLink>
-              </Link>
-            </NavigationMenuItem>
-            </NavigationMenuList>
-        </NavigationMenu>
+          <NavMenu />
+          <NotificationCenter />
         </div>
+        <StaleBanner />
           {children}
+          <Toaster />
+        </ExternalSeriesProvider>
+        </AcademicCalendarProvider>
+        </EmissionFactorProvider>
+        </AlertProvider>
+        </EnergyFilterProvider>
+        </ConnectivityProvider>
+        </Suspense>
         </ThemeProvider>
       </body>
     </html>
@@ -12,8 +12,9 @@ import {
 import { motion, AnimatePresence } from "framer-motion";
 import { Loader2 } from "lucide-react";
 import {
-  BarChart,
+  ComposedChart,
   Bar,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -21,136 +22,73 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AcademicCalendarDialog } from "@/components/academic-calendar-dialog";
+import { calendarBandAreas, CalendarBandLegend } from "@/components/calendar-bands";
+import { CalendarSplitStats } from "@/components/calendar-split-stats";
+import { EmissionFactorDialog } from "@/components/emission-factor-dialog";
+import { EnergyFilters } from "@/components/energy-filters";
+import { ExportMenu } from "@/components/export-menu";
+import { ExternalSeriesPanel } from "@/components/external-series-panel";
+import { ForecastPanel } from "@/components/forecast-panel";
+import {
+  DeltaText,
+  NO_COMPARISON,
+  PeriodComparisonSelect,
+  PeriodComparisonTable,
+} from "@/components/period-comparison";
+import { MonthlyEmissions } from "@/components/monthly-emissions";
+import { PhaseImbalancePanel } from "@/components/phase-imbalance";
+import { qualityAreas, QualitySummary } from "@/components/quality-marks";
+import { useAcademicCalendar } from "@/contexts/academic-calendar-context";
+import { useConnectivity } from "@/contexts/connectivity-context";
+import { useEmissionFactors } from "@/contexts/emission-factor-context";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import { calendarBands } from "@/lib/academic-calendar";
+import { checkSeries } from "@/lib/data-quality";
+import { getAnalysis, getMonthlyData } from "@/lib/elisa-client";
+import { MonthlyData } from "@/lib/elisa-schemas";
+import { emissionsFor } from "@/lib/emissions";
+import { formatDate } from "@/lib/format";
+import { ExportDocument, filterMetadata, keyValueTable } from "@/lib/export";
+import { totalPhases } from "@/lib/daily-comparison";
+import { liveChannel, subscribeLive } from "@/lib/live";
+import {
+  alignPeriods,
+  dayOfMonthKey,
+  MONTHLY_PERIODS,
+  MonthlyPeriod,
+  previousMonth,
+} from "@/lib/period-comparison";
+import { dailyImbalance, DEFAULT_IMBALANCE_LIMIT } from "@/lib/phase-imbalance";
+import { monthRange } from "@/lib/report";
 
 const ELISA_URL = 'https://elisa.itb.ac.id';
 
-interface ElisaData {
-  chart_data: {
-    timestamp: string;
-    R: number;
-    S: number;
-    T: number;
-  }[];
-  daily_data: {
-    timestamp: string;
-    cost: number;
-    energy: number;
-    "phase 1": number;
-    "phase 2": number;
-    "phase 3": number;
-  }[];
-  month_data: {
-    total_daya: number;
-    avg_daya: number;
-    total_cost: number;
-    avg_cost: number;
-  };
-  prev_month_data: {
-    total_daya: number;
-    day_daya: number;
-    total_cost: number;
-    day_cost: number;
-  };
-}
-
-interface Option {
-  value: string;
-  label: string;
-}
-
-const formatDate = (dateString: string) => {
-  const date = new Date(dateString);
-  return date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
-};
-
-const ANALYSIS_URL = process.env.NEXT_PUBLIC_API_URL
 
 export default function Home() {
-  const [data, setData] = useState<ElisaData | null>(null);
+  const [data, setData] = useState<MonthlyData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
   // Filter states
   const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
-  const [month, setMonth] = useState(currentMonth);
-  const [fakultas, setFakultas] = useState("all");
-  const [gedung, setGedung] = useState("all");
-  const [lantai, setLantai] = useState("all");
+  const { month, setMonth, apiFilters, filterLabels } = useEnergyFilter();
+  const { revision } = useConnectivity();
+  const { faculty, building, floor } = apiFilters;
+  const { factors } = useEmissionFactors();
+  const { events } = useAcademicCalendar();
   
-  // Options states
-  const [fakultasOptions, setFakultasOptions] = useState<Option[]>([]);
-  const [gedungOptions, setGedungOptions] = useState<Option[]>([]);
-  const [lantaiOptions, setLantaiOptions] = useState<Option[]>([]);
-
-    // Analysis
+  // Analysis
   const [analysis, setAnalysis] = useState("");
 
-  
+  // Period-over-period overlay
+  const [comparison, setComparison] = useState<
+    MonthlyPeriod | typeof NO_COMPARISON
+  >(NO_COMPARISON);
+  const [previousData, setPreviousData] = useState<MonthlyData | null>(null);
 
-  // Fetch initial fakultas options
-  useEffect(() => {
-    const fetchFakultas = async () => {
-      try {
-        const response = await fetch(`${ANALYSIS_URL}/api/get-fakultas`);
-        if (!response.ok) throw new Error('Failed to fetch fakultas');
-        const data = await response.json();
-        setFakultasOptions(data.fakultas || []);
-      } catch (err) {
-        console.error("Error fetching fakultas:", err);
-      }
-    };
-    fetchFakultas();
-  }, []);
-
-  // Fetch gedung options when fakultas changes
-  useEffect(() => {
-    if (fakultas === "all") {
-      setGedung("all");
-      setGedungOptions([]);
-      setLantai("all");
-      setLantaiOptions([]);
-      return;
-    }
-
-    const fetchGedung = async () => {
-      try {
-        const response = await fetch(`${ANALYSIS_URL}/api/get-gedung?fakultas=${fakultas}`);
-        if (!response.ok) throw new Error('Failed to fetch gedung');
-        const data = await response.json();
-        setGedungOptions(data.gedung || []);
-        setGedung("all");
-        setLantai("all");
-      } catch (err) {
-        console.error("Error fetching gedung:", err);
-      }
-    };
-    fetchGedung();
-  }, [fakultas]);
-
-  // Fetch lantai options when gedung changes
-  useEffect(() => {
-    if (gedung === "all" || fakultas === "all") {
-      setLantai("all");
-      setLantaiOptions([]);
-      return;
-    }
-
-    const fetchLantai = async () => {
-      try {
-        const response = await fetch(
-          `${ANALYSIS_URL}/api/get-lantai?fakultas=${fakultas}&gedung=${gedung}`
-        );
-        if (!response.ok) throw new Error('Failed to fetch lantai');
-        const data = await response.json();
-        setLantaiOptions(data.lantai || []);
-        setLantai("all");
-      } catch (err) {
-        console.error("Error fetching lantai:", err);
-      }
-    };
-    fetchLantai();
-  }, [gedung, fakultas]);
+  // Imbalance above this percentage flags a day
+  const [imbalanceLimit, setImbalanceLimit] = useState(DEFAULT_IMBALANCE_LIMIT);
 
   // Fetch data when filters change
   useEffect(() => {
@@ -158,19 +96,7 @@ export default function Home() {
       setLoading(true);
       setError(null);
       try {
-        const fakultas_data = fakultas === "all" ? "" : fakultas;
-        const gedung_data = gedung === "all" ? "" : gedung;
-        const lantai_data = lantai === "all" ? "" : lantai;
-
-        const url = `${ANALYSIS_URL}/api/monthly?date=${month}&faculty=${fakultas_data}&building=${gedung_data}&floor=${lantai_data}`;
-        
-        console.log(url);
-        const response = await fetch(url);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch data: ${response.status}`);
-        }
-        
-        const data: ElisaData = await response.json();
+        const data = await getMonthlyData(month, { faculty, building, floor });
         setData(data);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Unknown error occurred');
@@ -182,15 +108,9 @@ export default function Home() {
 
     const fetchAnalysis = async () => {
       try {
-        const fakultas_data = fakultas === "all" ? "" : fakultas;
-        const gedung_data = gedung === "all" ? "" : gedung;
-        const lantai_data = lantai === "all" ? "" : lantai;
 
-        const response = await fetch(`${ANALYSIS_URL}/api/analysis/monthly?date=${month}&faculty=${fakultas_data}&building=${gedung_data}&floor=${lantai_data}`);
-        if (!response.ok) throw new Error('Failed to fetch analysis');
-        const analysis_result = await response.json();
-        setAnalysis(analysis_result.analysis);
-        console.log(analysis_result)
+        const analysis_result = await getAnalysis("monthly", { date: month, faculty, building, floor });
+        setAnalysis(analysis_result);
       } catch (err) {
         console.error("Error fetching analysis:", err);
       }
@@ -203,28 +123,170 @@ export default function Home() {
 
     fetchAll();
     
-    let intervalId: NodeJS.Timeout;
-    intervalId = setInterval(fetchAll, 60*60*1000);
+    return subscribeLive({
+      channel: liveChannel("/api/monthly", { date: month, faculty, building, floor }),
+      pollInterval: 60 * 60 * 1000,
+      poll: fetchAll,
+    });
+
+  }, [month, faculty, building, floor, revision]);
+
+  // Fetch the comparison month when a comparison is selected
+  useEffect(() => {
+    setPreviousData(null);
+    if (comparison === NO_COMPARISON) return;
+
+    let cancelled = false;
+    getMonthlyData(previousMonth(month, comparison), { faculty, building, floor })
+      .then((result) => {
+        if (!cancelled) setPreviousData(result);
+      })
+      .catch((err) => console.error("Error fetching comparison data:", err));
 
     return () => {
-      if (intervalId) clearInterval(intervalId);
+      cancelled = true;
     };
+  }, [comparison, month, faculty, building, floor]);
 
-  }, [month, fakultas, gedung, lantai]);
+  const comparisonLabel = MONTHLY_PERIODS.find((p) => p.id === comparison)?.label;
+  const periodPoints =
+    data && previousData
+      ? alignPeriods(
+          data.chart_data.map((item) => ({
+            timestamp: item.timestamp,
+            value: totalPhases(item),
+          })),
+          previousData.chart_data.map((item) => ({
+            timestamp: item.timestamp,
+            value: totalPhases(item),
+          })),
+          dayOfMonthKey,
+          // Days the current month does not have (e.g. the 31st) only exist in the comparison
+          (key, timestamp) => (timestamp ? formatDate(timestamp) : `Day ${Number(key)}`),
+        )
+      : [];
 
   // Prepare chart data for clustered column chart
-  const chartData = data?.chart_data.map(item => ({
-    date: formatDate(item.timestamp),
-    R: item.R,
-    S: item.S,
-    T: item.T
-  })) || [];
+  const chartData = periodPoints.length > 0
+    ? periodPoints.map((point) => {
+        const item = data?.chart_data.find((i) => i.timestamp === point.timestamp);
+        return {
+          date: point.label,
+          R: item?.R,
+          S: item?.S,
+          T: item?.T,
+          current: point.current,
+          previous: point.previous,
+          deltaPct: point.deltaPct,
+        };
+      })
+    : data?.chart_data.map(item => ({
+        date: formatDate(item.timestamp),
+        R: item.R,
+        S: item.S,
+        T: item.T
+      })) || [];
+
+  // Axis labels are formatDate(timestamp) in both the plain and comparison views
+  const bands = calendarBands(
+    (data?.chart_data ?? []).map((item) => ({
+      date: item.timestamp.slice(0, 10),
+      label: formatDate(item.timestamp),
+    })),
+    events,
+  );
+
+  // One reading per day
+  const quality = data
+    ? checkSeries(
+        data.chart_data.map((item) => ({
+          timestamp: item.timestamp,
+          value: totalPhases(item),
+        })),
+      )
+    : null;
+
+  const getExportDocument = (): ExportDocument | null =>
+    data && {
+      title: `ELISA Monthly ${month}`,
+      metadata: [...filterMetadata(filterLabels), ["Month", month]],
+      tables: [
+        {
+          name: "Phase Energy",
+          columns: [
+            { key: "timestamp", header: "Timestamp" },
+            { key: "R", header: "Phase R (kWh)" },
+            { key: "S", header: "Phase S (kWh)" },
+            { key: "T", header: "Phase T (kWh)" },
+          ],
+          rows: data.chart_data,
+        },
+        {
+          name: "Daily Data",
+          columns: [
+            { key: "timestamp", header: "Date" },
+            { key: "energy", header: "Energy (kWh)" },
+            { key: "cost", header: "Cost (Rp)" },
+            { key: "phase 1", header: "Phase 1 (kWh)" },
+            { key: "phase 2", header: "Phase 2 (kWh)" },
+            { key: "phase 3", header: "Phase 3 (kWh)" },
+            { key: "emissions", header: "Emissions (kg CO2e)" },
+          ],
+          rows: data.daily_data.map((day) => ({
+            ...day,
+            emissions: emissionsFor(day.energy, month, factors),
+          })),
+        },
+        ...(periodPoints.length > 0
+          ? [
+              {
+                name: `vs ${comparisonLabel}`,
+                columns: [
+                  { key: "label", header: "Date" },
+                  { key: "current", header: "Current (kWh)" },
+                  { key: "previous", header: `${comparisonLabel} (kWh)` },
+                  { key: "delta", header: "Change (kWh)" },
+                  { key: "deltaPct", header: "Change (%)" },
+                ],
+                rows: periodPoints.map((point) => ({ ...point })),
+              },
+            ]
+          : []),
+        {
+          name: "Phase Imbalance",
+          columns: [
+            { key: "timestamp", header: "Date" },
+            { key: "R", header: "Phase 1 (kWh)" },
+            { key: "S", header: "Phase 2 (kWh)" },
+            { key: "T", header: "Phase 3 (kWh)" },
+            { key: "heaviest", header: "Heaviest phase" },
+            { key: "imbalance", header: "Imbalance (%)" },
+            { key: "exceeds", header: `Over ${imbalanceLimit}% limit` },
+          ],
+          rows: dailyImbalance(data, imbalanceLimit).map((day) => ({
+            ...day,
+            exceeds: day.exceeds ? "Yes" : "No",
+          })),
+        },
+        keyValueTable("Summary", [
+          ["Month energy (kWh)", data.month_data.total_daya],
+          ["Month cost (Rp)", data.month_data.total_cost],
+          ["Month emissions (kg CO2e)", emissionsFor(data.month_data.total_daya, month, factors)],
+          ["Average daily energy (kWh/day)", data.month_data.avg_daya],
+          ["Average daily cost (Rp/day)", data.month_data.avg_cost],
+          ["Previous month energy (kWh)", data.prev_month_data?.total_daya],
+          ["Previous month cost (Rp)", data.prev_month_data?.total_cost],
+          ["Previous month daily energy (kWh/day)", data.prev_month_data?.day_daya],
+          ["Previous month daily cost (Rp/day)", data.prev_month_data?.day_cost],
+        ]),
+      ],
+    };
 
   return (
     <div className="p-6">
       
       {/* Filter Section */}
-      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 my-6">
+      <EnergyFilters>
         <div className="flex flex-col">
           <label className="text-sm font-medium mb-1">Month</label>
           <input
@@ -235,92 +297,17 @@ export default function Home() {
             max={currentMonth} // Prevent future months
           />
         </div>
-        
-        {/* Fakultas Select */}
-        <div className="flex flex-col">
-          <label className="text-sm font-medium mb-1">Fakultas</label>
-          <Select 
-            value={fakultas} 
-            onValueChange={(value) => {
-              setFakultas(value);
-              setGedung("all");
-              setLantai("all");
-            }}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder="Select Fakultas" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Fakultas</SelectItem>
-              {fakultasOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-        
-        {/* Gedung Select */}
-        <div className="flex flex-col">
-          <label className="text-sm font-medium mb-1">Gedung</label>
-          <Select 
-            value={gedung} 
-            onValueChange={(value) => {
-              setGedung(value);
-              setLantai("all");
-            }}
-            disabled={fakultas === "all"}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder={fakultas !== "all" ? "Select Gedung" : "Select Fakultas first"} />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Gedung</SelectItem>
-              {gedungOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-        
-        {/* Lantai Select */}
-        <div className="flex flex-col">
-          <label className="text-sm font-medium mb-1">Lantai</label>
-          <Select 
-            value={lantai} 
-            onValueChange={setLantai}
-            disabled={gedung === "all" || fakultas === "all"}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder={gedung !== "all" ? "Select Lantai" : "Select Gedung first"} />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Lantai</SelectItem>
-              {lantaiOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-        
-        {/* Reset Button */}
-        <div className="flex items-end">
-          <button 
-            onClick={() => {
-              setFakultas("all");
-              setGedung("all");
-              setLantai("all");
-            }}
-            className="w-full bg-gray-200 hover:bg-gray-300 text-gray-800 py-2 px-4 rounded-md"
-          >
-            Reset Filters
-          </button>
-        </div>
+      </EnergyFilters>
+
+      <div className="flex justify-end gap-2 mb-4">
+        <PeriodComparisonSelect
+          periods={MONTHLY_PERIODS}
+          value={comparison}
+          onChange={setComparison}
+        />
+        <EmissionFactorDialog />
+        <AcademicCalendarDialog />
+        {data && <ExportMenu getDocument={getExportDocument} />}
       </div>
 
       {loading ? (
@@ -369,6 +356,14 @@ export default function Home() {
                           <p><span className="font-medium">Cost: </span>Rp{data.month_data.avg_cost.toFixed(2)} /day</p>
                         </div>
                 </div>
+              {previousData && (
+                <div className="mt-4 pt-4 border-t">
+                  <h3 className="font-semibold">vs {comparisonLabel}</h3>
+                  <p><span className="font-medium">Energy: </span><DeltaText current={data.month_data.total_daya} previous={previousData.month_data.total_daya} unit="kWh" /></p>
+                  <p><span className="font-medium">Cost: </span><DeltaText current={data.month_data.total_cost} previous={previousData.month_data.total_cost} unit="Rp" /></p>
+                  <p><span className="font-medium">Daily average: </span><DeltaText current={data.month_data.avg_daya} previous={previousData.month_data.avg_daya} unit="kWh/day" /></p>
+                </div>
+              )}
             </div>
 
             <div className="bg-white p-4 rounded-lg shadow-md">
@@ -387,13 +382,14 @@ export default function Home() {
                       </div>
             </div>
           </div>
+        <MonthlyEmissions data={data} month={month} />
         <div className="grid g rid-cols-1 md:grid-cols-2 gap-6 mt-8">
           {/* Chart Section - Clustered Column Chart */}
           <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
             <h2 className="text-xl font-semibold mb-4">Energy Consumption by Phase</h2>
             <div className="h-80">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart
+                <ComposedChart
                   data={chartData}
                   margin={{
                     top: 20,
@@ -403,16 +399,32 @@ export default function Home() {
                   }}
                 >
                   <CartesianGrid strokeDasharray="3 3" />
+                  {calendarBandAreas(bands)}
+                  {quality && qualityAreas(quality.issues, formatDate)}
                   <XAxis dataKey="date" />
                   <YAxis label={{ value: 'Energy (kWh)', angle: -90, position: 'insideLeft' }} />
-                  <Tooltip />
+                  <Tooltip
+                    formatter={(value, name, item) =>
+                      item.dataKey === "current" && item.payload.deltaPct != null
+                        ? [`${Number(value).toFixed(2)} (${item.payload.deltaPct > 0 ? "+" : ""}${item.payload.deltaPct.toFixed(1)}%)`, name]
+                        : [value, name]
+                    }
+                  />
                   <Legend />
                   <Bar dataKey="R" fill="#8884d8" name="Phase R" />
                   <Bar dataKey="S" fill="#82ca9d" name="Phase S" />
                   <Bar dataKey="T" fill="#ffc658" name="Phase T" />
-                </BarChart>
+                  {periodPoints.length > 0 && (
+                    <>
+                      <Line type="monotone" dataKey="current" stroke="#1f2937" strokeWidth={2} dot={false} name="Total" />
+                      <Line type="monotone" dataKey="previous" stroke="#9ca3af" strokeWidth={2} strokeDasharray="5 5" dot={false} name={`Total (${comparisonLabel})`} />
+                    </>
+                  )}
+                </ComposedChart>
               </ResponsiveContainer>
             </div>
+            <CalendarBandLegend bands={bands} />
+            <QualitySummary report={quality} />
           </div>
           <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
               <h2 className="text-xl font-semibold mb-4">AI Analysis</h2>
@@ -458,6 +470,40 @@ export default function Home() {
               </div>
             </div>
           </div>
+          {periodPoints.length > 0 && (
+            <PeriodComparisonTable
+              points={periodPoints}
+              unit="kWh"
+              keyHeader="Date"
+              previousLabel={comparisonLabel!}
+            />
+          )}
+          <PhaseImbalancePanel
+            data={data}
+            limit={imbalanceLimit}
+            onLimitChange={setImbalanceLimit}
+          />
+          <ForecastPanel
+            kind="daily"
+            start={month}
+            filters={apiFilters}
+            actual={Object.fromEntries(
+              data.daily_data.map((day) => [day.timestamp.slice(0, 10), day.energy]),
+            )}
+          />
+          <ExternalSeriesPanel
+            kind="daily"
+            range={monthRange(month)}
+            power={Object.fromEntries(
+              data.daily_data.map((day) => [day.timestamp.slice(0, 10), day.energy]),
+            )}
+          />
+          <CalendarSplitStats
+            days={data.daily_data.map((day) => ({
+              date: day.timestamp.slice(0, 10),
+              energy: day.energy,
+            }))}
+          />
           {/* Table Section */}
           <div className="mb-8">
             <h2 className="text-xl font-semibold mb-4">Daily Data</h2>
@@ -0,0 +1,442 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import { motion } from "framer-motion";
+import { Loader2 } from "lucide-react";
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import { EnergyFilters } from "@/components/energy-filters";
+import { ExportMenu } from "@/components/export-menu";
+import { formatLoadFactor, LoadDurationChart } from "@/components/peak-demand";
+import { useConnectivity } from "@/contexts/connectivity-context";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import { ExportDocument, filterMetadata, keyValueTable } from "@/lib/export";
+import { addDays, formatBucket } from "@/lib/explorer";
+import { formatTimestamp } from "@/lib/format";
+import {
+  dailyPeaks,
+  DemandReading,
+  findPeak,
+  hourlyLoadFactor,
+  loadFactor,
+  loadMonthDemand,
+  shareAbove,
+} from "@/lib/peak-demand";
+import { monthRange } from "@/lib/report";
+import { TARIFF_PRESETS } from "@/lib/tariff";
+import { loadWasteEntities, WasteEntity } from "@/lib/waste";
+
+// Weeks of hourly heatmap data behind the per-building load factors
+const BUILDING_WEEKS = 4;
+
+export default function Peak() {
+  const [readings, setReadings] = useState<DemandReading[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [entities, setEntities] = useState<WasteEntity[] | null>(null);
+  const [entitiesLoading, setEntitiesLoading] = useState(false);
+  const [entitiesError, setEntitiesError] = useState<string | null>(null);
+
+  // Filter states
+  const currentMonth = new Date().toISOString().slice(0, 7);
+  const { month, setMonth, fakultas, apiFilters, filterLabels } = useEnergyFilter();
+  const { revision } = useConnectivity();
+  const { faculty, building, floor } = apiFilters;
+
+  // Contracted capacity in kVA, compared with peak kW through the power factor
+  const [contractedKva, setContractedKva] = useState("");
+  const [powerFactor, setPowerFactor] = useState(TARIFF_PRESETS[0].powerFactor);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    loadMonthDemand(month, { faculty, building, floor })
+      .then((result) => {
+        if (!cancelled) setReadings(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setReadings(null);
+        setError(err instanceof Error ? err.message : "Unknown error occurred");
+        console.error("Error fetching data:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [month, faculty, building, floor, revision]);
+
+  // Faculties, or the buildings of the selected faculty, over the weeks up to
+  // the end of the month
+  const lastDay = monthRange(month).end;
+  const lastWeekStart = addDays(lastDay, -new Date(`${lastDay}T00:00:00Z`).getUTCDay());
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntitiesLoading(true);
+    setEntitiesError(null);
+
+    loadWasteEntities(lastWeekStart, BUILDING_WEEKS, fakultas === "all" ? null : fakultas)
+      .then((result) => {
+        if (!cancelled) setEntities(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setEntities(null);
+        setEntitiesError(err instanceof Error ? err.message : "Unknown error occurred");
+        console.error("Error fetching building load factors:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setEntitiesLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lastWeekStart, fakultas, revision]);
+
+  const values = (readings ?? []).map((reading) => reading.demand);
+  const peak = findPeak(readings ?? []);
+  const days = dailyPeaks(readings ?? []);
+  const monthLoadFactor = loadFactor(values);
+  const capacityKw =
+    contractedKva !== "" && Number(contractedKva) > 0
+      ? Number(contractedKva) * powerFactor
+      : null;
+
+  const chartData = days.map((day) => ({
+    ...day,
+    label: formatBucket(day.date, "daily"),
+    loadFactorPercent: day.loadFactor * 100,
+  }));
+
+  const levelLabel = fakultas === "all" ? "Faculty" : "Building";
+  const entityRows = (entities ?? [])
+    .map((entity) => {
+      const measured = entity.loads.filter((load) => load.energy > 0);
+      const entityPeak = measured.reduce<(typeof measured)[number] | null>(
+        (max, load) => (max === null || load.energy > max.energy ? load : max),
+        null,
+      );
+      return {
+        label: entity.label,
+        peak: entityPeak?.energy ?? null,
+        peakAt: entityPeak ? `${entityPeak.date} ${entityPeak.hour}:00` : null,
+        average: measured.length
+          ? measured.reduce((sum, load) => sum + load.energy, 0) / measured.length
+          : null,
+        loadFactor: hourlyLoadFactor(entity.loads),
+      };
+    })
+    .sort((a, b) => (a.loadFactor ?? Infinity) - (b.loadFactor ?? Infinity));
+
+  const getExportDocument = (): ExportDocument | null =>
+    readings && {
+      title: `ELISA Peak Demand ${month}`,
+      metadata: [
+        ...filterMetadata(filterLabels),
+        ["Month", month],
+        ["Contracted capacity (kVA)", contractedKva || "Not set"],
+        ["Power factor", String(powerFactor)],
+      ],
+      tables: [
+        keyValueTable("Summary", [
+          ["Peak demand (kW)", peak?.demand],
+          ["Peak time", peak?.timestamp],
+          ["Load factor", monthLoadFactor ?? undefined],
+          ["Share of time above capacity", capacityKw !== null ? shareAbove(values, capacityKw) : undefined],
+        ]),
+        {
+          name: "Daily Peaks",
+          columns: [
+            { key: "date", header: "Date" },
+            { key: "timestamp", header: "Peak time" },
+            { key: "peak", header: "Peak demand (kW)" },
+            { key: "average", header: "Average demand (kW)" },
+            { key: "loadFactor", header: "Load factor" },
+          ],
+          rows: days.map((day) => ({ ...day })),
+        },
+        {
+          name: "Load Factor by " + levelLabel,
+          columns: [
+            { key: "label", header: levelLabel },
+            { key: "peak", header: "Peak hourly demand (kW)" },
+            { key: "peakAt", header: "Peak hour" },
+            { key: "average", header: "Average demand (kW)" },
+            { key: "loadFactor", header: "Load factor" },
+          ],
+          rows: entityRows,
+        },
+      ],
+    };
+
+  return (
+    <div className="p-6">
+      <EnergyFilters>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Month</label>
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="p-2 border rounded-md"
+            max={currentMonth}
+          />
+        </div>
+      </EnergyFilters>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Contracted capacity (kVA)</label>
+          <input
+            type="number"
+            value={contractedKva}
+            onChange={(e) => setContractedKva(e.target.value)}
+            className="p-2 border rounded-md"
+            min={0}
+            placeholder="Not set"
+          />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Power factor</label>
+          <input
+            type="number"
+            value={powerFactor}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (value > 0 && value <= 1) setPowerFactor(value);
+            }}
+            className="p-2 border rounded-md"
+            min={0.01}
+            max={1}
+            step={0.01}
+          />
+        </div>
+        <div className="flex items-end justify-end">
+          {readings && <ExportMenu getDocument={getExportDocument} />}
+        </div>
+      </div>
+
+      {loading ? (
+        <motion.div
+          key="results"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          layout
+          className="sm:h-full min-h-[400px] flex flex-col"
+        >
+          <div className="flex-grow flex flex-col items-center justify-center">
+            <div className="flex items-center justify-center">
+              <Loader2 className="h-12 w-12 animate-spin text-muted-foreground" />
+            </div>
+            <div className="flex items-center justify-center mt-4 text-muted-foreground">
+              Loading a month of readings...
+            </div>
+          </div>
+        </motion.div>
+      ) : error ? (
+        <p className="text-red-500 text-center">Error: {error}</p>
+      ) : (
+        readings && (
+          <motion.div
+            key="results"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            layout
+          >
+            {/* Summary Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Monthly Peak</h3>
+                <p className="text-lg">{peak ? `${peak.demand.toFixed(2)} kW` : "N/A"}</p>
+                <p>
+                  {peak
+                    ? `${formatBucket(peak.timestamp.slice(0, 10), "daily")} ${formatTimestamp(peak.timestamp)}`
+                    : ""}
+                </p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Load Factor</h3>
+                <p className="text-lg">{formatLoadFactor(monthLoadFactor)}</p>
+                <p>Average over peak demand</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Peak in kVA</h3>
+                <p className="text-lg">
+                  {peak ? `${(peak.demand / powerFactor).toFixed(2)} kVA` : "N/A"}
+                </p>
+                <p>At power factor {powerFactor}</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Capacity Headroom</h3>
+                <p className="text-lg">
+                  {capacityKw !== null && peak
+                    ? `${(((capacityKw - peak.demand) / capacityKw) * 100).toFixed(1)}%`
+                    : "Set a contracted capacity"}
+                </p>
+                {capacityKw !== null && (
+                  <p>
+                    Above capacity {(shareAbove(values, capacityKw) * 100).toFixed(1)}% of the time
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {/* Daily maximum demand */}
+              <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+                <h2 className="text-xl font-semibold mb-4">Daily Maximum Demand</h2>
+                <div className="h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" minTickGap={20} />
+                      <YAxis
+                        yAxisId="demand"
+                        label={{ value: "Demand (kW)", angle: -90, position: "insideLeft" }}
+                      />
+                      <YAxis
+                        yAxisId="factor"
+                        orientation="right"
+                        domain={[0, 100]}
+                        tickFormatter={(value) => `${value}%`}
+                      />
+                      <Tooltip
+                        formatter={(value: number, name: string, item) =>
+                          item.dataKey === "loadFactorPercent"
+                            ? [`${value.toFixed(1)}%`, name]
+                            : item.dataKey === "peak"
+                              ? [`${value.toFixed(2)} kW at ${formatTimestamp(item.payload.timestamp)}`, name]
+                              : [`${value.toFixed(2)} kW`, name]
+                        }
+                      />
+                      <Legend />
+                      <Bar yAxisId="demand" dataKey="peak" fill="#8884d8" name="Peak" />
+                      <Line yAxisId="demand" type="monotone" dataKey="average" stroke="#82ca9d" strokeWidth={2} dot={false} name="Average" />
+                      <Line yAxisId="factor" type="monotone" dataKey="loadFactorPercent" stroke="#ff8042" strokeDasharray="5 5" dot={false} name="Load factor" />
+                      {capacityKw !== null && (
+                        <ReferenceLine
+                          yAxisId="demand"
+                          y={capacityKw}
+                          stroke="#ef4444"
+                          strokeDasharray="5 5"
+                          label={{ value: "Capacity", position: "insideTopRight" }}
+                        />
+                      )}
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              {/* Load duration curve */}
+              <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+                <h2 className="text-xl font-semibold mb-4">Load Duration Curve</h2>
+                <div className="h-80">
+                  <LoadDurationChart values={values} limit={capacityKw} />
+                </div>
+              </div>
+            </div>
+
+            {/* Table Section */}
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-4">Daily Peaks</h2>
+              <div className="bg-white rounded-lg shadow-md overflow-hidden max-h-[600px] overflow-y-auto">
+                <Table>
+                  <TableHeader className="bg-gray-100">
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Peak Time (UTC+7)</TableHead>
+                      <TableHead>Peak Demand</TableHead>
+                      <TableHead>Average Demand</TableHead>
+                      <TableHead>Load Factor</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {chartData.map((day) => (
+                      <TableRow key={day.date}>
+                        <TableCell>{day.label}</TableCell>
+                        <TableCell>{formatTimestamp(day.timestamp)}</TableCell>
+                        <TableCell>{day.peak.toFixed(2)} kW</TableCell>
+                        <TableCell>{day.average.toFixed(2)} kW</TableCell>
+                        <TableCell>{formatLoadFactor(day.loadFactor)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </motion.div>
+        )
+      )}
+
+      {/* Load factor per faculty or building */}
+      <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+        <h2 className="text-xl font-semibold mb-4">Load Factor by {levelLabel}</h2>
+        {entitiesLoading ? (
+          <div className="flex items-center justify-center h-40 text-muted-foreground">
+            <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+            Loading data...
+          </div>
+        ) : entitiesError ? (
+          <p className="text-red-500 text-center">Error: {entitiesError}</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader className="bg-gray-100">
+                <TableRow>
+                  <TableHead>{levelLabel}</TableHead>
+                  <TableHead>Peak Hourly Demand</TableHead>
+                  <TableHead>Peak Hour</TableHead>
+                  <TableHead>Average Demand</TableHead>
+                  <TableHead>Load Factor</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entityRows.map((row) => (
+                  <TableRow key={row.label}>
+                    <TableCell>{row.label}</TableCell>
+                    <TableCell>{row.peak !== null ? `${row.peak.toFixed(2)} kW` : "N/A"}</TableCell>
+                    <TableCell>{row.peakAt ?? "N/A"}</TableCell>
+                    <TableCell>{row.average !== null ? `${row.average.toFixed(2)} kW` : "N/A"}</TableCell>
+                    <TableCell>{formatLoadFactor(row.loadFactor)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-sm text-muted-foreground mt-2">
+              From hourly heatmap data for the {BUILDING_WEEKS} weeks up to {lastDay}, lowest
+              load factor first. Hourly averages understate short peaks, so compare
+              these with each other rather than with the 15-minute figures above.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Printer } from "lucide-react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Legend,
+} from "recharts";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { ChartImage } from "@/components/chart-image";
+import { EnergyFilters } from "@/components/energy-filters";
+import {
+  FilterLabels,
+  useEnergyFilter,
+} from "@/contexts/energy-filter-context";
+import { formatDate } from "@/lib/format";
+import {
+  buildHeatmapGrid,
+  dayNames,
+  heatColor,
+  hourLabels,
+} from "@/lib/heatmap";
+import {
+  loadMonthlyReport,
+  monthRange,
+  MonthlyReport,
+  REPORT_SECTIONS,
+  ReportSection,
+} from "@/lib/report";
+
+const CHART_WIDTH = 700;
+const CHART_HEIGHT = 320;
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+  });
+
+const ReportPage = ({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) => (
+  <section className="bg-white p-8 rounded-lg shadow-md mb-8 print:shadow-none print:rounded-none print:p-0 print:mb-0 break-after-page">
+    <h2 className="text-2xl font-semibold mb-6 border-b pb-2">{title}</h2>
+    {children}
+  </section>
+);
+
+const AnalysisText = ({ text }: { text?: string }) => (
+  <div className="mt-6">
+    <h3 className="font-semibold mb-2">AI Analysis</h3>
+    <p className="text-gray-700 whitespace-pre-line">
+      {text || "Analysis not available."}
+    </p>
+  </div>
+);
+
+export default function Report() {
+  const { month, setMonth, apiFilters, filterLabels } = useEnergyFilter();
+  const currentMonth = new Date().toISOString().slice(0, 7);
+
+  const [sections, setSections] = useState<ReportSection[]>(
+    REPORT_SECTIONS.map((section) => section.id),
+  );
+  const [report, setReport] = useState<MonthlyReport | null>(null);
+  // Labels of the filters the report was generated with
+  const [reportLabels, setReportLabels] = useState<FilterLabels | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleSection = (id: ReportSection) => {
+    setSections((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id],
+    );
+  };
+
+  const generateReport = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setReport(await loadMonthlyReport(month, apiFilters, sections));
+      setReportLabels(filterLabels);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+      console.error("Error generating report:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const range = report ? monthRange(report.month) : null;
+  const heatmapGrid = report?.heatmap
+    ? buildHeatmapGrid(report.heatmap.heatmap)
+    : [];
+  const heatmapValues = heatmapGrid.flat();
+  const heatmapMin = Math.min(...heatmapValues, Infinity);
+  const heatmapMax = Math.max(...heatmapValues, -Infinity);
+  const facultyRanking = report?.faculty
+    ? [...report.faculty.value].sort((a, b) => b.energy - a.energy)
+    : [];
+
+  return (
+    <div className="p-6 print:p-0">
+      {/* Builder controls */}
+      <div className="print:hidden">
+        <EnergyFilters>
+          <div className="flex flex-col">
+            <label className="text-sm font-medium mb-1">Month</label>
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="p-2 border rounded-md"
+              max={currentMonth}
+            />
+          </div>
+        </EnergyFilters>
+
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex flex-wrap gap-4">
+            {REPORT_SECTIONS.map((section) => (
+              <label key={section.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={sections.includes(section.id)}
+                  onChange={() => toggleSection(section.id)}
+                />
+                {section.label}
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={generateReport}
+              disabled={loading || sections.length === 0}
+            >
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Generate report
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => window.print()}
+              disabled={!report || loading}
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Print / Save as PDF
+            </Button>
+          </div>
+        </div>
+        {error && <p className="text-red-500 text-center mb-6">Error: {error}</p>}
+      </div>
+
+      {report && reportLabels && range && (
+        <div className="max-w-4xl mx-auto print:max-w-none">
+          {/* Cover page */}
+          <section className="bg-white p-8 rounded-lg shadow-md mb-8 min-h-[600px] flex flex-col justify-center print:shadow-none print:rounded-none print:min-h-screen print:mb-0 break-after-page">
+            <p className="text-sm text-slate-600 uppercase tracking-wide">
+              Electrical Energy and Water Information System
+            </p>
+            <h1 className="text-4xl font-bold mt-2">ELISA Energy Report</h1>
+            <p className="text-2xl mt-2">{formatMonth(report.month)}</p>
+            <div className="mt-10 grid grid-cols-2 gap-2 max-w-md text-sm">
+              <span className="font-medium">Fakultas</span>
+              <span>{reportLabels.fakultas}</span>
+              <span className="font-medium">Gedung</span>
+              <span>{reportLabels.gedung}</span>
+              <span className="font-medium">Lantai</span>
+              <span>{reportLabels.lantai}</span>
+              <span className="font-medium">Period</span>
+              <span>
+                {formatDate(range.start)} - {formatDate(range.end)}
+              </span>
+              <span className="font-medium">Generated</span>
+              <span>{new Date(report.generatedAt).toLocaleString()}</span>
+            </div>
+            <p className="mt-10 text-sm text-slate-600">Institut Teknologi Bandung</p>
+          </section>
+
+          {report.monthly && (
+            <ReportPage title="Monthly Totals">
+              <div className="grid grid-cols-2 gap-6 mb-6">
+                <div>
+                  <h3 className="font-semibold">Current Month</h3>
+                  <p><span className="font-medium">Energy: </span>{report.monthly.month_data.total_daya.toFixed(2)} kWh</p>
+                  <p><span className="font-medium">Cost: </span>Rp{report.monthly.month_data.total_cost.toFixed(2)}</p>
+                  <p><span className="font-medium">Daily average: </span>{report.monthly.month_data.avg_daya.toFixed(2)} kWh/day</p>
+                </div>
+                <div>
+                  <h3 className="font-semibold">Previous Month</h3>
+                  <p><span className="font-medium">Energy: </span>{report.monthly.prev_month_data?.total_daya?.toFixed(2) || "N/A"} kWh</p>
+                  <p><span className="font-medium">Cost: </span>Rp{report.monthly.prev_month_data?.total_cost?.toFixed(2) || "N/A"}</p>
+                  <p><span className="font-medium">Daily average: </span>{report.monthly.prev_month_data?.day_daya?.toFixed(2) || "N/A"} kWh/day</p>
+                </div>
+              </div>
+              <ChartImage
+                width={CHART_WIDTH}
+                height={CHART_HEIGHT}
+                alt="Energy consumption by phase"
+              >
+                <BarChart
+                  width={CHART_WIDTH}
+                  height={CHART_HEIGHT}
+                  data={report.monthly.chart_data.map((item) => ({
+                    ...item,
+                    date: formatDate(item.timestamp),
+                  }))}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} />
+                  <Legend />
+                  <Bar dataKey="R" fill="#8884d8" name="Phase R" isAnimationActive={false} />
+                  <Bar dataKey="S" fill="#82ca9d" name="Phase S" isAnimationActive={false} />
+                  <Bar dataKey="T" fill="#ffc658" name="Phase T" isAnimationActive={false} />
+                </BarChart>
+              </ChartImage>
+              <AnalysisText text={report.analysis.monthly} />
+            </ReportPage>
+          )}
+
+          {report.faculty && (
+            <ReportPage title="Faculty Ranking">
+              <ChartImage
+                width={CHART_WIDTH}
+                height={Math.max(CHART_HEIGHT, facultyRanking.length * 28)}
+                alt="Faculties by energy consumption"
+              >
+                <BarChart
+                  layout="vertical"
+                  width={CHART_WIDTH}
+                  height={Math.max(CHART_HEIGHT, facultyRanking.length * 28)}
+                  data={facultyRanking}
+                  margin={{ left: 20, right: 30 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" tick={{ fontSize: 10 }} />
+                  <YAxis dataKey="fakultas" type="category" width={120} tick={{ fontSize: 10 }} />
+                  <Bar dataKey="energy" fill="#8884d8" name="Energy (kWh)" isAnimationActive={false} />
+                </BarChart>
+              </ChartImage>
+              <Table className="mt-6">
+                <TableHeader className="bg-gray-100">
+                  <TableRow>
+                    <TableHead>Rank</TableHead>
+                    <TableHead>Faculty</TableHead>
+                    <TableHead>Energy (kWh)</TableHead>
+                    <TableHead>Cost (IDR)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {facultyRanking.map((item, index) => (
+                    <TableRow key={item.fakultas}>
+                      <TableCell>{index + 1}</TableCell>
+                      <TableCell>{item.fakultas}</TableCell>
+                      <TableCell>{item.energy.toFixed(2)}</TableCell>
+                      <TableCell>{item.cost.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <AnalysisText text={report.analysis.faculty} />
+            </ReportPage>
+          )}
+
+          {report.heatmap && (
+            <ReportPage title="Weekly Usage Heatmap">
+              <ChartImage
+                width={CHART_WIDTH}
+                height={7 * 28 + 30}
+                alt="Energy usage heatmap"
+              >
+                <svg width={CHART_WIDTH} height={7 * 28 + 30}>
+                  {heatmapGrid.map((row, dayIndex) =>
+                    row.map((value, hour) => {
+                      const ratio =
+                        heatmapMax > heatmapMin
+                          ? (value - heatmapMin) / (heatmapMax - heatmapMin)
+                          : 0;
+                      return (
+                        <rect
+                          key={`${dayIndex}-${hour}`}
+                          x={80 + hour * 25}
+                          y={dayIndex * 28}
+                          width={24}
+                          height={27}
+                          fill={heatColor(ratio)}
+                        />
+                      );
+                    }),
+                  )}
+                  {dayNames.map((day, dayIndex) => (
+                    <text key={day} x={0} y={dayIndex * 28 + 18} fontSize={11} fill="#555">
+                      {day}
+                    </text>
+                  ))}
+                  {hourLabels.map((label, hour) =>
+                    hour % 3 === 0 ? (
+                      <text key={label} x={80 + hour * 25} y={7 * 28 + 18} fontSize={10} fill="#555">
+                        {label}
+                      </text>
+                    ) : null,
+                  )}
+                </svg>
+              </ChartImage>
+              {heatmapValues.length > 0 && (
+                <div className="flex justify-between mt-2 text-sm text-gray-600">
+                  <span>Low: {heatmapMin.toFixed(2)} kWh</span>
+                  <span>High: {heatmapMax.toFixed(2)} kWh</span>
+                </div>
+              )}
+              <AnalysisText text={report.analysis.heatmap} />
+            </ReportPage>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { motion } from "framer-motion";
+import { Loader2 } from "lucide-react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { ExportMenu } from "@/components/export-menu";
+import {
+  DEFAULT_WASTE_SETTINGS,
+  formatRupiah,
+  WasteSettingsFields,
+} from "@/components/waste-analysis";
+import { useConnectivity } from "@/contexts/connectivity-context";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import { ExportDocument } from "@/lib/export";
+import { addDays, startOfWeek } from "@/lib/explorer";
+import {
+  annualSavings,
+  BASELOAD_PERCENTILE,
+  loadWasteEntities,
+  WASTE_WEEK_COUNTS,
+  WasteEntity,
+  wasteProfile,
+} from "@/lib/waste";
+
+const formatPercent = (value: number | null) =>
+  value === null ? "N/A" : `${(value * 100).toFixed(1)}%`;
+
+export default function Waste() {
+  const [entities, setEntities] = useState<WasteEntity[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filter states
+  const { dateRange, setDateRange, fakultasOptions } = useEnergyFilter();
+  // The shared range may start on any day; the weeks here start on Sunday
+  const weekStart = startOfWeek(dateRange.start);
+  const { revision } = useConnectivity();
+  const [weekCount, setWeekCount] = useState(WASTE_WEEK_COUNTS[0]);
+  const [settings, setSettings] = useState(DEFAULT_WASTE_SETTINGS);
+  // Faculty whose buildings are ranked, null for the faculty leaderboard
+  const [fakultas, setFakultas] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    loadWasteEntities(weekStart, weekCount, fakultas)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.length === 0) throw new Error("No heatmap data available");
+        setEntities(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setEntities(null);
+        setError(err instanceof Error ? err.message : "Unknown error occurred");
+        console.error("Error fetching data:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [weekStart, weekCount, fakultas, revision]);
+
+  const handleDateChange = (value: string) => {
+    const start = startOfWeek(value);
+    setDateRange({ start, end: addDays(start, 6) });
+  };
+
+  const firstDay = addDays(weekStart, -7 * (weekCount - 1));
+  const lastDay = addDays(weekStart, 6);
+  const levelLabel = fakultas ? "Building" : "Faculty";
+  const fakultasLabel =
+    fakultasOptions.find((option) => option.value === fakultas)?.label ?? fakultas;
+
+  // Largest avoidable energy first
+  const leaderboard = (entities ?? [])
+    .map((entity) => {
+      const profile = wasteProfile(entity.loads, settings.hours, settings.targetPercent);
+      return {
+        ...entity,
+        profile,
+        annualKwh: profile ? annualSavings(profile) : 0,
+      };
+    })
+    .filter((entry) => entry.profile !== null)
+    .sort((a, b) => b.annualKwh - a.annualKwh);
+
+  const totalSavings = leaderboard.reduce((sum, entry) => sum + entry.profile!.savingsKwh, 0);
+  const totalAnnual = leaderboard.reduce((sum, entry) => sum + entry.annualKwh, 0);
+  const totalAfterHours = leaderboard.reduce((sum, entry) => sum + entry.profile!.afterHoursKwh, 0);
+  const totalEnergy = leaderboard.reduce((sum, entry) => sum + entry.profile!.totalKwh, 0);
+
+  const chartData = leaderboard.map((entry) => ({
+    label: entry.label,
+    baseline: entry.profile!.afterHoursKwh - entry.profile!.savingsKwh,
+    savings: entry.profile!.savingsKwh,
+  }));
+
+  const rows = leaderboard.map((entry, index) => ({
+    rank: index + 1,
+    label: entry.label,
+    baseload: entry.profile!.baseload,
+    targetBaseload: entry.profile!.targetBaseload,
+    afterHoursKwh: entry.profile!.afterHoursKwh,
+    afterHoursShare: entry.profile!.afterHoursShare,
+    weekendRatio: entry.profile!.weekendRatio,
+    savingsKwh: entry.profile!.savingsKwh,
+    savingsCost: entry.profile!.savingsKwh * settings.rate,
+    annualKwh: entry.annualKwh,
+    annualCost: entry.annualKwh * settings.rate,
+  }));
+
+  const getExportDocument = (): ExportDocument | null =>
+    leaderboard.length > 0
+      ? {
+          title: `ELISA Waste Leaderboard ${firstDay} to ${lastDay}`,
+          metadata: [
+            ["Period", `${firstDay} to ${lastDay}`],
+            ["Level", fakultas ? `Buildings of ${fakultasLabel}` : "Faculties"],
+            [
+              "Operating hours",
+              `Weekdays ${settings.hours.startHour}:00-${settings.hours.endHour}:00`,
+            ],
+            ["Target baseload", `${settings.targetPercent}% of current`],
+            ["Energy rate (Rp/kWh)", String(settings.rate)],
+          ],
+          tables: [
+            {
+              name: "Leaderboard",
+              columns: [
+                { key: "rank", header: "Rank" },
+                { key: "label", header: levelLabel },
+                { key: "baseload", header: "Baseload (kWh/hour)" },
+                { key: "targetBaseload", header: "Target baseload (kWh/hour)" },
+                { key: "afterHoursKwh", header: "After-hours energy (kWh)" },
+                { key: "afterHoursShare", header: "After-hours share" },
+                { key: "weekendRatio", header: "Weekend/weekday ratio" },
+                { key: "savingsKwh", header: "Avoidable energy (kWh)" },
+                { key: "savingsCost", header: "Avoidable cost (Rp)" },
+                { key: "annualKwh", header: "Avoidable per year (kWh)" },
+                { key: "annualCost", header: "Avoidable per year (Rp)" },
+              ],
+              rows,
+            },
+          ],
+        }
+      : null;
+
+  return (
+    <div className="p-6">
+      {/* Filter Section */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 my-6">
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Week</label>
+          <input
+            type="date"
+            value={weekStart}
+            onChange={(e) => handleDateChange(e.target.value)}
+            className="p-2 border rounded-md"
+          />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Weeks</label>
+          <Select
+            value={String(weekCount)}
+            onValueChange={(value) => setWeekCount(Number(value))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WASTE_WEEK_COUNTS.map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count === 1 ? "1 week" : `${count} weeks`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Rank</label>
+          <Select
+            value={fakultas ?? "all"}
+            onValueChange={(value) => setFakultas(value === "all" ? null : value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All faculties</SelectItem>
+              {fakultasOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  Buildings of {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <WasteSettingsFields settings={settings} onChange={setSettings} />
+
+      {leaderboard.length > 0 && (
+        <div className="flex justify-end mb-4">
+          <ExportMenu getDocument={getExportDocument} />
+        </div>
+      )}
+
+      {loading ? (
+        <motion.div
+          key="results"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          layout
+          className="sm:h-full min-h-[400px] flex flex-col"
+        >
+          <div className="flex-grow flex flex-col items-center justify-center">
+            <div className="flex items-center justify-center">
+              <Loader2 className="h-12 w-12 animate-spin text-muted-foreground" />
+            </div>
+            <div className="flex items-center justify-center mt-4 text-muted-foreground">
+              Loading data...
+            </div>
+          </div>
+        </motion.div>
+      ) : error ? (
+        <p className="text-red-500 text-center">Error: {error}</p>
+      ) : (
+        leaderboard.length > 0 && (
+          <motion.div
+            key="results"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            layout
+          >
+            {/* Summary Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">After-hours Share</h3>
+                <p className="text-lg">
+                  {formatPercent(totalEnergy > 0 ? totalAfterHours / totalEnergy : null)}
+                </p>
+                <p>{totalAfterHours.toFixed(2)} kWh</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Avoidable This Period</h3>
+                <p className="text-lg">{totalSavings.toFixed(2)} kWh</p>
+                <p>{formatRupiah(totalSavings * settings.rate)}</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Avoidable per Year</h3>
+                <p className="text-lg">{totalAnnual.toFixed(0)} kWh</p>
+                <p>{formatRupiah(totalAnnual * settings.rate)}</p>
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow-md">
+                <h3 className="font-semibold">Biggest Opportunity</h3>
+                <p className="text-lg">{leaderboard[0].label}</p>
+                <p>{formatRupiah(leaderboard[0].annualKwh * settings.rate)} per year</p>
+              </div>
+            </div>
+
+            {/* After-hours energy split into unavoidable and avoidable */}
+            <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+              <h2 className="text-xl font-semibold mb-4">
+                After-hours Energy by {levelLabel} ({firstDay} to {lastDay})
+              </h2>
+              <div style={{ height: Math.max(384, chartData.length * 32) }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    layout="vertical"
+                    data={chartData}
+                    margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      type="number"
+                      label={{ value: "kWh", position: "insideBottom", offset: -10 }}
+                    />
+                    <YAxis dataKey="label" type="category" width={150} tick={{ fontSize: 12 }} />
+                    <Tooltip formatter={(value: number) => `${value.toFixed(2)} kWh`} />
+                    <Legend verticalAlign="top" />
+                    <Bar dataKey="baseline" stackId="after" fill="#94a3b8" name="Up to target baseload" />
+                    <Bar dataKey="savings" stackId="after" fill="#ef4444" name="Avoidable" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Table Section */}
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold mb-4">Waste Leaderboard</h2>
+              <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                <Table>
+                  <TableHeader className="bg-gray-100">
+                    <TableRow>
+                      <TableHead>Rank</TableHead>
+                      <TableHead>{levelLabel}</TableHead>
+                      <TableHead>Baseload</TableHead>
+                      <TableHead>After Hours</TableHead>
+                      <TableHead>Weekend / Weekday</TableHead>
+                      <TableHead>Avoidable</TableHead>
+                      <TableHead>Avoidable per Year</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row, index) => (
+                      <TableRow key={leaderboard[index].key}>
+                        <TableCell>{row.rank}</TableCell>
+                        <TableCell>
+                          {fakultas ? (
+                            row.label
+                          ) : (
+                            <button
+                              type="button"
+                              className="text-blue-600 hover:underline text-left"
+                              onClick={() => setFakultas(leaderboard[index].value)}
+                            >
+                              {row.label}
+                            </button>
+                          )}
+                        </TableCell>
+                        <TableCell>{row.baseload.toFixed(2)} kWh/hour</TableCell>
+                        <TableCell>
+                          {row.afterHoursKwh.toFixed(2)} kWh ({formatPercent(row.afterHoursShare)})
+                        </TableCell>
+                        <TableCell>
+                          {row.weekendRatio !== null ? row.weekendRatio.toFixed(2) : "N/A"}
+                        </TableCell>
+                        <TableCell>
+                          {row.savingsKwh.toFixed(2)} kWh ({formatRupiah(row.savingsCost)})
+                        </TableCell>
+                        <TableCell>{formatRupiah(row.annualCost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-sm text-muted-foreground mt-2">
+                Baseload is the {BASELOAD_PERCENTILE * 100}th percentile of hourly use. Avoidable energy is
+                after-hours use above the target baseload; weekends count as after
+                hours.{!fakultas && " Select a faculty to rank its buildings."}
+              </p>
+            </div>
+          </motion.div>
+        )
+      )}
+    </div>
+  );
+}
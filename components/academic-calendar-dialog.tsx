@@ -0,0 +1,210 @@
+"use client";
+
+import { ChangeEvent, useState } from "react";
+import { CalendarDays, Download, Plus, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useAcademicCalendar } from "@/contexts/academic-calendar-context";
+import {
+  CALENDAR_CATEGORIES,
+  CalendarCategory,
+  CalendarEvent,
+  categoryColor,
+  parseCalendarFile,
+} from "@/lib/academic-calendar";
+import { downloadBlob } from "@/lib/export";
+import { toDateInput } from "@/lib/format";
+
+const newEvent = (): CalendarEvent => {
+  const today = toDateInput(new Date());
+  return {
+    id: Math.random().toString(36).slice(2, 10),
+    title: "",
+    category: "event",
+    start: today,
+    end: today,
+  };
+};
+
+// Edits a draft like the emission factor dialog; imports are merged into (or
+// replace) the draft and only applied on Save
+export const AcademicCalendarDialog = () => {
+  const { events, setEvents, resetEvents } = useAcademicCalendar();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<CalendarEvent[]>(events);
+  const [replaceOnImport, setReplaceOnImport] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setDraft(events);
+    setOpen(next);
+  };
+
+  const updateDraft = (id: string, patch: Partial<CalendarEvent>) =>
+    setDraft(draft.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+
+  const valid = draft.every(
+    (e) => e.title.trim() !== "" && e.start !== "" && e.end !== "" && e.end >= e.start,
+  );
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const imported = parseCalendarFile(await file.text());
+      if (replaceOnImport) {
+        setDraft(imported);
+      } else {
+        const ids = new Set(imported.map((event) => event.id));
+        setDraft([...draft.filter((event) => !ids.has(event.id)), ...imported]);
+      }
+      toast.success(`Imported ${imported.length} events from ${file.name}`);
+    } catch (err) {
+      console.error("Error importing calendar:", err);
+      toast.error(err instanceof Error ? err.message : "Could not read the calendar file");
+    }
+  };
+
+  const exportJson = () =>
+    downloadBlob(
+      new Blob([JSON.stringify({ events }, null, 2)], { type: "application/json" }),
+      "academic-calendar.json",
+    );
+
+  const save = () => {
+    setEvents(draft.map((e) => ({ ...e, title: e.title.trim() })));
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <CalendarDays className="h-4 w-4 mr-2" />
+          Academic calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Academic Calendar</DialogTitle>
+          <DialogDescription>
+            Semesters, exam weeks, holidays and campus events shown on the
+            charts. Import a JSON export or an ICS file from a calendar app.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <label className="cursor-pointer">
+              <Upload className="h-4 w-4 mr-2" />
+              Import JSON / ICS
+              <input
+                type="file"
+                accept=".json,.ics,application/json,text/calendar"
+                className="hidden"
+                onChange={importFile}
+              />
+            </label>
+          </Button>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={replaceOnImport}
+              onChange={(e) => setReplaceOnImport(e.target.checked)}
+            />
+            Replace existing events
+          </label>
+          <Button variant="outline" size="sm" className="ml-auto" onClick={exportJson}>
+            <Download className="h-4 w-4 mr-2" />
+            Export JSON
+          </Button>
+        </div>
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {draft.length === 0 && (
+            <p className="text-sm text-muted-foreground">No events yet.</p>
+          )}
+          {draft.map((event) => (
+            <div key={event.id} className="flex flex-wrap items-center gap-2">
+              <span
+                className="h-3 w-3 rounded-full"
+                style={{ background: categoryColor(event.category) }}
+              />
+              <input
+                type="text"
+                value={event.title}
+                placeholder="Title"
+                onChange={(e) => updateDraft(event.id, { title: e.target.value })}
+                className="p-2 border rounded-md flex-1 min-w-40"
+              />
+              <select
+                value={event.category}
+                onChange={(e) =>
+                  updateDraft(event.id, { category: e.target.value as CalendarCategory })
+                }
+                className="p-2 border rounded-md"
+              >
+                {CALENDAR_CATEGORIES.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="date"
+                value={event.start}
+                onChange={(e) => updateDraft(event.id, { start: e.target.value })}
+                className="p-2 border rounded-md"
+              />
+              <input
+                type="date"
+                value={event.end}
+                min={event.start}
+                onChange={(e) => updateDraft(event.id, { end: e.target.value })}
+                className="p-2 border rounded-md"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setDraft(draft.filter((e) => e.id !== event.id))}
+                aria-label="Remove event"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="self-start"
+          onClick={() => setDraft([...draft, newEvent()])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add event
+        </Button>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              resetEvents();
+              setOpen(false);
+            }}
+          >
+            Reset to defaults
+          </Button>
+          <Button onClick={save} disabled={!valid}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
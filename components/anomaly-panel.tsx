@@ -0,0 +1,131 @@
+"use client";
+
+import { Loader2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Anomaly,
+  AnomalyMethod,
+  AnomalyOptions,
+  BASELINE_WEEKS,
+} from "@/lib/anomaly";
+import { formatTimestamp } from "@/lib/format";
+
+const METHOD_LABELS: Record<AnomalyMethod, string> = {
+  iqr: "Median / IQR",
+  zscore: "Z-score",
+};
+
+// Sensitivity presets per method, from most to least sensitive
+const THRESHOLDS: Record<AnomalyMethod, number[]> = {
+  iqr: [1, 1.5, 3],
+  zscore: [2, 2.5, 3],
+};
+
+export const AnomalyPanel = ({
+  anomalies,
+  unit,
+  options,
+  onOptionsChange,
+  loading,
+  error,
+}: {
+  anomalies: Anomaly[];
+  unit: string;
+  options: AnomalyOptions;
+  onOptionsChange: (options: AnomalyOptions) => void;
+  loading: boolean;
+  error: string | null;
+}) => (
+  <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+    <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+      <h2 className="text-xl font-semibold">Anomalies</h2>
+      <div className="flex gap-2">
+        <Select
+          value={options.method}
+          onValueChange={(method: AnomalyMethod) =>
+            onOptionsChange({ method, threshold: THRESHOLDS[method][1] })
+          }
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(METHOD_LABELS) as AnomalyMethod[]).map((method) => (
+              <SelectItem key={method} value={method}>
+                {METHOD_LABELS[method]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={String(options.threshold)}
+          onValueChange={(value) =>
+            onOptionsChange({ ...options, threshold: Number(value) })
+          }
+        >
+          <SelectTrigger className="w-24">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {THRESHOLDS[options.method].map((threshold) => (
+              <SelectItem key={threshold} value={String(threshold)}>
+                {options.method === "iqr" ? `${threshold}×IQR` : `${threshold}σ`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+    <p className="text-sm text-muted-foreground mb-4">
+      Compared with the same hour of the week over the last {BASELINE_WEEKS}{" "}
+      weeks.
+    </p>
+
+    {loading ? (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+        Loading history...
+      </div>
+    ) : error ? (
+      <p className="text-red-500 text-center">Error: {error}</p>
+    ) : anomalies.length === 0 ? (
+      <p className="text-gray-700">No unusual readings detected.</p>
+    ) : (
+      <ul className="divide-y max-h-80 overflow-y-auto">
+        {anomalies.map((anomaly) => (
+          <li
+            key={anomaly.timestamp}
+            className="py-2 flex items-center justify-between gap-4 text-sm"
+          >
+            <div>
+              <p className="font-medium">{formatTimestamp(anomaly.timestamp)}</p>
+              <p className="text-gray-600">
+                {anomaly.value.toFixed(2)} {unit} (expected{" "}
+                {Math.max(anomaly.low, 0).toFixed(2)} -{" "}
+                {anomaly.high.toFixed(2)} {unit})
+              </p>
+            </div>
+            <span
+              className={
+                anomaly.deviation > 0
+                  ? "font-semibold text-red-600"
+                  : "font-semibold text-blue-600"
+              }
+            >
+              {anomaly.deviation > 0 ? "+" : ""}
+              {anomaly.deviation.toFixed(2)} {unit}
+              {anomaly.deviationPct !== null &&
+                ` (${anomaly.deviationPct > 0 ? "+" : ""}${anomaly.deviationPct.toFixed(0)}%)`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -0,0 +1,41 @@
+"use client";
+
+import { ReferenceArea } from "recharts";
+import {
+  CalendarBand,
+  categoryColor,
+  categoryLabel,
+} from "@/lib/academic-calendar";
+
+// Recharts only picks up reference areas that are direct children of the
+// chart, so this is a render helper rather than a component
+export const calendarBandAreas = (bands: CalendarBand[]) =>
+  bands.map(({ event, x1, x2 }) => (
+    <ReferenceArea
+      key={event.id}
+      x1={x1}
+      x2={x2}
+      fill={categoryColor(event.category)}
+      fillOpacity={event.category === "semester" ? 0.05 : 0.15}
+      ifOverflow="extendDomain"
+    />
+  ));
+
+export const CalendarBandLegend = ({ bands }: { bands: CalendarBand[] }) =>
+  bands.length === 0 ? null : (
+    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-sm text-gray-600">
+      {bands.map(({ event }) => (
+        <span key={event.id} className="flex items-center gap-1">
+          <span
+            className="h-3 w-3 rounded-sm"
+            style={{ background: categoryColor(event.category) }}
+          />
+          {event.title}
+          <span className="text-muted-foreground">
+            ({categoryLabel(event.category)}
+            {event.start !== event.end ? `, ${event.start} to ${event.end}` : ""})
+          </span>
+        </span>
+      ))}
+    </div>
+  );
@@ -0,0 +1,86 @@
+"use client";
+
+import {
+  CalendarEvent,
+  categoryColor,
+  primaryEvent,
+} from "@/lib/academic-calendar";
+import {
+  buildCalendar,
+  ColorScale,
+  colorScale,
+  dayNames,
+  heatColor,
+} from "@/lib/heatmap";
+
+const MONTH_LABELS = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun",
+  "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+];
+
+export const CalendarHeatmap = ({
+  year,
+  totals,
+  scale,
+  events,
+  onSelect,
+}: {
+  year: number;
+  totals: { date: string; value: number }[];
+  scale: ColorScale;
+  events: CalendarEvent[];
+  onSelect: (date: string) => void;
+}) => {
+  const columns = buildCalendar(year, totals);
+  const ratioOf = colorScale(totals.map((t) => t.value), scale);
+
+  // Month label above the first week column that contains the 1st
+  const monthStarts = columns.map((column) => {
+    const first = column.find((cell) => cell?.date.endsWith("-01"));
+    return first ? MONTH_LABELS[Number(first.date.slice(5, 7)) - 1] : "";
+  });
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-flex gap-1">
+        <div className="flex flex-col gap-1 mr-1 pt-5">
+          {dayNames.map((day) => (
+            <div key={day} className="h-3 text-[0.6rem] leading-3 uppercase text-gray-500">
+              {day.slice(0, 3)}
+            </div>
+          ))}
+        </div>
+        {columns.map((column, weekIndex) => (
+          <div key={weekIndex} className="flex flex-col gap-1">
+            <div className="h-4 text-[0.6rem] uppercase text-gray-500 whitespace-nowrap">
+              {monthStarts[weekIndex]}
+            </div>
+            {column.map((cell, dayIndex) => {
+              if (!cell) return <div key={dayIndex} className="h-3 w-3" />;
+              // Calendar events are outlined; semesters would outline most days
+              const event = primaryEvent(cell.date, events);
+              const marked = event && event.category !== "semester";
+              return (
+                <button
+                  key={cell.date}
+                  type="button"
+                  className="h-3 w-3 rounded-sm"
+                  style={{
+                    background:
+                      cell.value === null ? "#e5e7eb" : heatColor(ratioOf(cell.value)),
+                    boxShadow: marked ? `0 0 0 2px ${categoryColor(event.category)}` : undefined,
+                  }}
+                  title={`${cell.date}: ${
+                    cell.value === null ? "no data" : `${cell.value.toFixed(2)} kWh`
+                  }${event ? ` (${event.title})` : ""}`}
+                  disabled={cell.value === null}
+                  onClick={() => onSelect(cell.date)}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+"use client";
+
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import { AcademicCalendarDialog } from "@/components/academic-calendar-dialog";
+import { useAcademicCalendar } from "@/contexts/academic-calendar-context";
+import { splitByCalendar } from "@/lib/academic-calendar";
+
+// Daily energy grouped by academic period and weekday/weekend, so term-time
+// consumption can be compared with holidays and breaks
+export const CalendarSplitStats = ({
+  days,
+}: {
+  days: { date: string; energy: number }[];
+}) => {
+  const { events } = useAcademicCalendar();
+  const rows = splitByCalendar(days, events);
+  const overall = days.length
+    ? days.reduce((sum, day) => sum + day.energy, 0) / days.length
+    : 0;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-xl font-semibold">Consumption by Academic Period</h2>
+        <AcademicCalendarDialog />
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No daily data for this period.</p>
+      ) : (
+        <div className="overflow-hidden">
+          <Table>
+            <TableHeader className="bg-gray-100">
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead>Days</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead>Average per Day</TableHead>
+                <TableHead>vs Overall Average</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.label}>
+                  <TableCell>{row.label}</TableCell>
+                  <TableCell>{row.days}</TableCell>
+                  <TableCell>{row.total.toFixed(2)} kWh</TableCell>
+                  <TableCell>{row.average.toFixed(2)} kWh</TableCell>
+                  <TableCell>
+                    {overall > 0
+                      ? `${(((row.average - overall) / overall) * 100).toFixed(1)}%`
+                      : "N/A"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+      <p className="text-sm text-muted-foreground mt-4">
+        Days outside any semester count as semester break. Add semesters and
+        exam weeks in the academic calendar to split term time.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+// Renders an SVG chart off-screen and shows it as an <img>, so printed
+// reports get a fixed-size picture instead of a live, resizing chart.
+// Charts passed in should disable animation so the snapshot is complete.
+export const ChartImage = ({
+  width,
+  height,
+  alt,
+  children,
+}: {
+  width: number;
+  height: number;
+  alt: string;
+  children: React.ReactNode;
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Give recharts a moment to measure its legend and labels
+    const timeoutId = setTimeout(() => {
+      const svg = containerRef.current?.querySelector("svg");
+      if (!svg) return;
+
+      const clone = svg.cloneNode(true) as SVGSVGElement;
+      clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+      clone.setAttribute("width", String(width));
+      clone.setAttribute("height", String(height));
+      clone.style.fontFamily = "sans-serif";
+
+      const markup = new XMLSerializer().serializeToString(clone);
+      setSrc(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`);
+    }, 100);
+
+    return () => clearTimeout(timeoutId);
+  }, [children, width, height]);
+
+  return (
+    <>
+      <div
+        ref={containerRef}
+        aria-hidden
+        className="print:hidden"
+        style={{ position: "absolute", left: -10000, top: 0, width, height }}
+      >
+        {children}
+      </div>
+      {src ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={src}
+          alt={alt}
+          width={width}
+          height={height}
+          className="max-w-full h-auto"
+        />
+      ) : (
+        <div style={{ width, height }} className="max-w-full bg-gray-50" />
+      )}
+    </>
+  );
+};
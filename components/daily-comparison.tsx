@@ -0,0 +1,292 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, Plus, X } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { ExportMenu } from "@/components/export-menu";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+import { getDailyData } from "@/lib/elisa-client";
+import { DailyData, dailyDataSchema } from "@/lib/elisa-schemas";
+import {
+  ComparisonSeries,
+  MAX_COMPARISON_SERIES,
+  MIN_COMPARISON_SERIES,
+  mergeSeries,
+  seriesId,
+  seriesKey,
+  summarizeSeries,
+} from "@/lib/daily-comparison";
+import { ExportDocument } from "@/lib/export";
+import { formatTimestamp, SERIES_COLORS } from "@/lib/format";
+import { applyLiveUpdate, liveChannel, subscribeLive } from "@/lib/live";
+
+export const DailyComparison = ({ date }: { date: string }) => {
+  const { fakultas, lantai, filterLabels, apiFilters } = useEnergyFilter();
+
+  const [series, setSeries] = useState<ComparisonSeries[]>([]);
+  const [results, setResults] = useState<Record<string, DailyData>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentId = seriesId(apiFilters);
+  const canAdd =
+    series.length < MAX_COMPARISON_SERIES &&
+    !series.some((s) => s.id === currentId);
+
+  const addCurrentSelection = () => {
+    const parts =
+      fakultas === "all"
+        ? [filterLabels.fakultas]
+        : [
+            filterLabels.fakultas,
+            filterLabels.gedung,
+            ...(lantai !== "all" ? [filterLabels.lantai] : []),
+          ];
+
+    setSeries((prev) => [
+      ...prev,
+      { id: currentId, label: parts.join(" / "), filters: apiFilters },
+    ]);
+  };
+
+  const removeSeries = (id: string) => {
+    setSeries((prev) => prev.filter((s) => s.id !== id));
+  };
+
+  // Fetch every series for the selected date
+  useEffect(() => {
+    if (series.length === 0) {
+      setResults({});
+      return;
+    }
+
+    let cancelled = false;
+    const fetchAll = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const responses = await Promise.all(
+          series.map((s) => getDailyData(date, s.filters)),
+        );
+        if (cancelled) return;
+        setResults(
+          Object.fromEntries(series.map((s, i) => [s.id, responses[i]])),
+        );
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Unknown error occurred");
+        console.error("Error fetching comparison data:", err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    // Later refreshes are per series, so a failing one keeps the others current
+    const refresh = (s: ComparisonSeries) =>
+      getDailyData(date, s.filters)
+        .then((data) => {
+          if (!cancelled) setResults((prev) => ({ ...prev, [s.id]: data }));
+        })
+        .catch((err) => console.error("Error refreshing comparison data:", err));
+
+    fetchAll();
+
+    const unsubscribes = series.map((s) =>
+      subscribeLive({
+        channel: liveChannel("/api/daily", { date, ...s.filters }),
+        pollInterval: 15 * 60 * 1000,
+        poll: () => refresh(s),
+        onMessage: (message) =>
+          setResults((prev) => {
+            const updated = applyLiveUpdate(
+              prev[s.id] ?? null,
+              message,
+              dailyDataSchema.partial(),
+            );
+            return updated ? { ...prev, [s.id]: updated } : prev;
+          }),
+      }),
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [date, series]);
+
+  const chartData = useMemo(() => mergeSeries(series, results), [series, results]);
+  const summaries = series
+    .filter((s) => results[s.id])
+    .map((s) => summarizeSeries(s, results[s.id]));
+
+  const getExportDocument = (): ExportDocument | null =>
+    summaries.length === 0
+      ? null
+      : {
+          title: `ELISA Daily Comparison ${date}`,
+          metadata: [
+            ["Date", date],
+            ["Series", series.map((s) => s.label).join("; ")],
+          ],
+          tables: [
+            {
+              name: "Comparison Summary",
+              columns: [
+                { key: "label", header: "Series" },
+                { key: "energy", header: "Energy (kWh)" },
+                { key: "cost", header: "Cost (Rp)" },
+                { key: "peak", header: "Peak (kWh)" },
+                { key: "peakTime", header: "Peak Time" },
+              ],
+              rows: summaries.map((summary) => ({ ...summary })),
+            },
+            {
+              name: "Comparison Series",
+              columns: [
+                { key: "timestamp", header: "Timestamp" },
+                ...series.map((s, index) => ({
+                  key: seriesKey(index),
+                  header: `${s.label} (kWh)`,
+                })),
+              ],
+              rows: chartData,
+            },
+          ],
+        };
+
+  return (
+    <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-xl font-semibold">Building Comparison</h2>
+        <div className="flex items-center gap-2">
+          {series.length >= MIN_COMPARISON_SERIES && (
+            <ExportMenu getDocument={getExportDocument} />
+          )}
+          <Button
+            variant="outline"
+            onClick={addCurrentSelection}
+            disabled={!canAdd}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add current selection
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {series.map((s, index) => (
+          <span
+            key={s.id}
+            className="inline-flex items-center gap-2 rounded-full border px-3 py-1 text-sm"
+          >
+            <span
+              className="h-3 w-3 rounded-full"
+              style={{ background: SERIES_COLORS[index % SERIES_COLORS.length] }}
+            />
+            {s.label}
+            <button
+              onClick={() => removeSeries(s.id)}
+              className="text-gray-500 hover:text-gray-800"
+              aria-label={`Remove ${s.label}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {series.length < MIN_COMPARISON_SERIES ? (
+        <p className="text-muted-foreground">
+          Pick a Fakultas, Gedung or Lantai above and add it. Select between{" "}
+          {MIN_COMPARISON_SERIES} and {MAX_COMPARISON_SERIES} buildings or
+          floors to compare.
+        </p>
+      ) : loading && summaries.length === 0 ? (
+        <div className="h-80 flex items-center justify-center">
+          <Loader2 className="h-12 w-12 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="time" />
+                <YAxis
+                  label={{
+                    value: "Energy (kWh)",
+                    angle: -90,
+                    position: "insideLeft",
+                  }}
+                />
+                <Tooltip
+                  formatter={(value: number) => `${value.toFixed(2)} kWh`}
+                />
+                <Legend />
+                {series.map((s, index) => (
+                  <Line
+                    key={s.id}
+                    type="monotone"
+                    dataKey={seriesKey(index)}
+                    name={s.label}
+                    stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="mt-6 overflow-hidden">
+            <Table>
+              <TableHeader className="bg-gray-100">
+                <TableRow>
+                  <TableHead>Series</TableHead>
+                  <TableHead>Energy</TableHead>
+                  <TableHead>Cost</TableHead>
+                  <TableHead>Peak</TableHead>
+                  <TableHead>Peak Time (UTC+7)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summaries.map((summary) => (
+                  <TableRow key={summary.id}>
+                    <TableCell>{summary.label}</TableCell>
+                    <TableCell>{summary.energy.toFixed(2)} kWh</TableCell>
+                    <TableCell>Rp{summary.cost.toFixed(2)}</TableCell>
+                    <TableCell>{summary.peak.toFixed(2)} kWh</TableCell>
+                    <TableCell>
+                      {summary.peakTime ? formatTimestamp(summary.peakTime) : "N/A"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-red-500 text-center mt-4">Error: {error}</p>}
+    </div>
+  );
+};
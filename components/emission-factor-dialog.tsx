@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Settings, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useEmissionFactors } from "@/contexts/emission-factor-context";
+import { EmissionFactor } from "@/lib/emissions";
+
+// Edits a draft so half-typed values do not ripple through the dashboards
+export const EmissionFactorDialog = () => {
+  const { factors, setFactors, resetFactors } = useEmissionFactors();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<EmissionFactor[]>(factors);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setDraft(factors);
+    setOpen(next);
+  };
+
+  const updateDraft = (index: number, patch: Partial<EmissionFactor>) =>
+    setDraft(draft.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+
+  const years = draft.map((f) => f.year);
+  const valid =
+    draft.length > 0 &&
+    new Set(years).size === years.length &&
+    draft.every(
+      (f) => Number.isInteger(f.year) && Number.isFinite(f.factor) && f.factor >= 0,
+    );
+
+  const save = () => {
+    setFactors(draft);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings className="h-4 w-4 mr-2" />
+          Emission factors
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Grid Emission Factors</DialogTitle>
+          <DialogDescription>
+            kg CO2e per kWh by year. Years without a value use the closest
+            earlier year.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {draft.map((factor, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="number"
+                value={factor.year}
+                onChange={(e) => updateDraft(index, { year: Number(e.target.value) })}
+                className="p-2 border rounded-md w-24"
+                step={1}
+              />
+              <input
+                type="number"
+                value={factor.factor}
+                onChange={(e) => updateDraft(index, { factor: Number(e.target.value) })}
+                className="p-2 border rounded-md flex-1"
+                min={0}
+                step={0.001}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                aria-label="Remove year"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setDraft([
+                ...draft,
+                {
+                  year: Math.max(...years, new Date().getFullYear() - 1) + 1,
+                  factor: draft[draft.length - 1]?.factor ?? 0,
+                },
+              ])
+            }
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add year
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              resetFactors();
+              setOpen(false);
+            }}
+          >
+            Reset to defaults
+          </Button>
+          <Button onClick={save} disabled={!valid}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
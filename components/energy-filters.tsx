@@ -0,0 +1,113 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+
+// Fakultas/Gedung/Lantai selects shared by the ELISA dashboard pages.
+// The page-specific date control is passed in as children.
+export const EnergyFilters = ({ children }: { children?: React.ReactNode }) => {
+  const {
+    fakultas,
+    gedung,
+    lantai,
+    fakultasOptions,
+    gedungOptions,
+    lantaiOptions,
+    setFakultas,
+    setGedung,
+    setLantai,
+    resetFilters,
+  } = useEnergyFilter();
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-5 gap-4 my-6">
+      {children}
+
+      {/* Fakultas Select */}
+      <div className="flex flex-col">
+        <label className="text-sm font-medium mb-1">Fakultas</label>
+        <Select value={fakultas} onValueChange={setFakultas}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select Fakultas" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Fakultas</SelectItem>
+            {fakultasOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Gedung Select */}
+      <div className="flex flex-col">
+        <label className="text-sm font-medium mb-1">Gedung</label>
+        <Select
+          value={gedung}
+          onValueChange={setGedung}
+          disabled={fakultas === "all"}
+        >
+          <SelectTrigger>
+            <SelectValue
+              placeholder={
+                fakultas !== "all" ? "Select Gedung" : "Select Fakultas first"
+              }
+            />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Gedung</SelectItem>
+            {gedungOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Lantai Select */}
+      <div className="flex flex-col">
+        <label className="text-sm font-medium mb-1">Lantai</label>
+        <Select
+          value={lantai}
+          onValueChange={setLantai}
+          disabled={gedung === "all" || fakultas === "all"}
+        >
+          <SelectTrigger>
+            <SelectValue
+              placeholder={
+                gedung !== "all" ? "Select Lantai" : "Select Gedung first"
+              }
+            />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Lantai</SelectItem>
+            {lantaiOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Reset Button */}
+      <div className="flex items-end">
+        <button
+          onClick={resetFilters}
+          className="w-full bg-gray-200 hover:bg-gray-300 text-gray-800 py-2 px-4 rounded-md"
+        >
+          Reset Filters
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { downloadExport, ExportDocument, ExportFormat } from "@/lib/export";
+
+// The document is built on click so the export always matches what is on screen
+export const ExportMenu = ({
+  getDocument,
+}: {
+  getDocument: () => ExportDocument | null;
+}) => {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    const doc = getDocument();
+    if (!doc) return;
+
+    setExporting(format);
+    try {
+      await downloadExport(doc, format);
+    } catch (err) {
+      console.error("Error exporting data:", err);
+      toast.error("Export failed. Please try again.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {(["csv", "xlsx"] as ExportFormat[]).map((format) => (
+        <Button
+          key={format}
+          variant="outline"
+          size="sm"
+          onClick={() => handleExport(format)}
+          disabled={exporting !== null}
+        >
+          {exporting === format ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          {format.toUpperCase()}
+        </Button>
+      ))}
+    </div>
+  );
+};
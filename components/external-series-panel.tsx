@@ -0,0 +1,244 @@
+"use client";
+
+import { ChangeEvent, useState } from "react";
+import { Loader2, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import { useExternalSeries } from "@/contexts/external-series-context";
+import { useExternalSeriesData } from "@/hooks/use-external-series";
+import { DateRange, formatBucket } from "@/lib/explorer";
+import {
+  bucketAverages,
+  correlationStrength,
+  EXTERNAL_SERIES,
+  ExternalSeriesKind,
+  regress,
+} from "@/lib/external-series";
+
+// Power against weather or occupancy for the same window. `power` maps
+// hourly (YYYY-MM-DDTHH:00) or daily (YYYY-MM-DD) keys to energy, like the
+// forecast panel's `actual`.
+export const ExternalSeriesPanel = ({
+  kind,
+  range,
+  power,
+}: {
+  kind: "hourly" | "daily";
+  range: DateRange;
+  power: Record<string, number>;
+}) => {
+  const { sources, source, setSourceId, importCsv, removeCsv } = useExternalSeries();
+  const { data, loading, error } = useExternalSeriesData(source, range);
+  const [seriesId, setSeriesId] = useState<ExternalSeriesKind>("temperature");
+  const unit = kind === "hourly" ? "kWh/hour" : "kWh/day";
+
+  const available = EXTERNAL_SERIES.filter(({ id }) => (data?.[id]?.length ?? 0) > 0);
+  const series = available.find((s) => s.id === seriesId) ?? available[0];
+  const averages = Object.fromEntries(
+    available.map(({ id }) => [id, bucketAverages(data?.[id] ?? [], kind)]),
+  ) as Partial<Record<ExternalSeriesKind, Record<string, number>>>;
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const stored = importCsv(file.name, await file.text());
+      toast.success(
+        stored
+          ? `Loaded ${file.name}`
+          : `Loaded ${file.name}; it is too large to keep after a reload`,
+      );
+    } catch (err) {
+      console.error("Error importing external series:", err);
+      toast.error(err instanceof Error ? err.message : "Could not read the CSV file");
+    }
+  };
+
+  let content: React.ReactNode;
+  if (loading) {
+    content = (
+      <div className="flex items-center justify-center h-40 text-muted-foreground">
+        <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+        Loading external data...
+      </div>
+    );
+  } else if (error) {
+    content = <p className="text-red-500 text-center">Error: {error}</p>;
+  } else if (!series) {
+    content = (
+      <p className="text-sm text-muted-foreground">
+        {source.label} has no readings between {range.start} and {range.end}.
+      </p>
+    );
+  } else {
+    const external = averages[series.id] ?? {};
+    const keys = Array.from(new Set([...Object.keys(power), ...Object.keys(external)])).sort();
+    const chartData = keys.map((key) => ({
+      label: formatBucket(key, kind),
+      power: power[key],
+      external: external[key],
+    }));
+
+    content = (
+      <>
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" minTickGap={20} />
+              <YAxis
+                yAxisId="power"
+                label={{ value: unit, angle: -90, position: "insideLeft" }}
+              />
+              <YAxis
+                yAxisId="external"
+                orientation="right"
+                label={{ value: series.unit, angle: 90, position: "insideRight" }}
+              />
+              <Tooltip
+                formatter={(value: number, name: string) => [value.toFixed(2), name]}
+              />
+              <Legend />
+              <Bar yAxisId="power" dataKey="power" fill="#8884d8" name={`Energy (${unit})`} />
+              <Line
+                yAxisId="external"
+                type="monotone"
+                dataKey="external"
+                stroke={series.color}
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+                name={`${series.label} (${series.unit})`}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="mt-6 overflow-hidden">
+          <Table>
+            <TableHeader className="bg-gray-100">
+              <TableRow>
+                <TableHead>Series</TableHead>
+                <TableHead>Pairs</TableHead>
+                <TableHead>Correlation (r)</TableHead>
+                <TableHead>R²</TableHead>
+                <TableHead>Slope</TableHead>
+                <TableHead>Intercept</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {available.map(({ id, label, unit: seriesUnit }) => {
+                const fit = regress(averages[id] ?? {}, power);
+                return (
+                  <TableRow key={id} className={id === series.id ? "font-medium" : undefined}>
+                    <TableCell>{label}</TableCell>
+                    <TableCell>{fit?.n ?? 0}</TableCell>
+                    <TableCell>
+                      {fit ? `${fit.r.toFixed(2)} (${correlationStrength(fit.r)})` : "N/A"}
+                    </TableCell>
+                    <TableCell>{fit ? fit.r2.toFixed(2) : "N/A"}</TableCell>
+                    <TableCell>
+                      {fit ? `${fit.slope.toFixed(3)} ${unit} per ${seriesUnit}` : "N/A"}
+                    </TableCell>
+                    <TableCell>{fit ? `${fit.intercept.toFixed(2)} ${unit}` : "N/A"}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+        <p className="text-sm text-muted-foreground mt-4">
+          Least squares fit of energy on each series over the {kind === "hourly" ? "hours" : "days"}{" "}
+          both have readings for. Correlation does not separate weather from
+          schedule effects.
+        </p>
+      </>
+    );
+  }
+
+  return (
+    <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">Weather &amp; Occupancy</h2>
+          <p className="text-sm text-muted-foreground">Source: {source.label}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {available.length > 0 && series && (
+            <Select
+              value={series.id}
+              onValueChange={(value: ExternalSeriesKind) => setSeriesId(value)}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map(({ id, label }) => (
+                  <SelectItem key={id} value={id}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={source.id} onValueChange={setSourceId}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sources.map(({ id, label }) => (
+                <SelectItem key={id} value={id}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" asChild>
+            <label className="cursor-pointer">
+              <Upload className="h-4 w-4 mr-2" />
+              Import CSV
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={handleImport}
+              />
+            </label>
+          </Button>
+          {sources.some((s) => s.id === "csv") && (
+            <Button variant="ghost" size="icon" onClick={removeCsv} aria-label="Remove CSV">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      {content}
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import { useForecastHistory } from "@/hooks/use-forecast-history";
+import { ElisaFilters } from "@/lib/elisa-client";
+import { formatBucket } from "@/lib/explorer";
+import {
+  backtest,
+  DAILY_HISTORY_DAYS,
+  DAILY_SEASON,
+  dailyHorizons,
+  FORECAST_METHODS,
+  ForecastMethod,
+  forecastKeys,
+  forecastSeries,
+  forecastTotal,
+  HOURLY_HORIZONS,
+  HOURLY_SEASON,
+  MONTHLY_HISTORY_DAYS,
+} from "@/lib/forecast";
+
+// `start` is the first forecast day (YYYY-MM-DD) for hourly forecasts and the
+// month (YYYY-MM) for daily ones. `actual` maps window keys to observed
+// energy so the forecast can be checked against what has happened so far.
+export const ForecastPanel = ({
+  kind,
+  start,
+  filters,
+  actual,
+}: {
+  kind: "hourly" | "daily";
+  start: string;
+  filters: ElisaFilters;
+  actual: Record<string, number>;
+}) => {
+  const { history, loading, error } = useForecastHistory(kind, start, filters);
+  const [method, setMethod] = useState<ForecastMethod>("holt_winters");
+  const horizons = kind === "hourly" ? HOURLY_HORIZONS : dailyHorizons(start);
+  const [horizonId, setHorizonId] = useState(horizons[0].id);
+  const horizon = horizons.find((h) => h.id === horizonId) ?? horizons[0];
+  const season = kind === "hourly" ? HOURLY_SEASON : DAILY_SEASON;
+  const granularity = kind === "hourly" ? "hourly" : "daily";
+  const unit = kind === "hourly" ? "kWh/hour" : "kWh/day";
+
+  let content: React.ReactNode;
+  if (loading) {
+    content = (
+      <div className="flex items-center justify-center h-40 text-muted-foreground">
+        <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+        Loading history...
+      </div>
+    );
+  } else if (error) {
+    content = <p className="text-red-500 text-center">Error: {error}</p>;
+  } else if (history) {
+    const forecast = forecastSeries(history.values, season, horizon.length, method);
+    const keys = forecastKeys(
+      kind,
+      kind === "hourly" ? start : `${start}-01`,
+      horizon.length,
+    );
+    const total = forecastTotal(forecast.points);
+    const observed = keys.filter((key) => actual[key] !== undefined);
+    const observedTotal = observed.reduce((sum, key) => sum + actual[key], 0);
+    const expectedSoFar = keys.reduce(
+      (sum, key, i) => sum + (actual[key] !== undefined ? forecast.points[i].value : 0),
+      0,
+    );
+
+    // The last season of history leads into the forecast for context
+    const chartData = [
+      ...history.keys.slice(-season).map((key, i) => ({
+        label: formatBucket(key, granularity),
+        history: history.values[history.values.length - season + i],
+      })),
+      ...keys.map((key, i) => ({
+        label: formatBucket(key, granularity),
+        forecast: forecast.points[i].value,
+        band: [forecast.points[i].low, forecast.points[i].high],
+        actual: actual[key],
+      })),
+    ];
+
+    content = (
+      <>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Forecast total</p>
+            <p className="text-lg font-semibold">{total.value.toFixed(2)} kWh</p>
+            <p className="text-sm text-muted-foreground">
+              95% interval {total.low.toFixed(2)} - {total.high.toFixed(2)} kWh
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Observed so far</p>
+            <p className="text-lg font-semibold">
+              {observed.length ? `${observedTotal.toFixed(2)} kWh` : "N/A"}
+            </p>
+            {observed.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Forecast for the same period {expectedSoFar.toFixed(2)} kWh
+              </p>
+            )}
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Backtest MAPE ({horizon.label})</p>
+            {FORECAST_METHODS.map(({ id, label }) => {
+              const score = backtest(history.values, season, horizon.length, id);
+              return (
+                <p key={id} className={id === method ? "font-semibold" : undefined}>
+                  {label}: {score !== null ? `${score.toFixed(1)}%` : "N/A"}
+                </p>
+              );
+            })}
+          </div>
+        </div>
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" minTickGap={20} />
+              <YAxis label={{ value: unit, angle: -90, position: "insideLeft" }} />
+              <Tooltip
+                formatter={(value: number | number[], name: string) => [
+                  Array.isArray(value)
+                    ? `${value[0].toFixed(2)} - ${value[1].toFixed(2)}`
+                    : value.toFixed(2),
+                  name,
+                ]}
+              />
+              <Legend />
+              <Area
+                type="monotone"
+                dataKey="band"
+                stroke="none"
+                fill="#8884d8"
+                fillOpacity={0.2}
+                name="95% interval"
+              />
+              <Line type="monotone" dataKey="history" stroke="#94a3b8" dot={false} name="History" />
+              <Line
+                type="monotone"
+                dataKey="forecast"
+                stroke="#8884d8"
+                strokeDasharray="5 5"
+                dot={false}
+                name="Forecast"
+              />
+              <Line type="monotone" dataKey="actual" stroke="#ff8042" dot={false} name="Actual" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+        <details className="mt-4">
+          <summary className="cursor-pointer text-sm font-medium">Forecast values</summary>
+          <div className="max-h-64 overflow-y-auto mt-2">
+            <Table>
+              <TableHeader className="bg-gray-100">
+                <TableRow>
+                  <TableHead>{kind === "hourly" ? "Hour" : "Date"}</TableHead>
+                  <TableHead>Forecast ({unit})</TableHead>
+                  <TableHead>Low</TableHead>
+                  <TableHead>High</TableHead>
+                  <TableHead>Actual</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {keys.map((key, i) => (
+                  <TableRow key={key}>
+                    <TableCell>{formatBucket(key, granularity)}</TableCell>
+                    <TableCell>{forecast.points[i].value.toFixed(2)}</TableCell>
+                    <TableCell>{forecast.points[i].low.toFixed(2)}</TableCell>
+                    <TableCell>{forecast.points[i].high.toFixed(2)}</TableCell>
+                    <TableCell>
+                      {actual[key] !== undefined ? actual[key].toFixed(2) : "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </details>
+      </>
+    );
+  }
+
+  return (
+    <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">Forecast</h2>
+          <p className="text-sm text-muted-foreground">
+            Trained on the{" "}
+            {kind === "hourly"
+              ? `${DAILY_HISTORY_DAYS} days before ${start}`
+              : `${MONTHLY_HISTORY_DAYS} days before ${start}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={method} onValueChange={(value: ForecastMethod) => setMethod(value)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FORECAST_METHODS.map(({ id, label }) => (
+                <SelectItem key={id} value={id}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={horizon.id} onValueChange={setHorizonId}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {horizons.map(({ id, label }) => (
+                <SelectItem key={id} value={id}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {content}
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+"use client";
+
+import { HeatMapGrid } from "react-grid-heatmap";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DeltaText } from "@/components/period-comparison";
+import {
+  dayNames,
+  diffGrids,
+  divergingColor,
+  HeatmapDiffCell,
+  hourLabels,
+  topChanges,
+} from "@/lib/heatmap";
+
+const formatDelta = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(2)}`;
+
+const ChangeTable = ({
+  title,
+  cells,
+}: {
+  title: string;
+  cells: HeatmapDiffCell[];
+}) => (
+  <div>
+    <h3 className="font-medium mb-2">{title}</h3>
+    <Table>
+      <TableHeader className="bg-gray-100">
+        <TableRow>
+          <TableHead>Day</TableHead>
+          <TableHead>Hour</TableHead>
+          <TableHead>Baseline (kWh)</TableHead>
+          <TableHead>Current (kWh)</TableHead>
+          <TableHead>Change (kWh)</TableHead>
+          <TableHead>Change (%)</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {cells.map((cell) => (
+          <TableRow key={`${cell.dayIndex}-${cell.hour}`}>
+            <TableCell>{dayNames[cell.dayIndex]}</TableCell>
+            <TableCell>{hourLabels[cell.hour]}</TableCell>
+            <TableCell>{cell.baseline.toFixed(2)}</TableCell>
+            <TableCell>{cell.current.toFixed(2)}</TableCell>
+            <TableCell className={cell.delta > 0 ? "text-red-600" : "text-blue-600"}>
+              {formatDelta(cell.delta)}
+            </TableCell>
+            <TableCell>
+              {cell.deltaPct !== null ? `${formatDelta(cell.deltaPct)}%` : "N/A"}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+export const HeatmapDifference = ({
+  current,
+  baseline,
+  onCellClick,
+}: {
+  current: number[][];
+  baseline: number[][];
+  onCellClick: (dayIndex: number, hour: number) => void;
+}) => {
+  const cells = diffGrids(current, baseline);
+  const deltaGrid = current.map((row, dayIndex) =>
+    row.map((_, hour) => cells[dayIndex * row.length + hour].delta),
+  );
+  const maxChange = Math.max(...cells.map((cell) => Math.abs(cell.delta)), 0);
+  const currentTotal = cells.reduce((sum, cell) => sum + cell.current, 0);
+  const baselineTotal = cells.reduce((sum, cell) => sum + cell.baseline, 0);
+
+  return (
+    <>
+      <p className="mb-4">
+        <span className="font-medium">Total: </span>
+        {currentTotal.toFixed(2)} kWh vs {baselineTotal.toFixed(2)} kWh{" "}
+        <DeltaText current={currentTotal} previous={baselineTotal} unit="kWh" />
+      </p>
+      <div className="h-[300px]">
+        <HeatMapGrid
+          data={deltaGrid}
+          xLabels={hourLabels}
+          yLabels={dayNames}
+          cellHeight="2rem"
+          onClick={(x, y) => onCellClick(y, x)}
+          cellStyle={(x, y) => {
+            const ratio = maxChange > 0 ? deltaGrid[y][x] / maxChange : 0;
+            return {
+              background: divergingColor(ratio),
+              fontSize: "0.8rem",
+              color: Math.abs(ratio) > 0.6 ? "white" : "black",
+              cursor: "pointer",
+            };
+          }}
+          cellRender={(x, y, value) => (
+            <div title={`${dayNames[y]} ${hourLabels[x]}: ${formatDelta(value ?? 0)} kWh`}>
+              {(value ?? 0).toFixed(1)}
+            </div>
+          )}
+          xLabelsStyle={() => ({
+            fontSize: "0.8rem",
+            textTransform: "uppercase",
+            color: "#777"
+          })}
+          yLabelsStyle={() => ({
+            fontSize: "0.8rem",
+            textTransform: "uppercase",
+            color: "#777"
+          })}
+        />
+      </div>
+      <div className="flex justify-between mt-2 text-sm text-gray-600">
+        <span className="text-blue-600">Less: -{maxChange.toFixed(2)} kWh</span>
+        <span className="text-red-600">More: +{maxChange.toFixed(2)} kWh</span>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+        <ChangeTable title="Largest absolute changes" cells={topChanges(cells, "absolute")} />
+        <ChangeTable title="Largest relative changes" cells={topChanges(cells, "relative")} />
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceArea,
+} from "recharts";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { totalPhases } from "@/lib/daily-comparison";
+import { ElisaFilters, getDailyData } from "@/lib/elisa-client";
+import { DailyData } from "@/lib/elisa-schemas";
+import { formatDate, formatTimestamp } from "@/lib/format";
+import { dayNames, hourLabels } from "@/lib/heatmap";
+
+export interface HeatmapCell {
+  date: string;
+  // null when a whole day was picked, e.g. from the calendar layout
+  hour: number | null;
+}
+
+const hourOf = (timestamp: string) => new Date(timestamp).getHours();
+
+export const HeatmapDrilldown = ({
+  cell,
+  filters,
+  onClose,
+}: {
+  cell: HeatmapCell | null;
+  filters: ElisaFilters;
+  onClose: () => void;
+}) => {
+  const [data, setData] = useState<DailyData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!cell) return;
+    let cancelled = false;
+    setData(null);
+    setLoading(true);
+    setError(null);
+    getDailyData(cell.date, filters)
+      .then((result) => {
+        if (!cancelled) setData(result);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Unknown error occurred");
+        }
+        console.error("Error fetching drill-down data:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cell, filters]);
+
+  const chartData = (data?.chart_data ?? []).map((reading) => ({
+    time: formatTimestamp(reading.timestamp),
+    timestamp: reading.timestamp,
+    total: totalPhases(reading),
+    R: reading.R,
+    S: reading.S,
+    T: reading.T,
+  }));
+  const selected =
+    cell?.hour == null
+      ? chartData
+      : chartData.filter((reading) => hourOf(reading.timestamp) === cell.hour);
+  const selectedTotal = selected.reduce((sum, reading) => sum + reading.total, 0);
+
+  const weekday = cell ? dayNames[new Date(`${cell.date}T00:00:00Z`).getUTCDay()] : "";
+
+  return (
+    <Dialog open={cell !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            {weekday} {cell && formatDate(`${cell.date}T00:00:00`)}
+            {cell?.hour != null && `, ${hourLabels[cell.hour]}`}
+          </DialogTitle>
+          <DialogDescription>
+            Readings behind this heatmap cell
+            {selected.length > 0 && `: ${selectedTotal.toFixed(2)} kWh over ${selected.length} readings`}
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex items-center justify-center h-64 text-muted-foreground">
+            <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+            Loading data...
+          </div>
+        ) : error ? (
+          <p className="text-red-500 text-center">Error: {error}</p>
+        ) : (
+          <>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="time" />
+                  <YAxis />
+                  <Tooltip formatter={(value: number) => [`${value.toFixed(2)} kWh`]} />
+                  {cell?.hour != null && selected.length > 0 && (
+                    <ReferenceArea
+                      x1={selected[0].time}
+                      x2={selected[selected.length - 1].time}
+                      fill="#f59e0b"
+                      fillOpacity={0.2}
+                    />
+                  )}
+                  <Line type="monotone" dataKey="total" stroke="#8884d8" name="Total" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="max-h-60 overflow-y-auto">
+              <Table>
+                <TableHeader className="bg-gray-100">
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>R (kWh)</TableHead>
+                    <TableHead>S (kWh)</TableHead>
+                    <TableHead>T (kWh)</TableHead>
+                    <TableHead>Total (kWh)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selected.map((reading) => (
+                    <TableRow key={reading.timestamp}>
+                      <TableCell>{reading.time}</TableCell>
+                      <TableCell>{reading.R.toFixed(2)}</TableCell>
+                      <TableCell>{reading.S.toFixed(2)}</TableCell>
+                      <TableCell>{reading.T.toFixed(2)}</TableCell>
+                      <TableCell>{reading.total.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                  {selected.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        No readings for this cell
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
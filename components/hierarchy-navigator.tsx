@@ -0,0 +1,194 @@
+"use client";
+
+import { ChevronDown, ChevronRight, Loader2 } from "lucide-react";
+import { ResponsiveContainer, Treemap } from "recharts";
+import { heatColor } from "@/lib/heatmap";
+import { HierarchyNode } from "@/lib/hierarchy";
+
+const formatNumber = (value: number | null) =>
+  value === null ? "N/A" : value.toLocaleString("id-ID", { maximumFractionDigits: 0 });
+
+const maxEnergy = (nodes: HierarchyNode[]) =>
+  Math.max(...nodes.map((node) => node.energy ?? 0), 0);
+
+const TreeRows = ({
+  nodes,
+  depth,
+  expanded,
+  loadingKeys,
+  selectedKey,
+  onToggle,
+  onSelect,
+}: {
+  nodes: HierarchyNode[];
+  depth: number;
+  expanded: Set<string>;
+  loadingKeys: Set<string>;
+  selectedKey: string;
+  onToggle: (node: HierarchyNode) => void;
+  onSelect: (node: HierarchyNode) => void;
+}) => {
+  const max = maxEnergy(nodes);
+
+  return (
+    <>
+      {nodes.map((node) => {
+        const ratio = max > 0 ? (node.energy ?? 0) / max : 0;
+        const isOpen = expanded.has(node.key);
+        return (
+          <div key={node.key}>
+            <div
+              className={`flex items-center gap-2 py-1 pr-2 rounded-md ${
+                node.key === selectedKey ? "bg-slate-100" : "hover:bg-gray-50"
+              }`}
+              style={{ paddingLeft: `${depth * 1.25}rem` }}
+            >
+              {node.level === "lantai" ? (
+                <span className="w-5" />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => onToggle(node)}
+                  className="w-5 text-muted-foreground"
+                  aria-label={isOpen ? "Collapse" : "Expand"}
+                >
+                  {loadingKeys.has(node.key) ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : isOpen ? (
+                    <ChevronDown className="h-4 w-4" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4" />
+                  )}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => onSelect(node)}
+                className="flex-1 text-left truncate"
+                title={node.label}
+              >
+                {node.label}
+              </button>
+              <div className="hidden md:block w-24 h-2 bg-gray-100 rounded">
+                <div
+                  className="h-2 rounded"
+                  style={{ width: `${ratio * 100}%`, background: heatColor(ratio) }}
+                />
+              </div>
+              <span className="w-28 text-right tabular-nums">{formatNumber(node.energy)} kWh</span>
+              <span className="w-32 text-right tabular-nums text-muted-foreground">
+                Rp {formatNumber(node.cost)}
+              </span>
+            </div>
+            {isOpen && node.children && (
+              <TreeRows
+                nodes={node.children}
+                depth={depth + 1}
+                expanded={expanded}
+                loadingKeys={loadingKeys}
+                selectedKey={selectedKey}
+                onToggle={onToggle}
+                onSelect={onSelect}
+              />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export const HierarchyTree = (props: {
+  nodes: HierarchyNode[];
+  expanded: Set<string>;
+  loadingKeys: Set<string>;
+  selectedKey: string;
+  onToggle: (node: HierarchyNode) => void;
+  onSelect: (node: HierarchyNode) => void;
+}) => (
+  <div className="text-sm">
+    <div className="flex items-center gap-2 pb-2 mb-2 border-b font-medium text-muted-foreground">
+      <span className="flex-1 pl-7">Name</span>
+      <span className="hidden md:block w-24" />
+      <span className="w-28 text-right">Energy today</span>
+      <span className="w-32 text-right">Cost today</span>
+    </div>
+    <TreeRows depth={0} {...props} />
+  </div>
+);
+
+// Recharts passes the layout and the data fields of each node as props
+const TreemapCell = ({
+  x = 0,
+  y = 0,
+  width = 0,
+  height = 0,
+  name,
+  fill,
+  energy,
+}: {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  name?: string;
+  fill?: string;
+  energy?: number;
+}) => (
+  <g className="cursor-pointer">
+    <rect x={x} y={y} width={width} height={height} fill={fill} stroke="#fff" strokeWidth={2} />
+    {width > 70 && height > 36 && (
+      <>
+        <text x={x + 6} y={y + 18} fill="#111" fontSize={12} fontWeight={600}>
+          {name && name.length > width / 7 ? `${name.slice(0, Math.floor(width / 7))}…` : name}
+        </text>
+        <text x={x + 6} y={y + 32} fill="#333" fontSize={11}>
+          {formatNumber(energy ?? null)} kWh
+        </text>
+      </>
+    )}
+  </g>
+);
+
+export const HierarchyTreemap = ({
+  nodes,
+  onSelect,
+}: {
+  nodes: HierarchyNode[];
+  onSelect: (node: HierarchyNode) => void;
+}) => {
+  const max = maxEnergy(nodes);
+  const data = nodes
+    .filter((node) => (node.energy ?? 0) > 0)
+    .map((node) => ({
+      id: node.key,
+      name: node.label,
+      size: node.energy,
+      energy: node.energy,
+      fill: heatColor(max > 0 ? (node.energy ?? 0) / max : 0),
+    }));
+
+  if (data.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full text-muted-foreground">
+        No consumption recorded today
+      </div>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <Treemap
+        data={data}
+        dataKey="size"
+        nameKey="name"
+        isAnimationActive={false}
+        content={<TreemapCell />}
+        onClick={(item) => {
+          const node = nodes.find((n) => n.key === (item as { id?: string }).id);
+          if (node) onSelect(node);
+        }}
+      />
+    </ResponsiveContainer>
+  );
+};
@@ -0,0 +1,152 @@
+"use client";
+
+import {
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  LabelList,
+} from "recharts";
+import { HeatMapGrid } from "react-grid-heatmap";
+import { FacultyComparisonData, HeatmapData, NowData } from "@/lib/elisa-schemas";
+import { formatTimestamp } from "@/lib/format";
+import { buildHeatmapGrid, dayNames, heatColor, hourLabels } from "@/lib/heatmap";
+
+const RANKING_SIZE = 10;
+
+const Empty = () => (
+  <div className="flex-grow flex items-center justify-center text-3xl text-muted-foreground">
+    No data available
+  </div>
+);
+
+const BigStat = ({
+  label,
+  value,
+  unit,
+}: {
+  label: string;
+  value: string;
+  unit: string;
+}) => (
+  <div>
+    <p className="text-2xl text-muted-foreground">{label}</p>
+    <p className="text-6xl font-bold tabular-nums">
+      {value} <span className="text-3xl font-medium text-muted-foreground">{unit}</span>
+    </p>
+  </div>
+);
+
+export const NowSlide = ({ data }: { data: NowData | undefined }) => {
+  if (!data) return <Empty />;
+  const current = data.chart_data[data.chart_data.length - 1]?.power;
+  const chartData = data.chart_data.map((item) => ({
+    time: formatTimestamp(item.timestamp),
+    power: item.power,
+  }));
+
+  return (
+    <div className="flex-grow flex flex-col gap-8">
+      <div className="grid grid-cols-3 gap-8">
+        <BigStat
+          label="Power now"
+          value={current !== undefined ? current.toFixed(1) : "N/A"}
+          unit="kW"
+        />
+        <BigStat
+          label="Energy today"
+          value={data.today_data.total_daya.toLocaleString("id-ID", { maximumFractionDigits: 0 })}
+          unit="kWh"
+        />
+        <BigStat
+          label="Cost today"
+          value={data.today_data.total_cost.toLocaleString("id-ID", { maximumFractionDigits: 0 })}
+          unit="Rp"
+        />
+      </div>
+      <div className="flex-grow min-h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={chartData} margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="time" tick={{ fontSize: 18 }} minTickGap={40} />
+            <YAxis tick={{ fontSize: 18 }} />
+            <Area
+              type="monotone"
+              dataKey="power"
+              stroke="#8884d8"
+              fill="#8884d8"
+              fillOpacity={0.3}
+              isAnimationActive={false}
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+      {data.prev_month_data?.hour_daya !== undefined && (
+        <p className="text-2xl text-muted-foreground">
+          Last month averaged {data.prev_month_data.hour_daya.toFixed(1)} kWh per hour
+        </p>
+      )}
+    </div>
+  );
+};
+
+export const HeatmapSlide = ({ data }: { data: HeatmapData | null }) => {
+  if (!data) return <Empty />;
+  const grid = buildHeatmapGrid(data.heatmap);
+
+  return (
+    <div className="flex-grow">
+      <HeatMapGrid
+        data={grid}
+        xLabels={hourLabels}
+        yLabels={dayNames.map((day) => day.slice(0, 3))}
+        cellHeight="4.5rem"
+        cellStyle={(_x, _y, ratio) => ({ background: heatColor(ratio) })}
+        cellRender={() => ""}
+        xLabelsStyle={() => ({ fontSize: "1rem", color: "#777" })}
+        yLabelsStyle={() => ({ fontSize: "1.25rem", color: "#777", paddingRight: "0.5rem" })}
+      />
+    </div>
+  );
+};
+
+export const RankingSlide = ({
+  data,
+  labelOf,
+}: {
+  data: FacultyComparisonData | null;
+  labelOf: (faculty: string) => string;
+}) => {
+  if (!data) return <Empty />;
+  const chartData = [...data.value]
+    .sort((a, b) => b.energy - a.energy)
+    .slice(0, RANKING_SIZE)
+    .map((item) => ({ ...item, label: labelOf(item.fakultas) }));
+
+  return (
+    <div className="flex-grow min-h-[400px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart
+          layout="vertical"
+          data={chartData}
+          margin={{ top: 10, right: 120, left: 20, bottom: 10 }}
+        >
+          <XAxis type="number" hide />
+          <YAxis dataKey="label" type="category" width={220} tick={{ fontSize: 22 }} />
+          <Bar dataKey="energy" fill="#82ca9d" isAnimationActive={false}>
+            <LabelList
+              dataKey="energy"
+              position="right"
+              style={{ fontSize: 20 }}
+              formatter={(value: number) => `${value.toLocaleString("id-ID", { maximumFractionDigits: 0 })} kWh`}
+            />
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
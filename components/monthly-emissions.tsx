@@ -0,0 +1,65 @@
+"use client";
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { useEmissionFactors } from "@/contexts/emission-factor-context";
+import { MonthlyData } from "@/lib/elisa-schemas";
+import { emissionsFor, factorFor, formatEmissions, yearOf } from "@/lib/emissions";
+import { formatDate } from "@/lib/format";
+import { previousMonth } from "@/lib/period-comparison";
+
+export const MonthlyEmissions = ({
+  data,
+  month,
+}: {
+  data: MonthlyData;
+  month: string;
+}) => {
+  const { factors } = useEmissionFactors();
+  const lastMonth = previousMonth(month, "previous_month");
+
+  const total = emissionsFor(data.month_data.total_daya, month, factors);
+  const previousTotal =
+    data.prev_month_data?.total_daya !== undefined
+      ? emissionsFor(data.prev_month_data.total_daya, lastMonth, factors)
+      : null;
+  const chartData = data.daily_data.map((day) => ({
+    date: formatDate(day.timestamp),
+    emissions: emissionsFor(day.energy, month, factors),
+  }));
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-8">
+      <div className="bg-white p-4 rounded-lg shadow-md">
+        <h2 className="text-xl font-semibold mb-4">Carbon Emissions</h2>
+        <p><span className="font-medium">This month: </span>{formatEmissions(total)}</p>
+        <p><span className="font-medium">Daily average: </span>{formatEmissions(emissionsFor(data.month_data.avg_daya, month, factors))} /day</p>
+        <p><span className="font-medium">Previous month: </span>{previousTotal !== null ? formatEmissions(previousTotal) : "N/A"}</p>
+        <p className="text-sm text-muted-foreground mt-4">
+          Grid factor {factorFor(yearOf(month), factors)} kg CO2e/kWh
+        </p>
+      </div>
+      <div className="md:col-span-2 bg-white p-4 rounded-lg shadow-md">
+        <h2 className="text-xl font-semibold mb-4">Daily Emissions</h2>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis label={{ value: "kg CO2e", angle: -90, position: "insideLeft" }} />
+              <Tooltip formatter={(value: number) => [formatEmissions(value), "Emissions"]} />
+              <Bar dataKey="emissions" fill="#64748b" name="Emissions" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+"use client";
+
+import Link from "next/link";
+import {
+  NavigationMenu,
+  NavigationMenuItem,
+  NavigationMenuLink,
+  NavigationMenuList,
+  navigationMenuTriggerStyle,
+} from "@/components/ui/navigation-menu";
+import { useEnergyFilter } from "@/contexts/energy-filter-context";
+
+const dashboardLinks = [
+  { href: "/home", label: "Home" },
+  { href: "/daily", label: "Daily" },
+  { href: "/monthly", label: "Monthly" },
+  { href: "/heatmap", label: "Heatmap" },
+  { href: "/faculty", label: "Faculty" },
+  { href: "/hierarchy", label: "Hierarchy" },
+  { href: "/benchmark", label: "Benchmark" },
+  { href: "/waste", label: "Waste" },
+  { href: "/peak", label: "Peak" },
+  { href: "/explorer", label: "Explorer" },
+  { href: "/report", label: "Report" },
+  { href: "/alerts", label: "Alerts" },
+  { href: "/health", label: "Health" },
+  { href: "/kiosk", label: "Kiosk" },
+];
+
+export const NavMenu = () => {
+  // Dashboard links keep the active filters so switching pages keeps the selection
+  const { queryString } = useEnergyFilter();
+
+  return (
+    <NavigationMenu className="flex justify-center">
+      <NavigationMenuList>
+        {dashboardLinks.map((link) => (
+          <NavigationMenuItem key={link.href}>
+            <Link
+              href={queryString ? `${link.href}?${queryString}` : link.href}
+              legacyBehavior
+              passHref
+            >
+              <NavigationMenuLink className={navigationMenuTriggerStyle()}>
+                {link.label}
+              </NavigationMenuLink>
+            </Link>
+          </NavigationMenuItem>
+        ))}
+        <NavigationMenuItem>
+          <Link href="/" legacyBehavior passHref>
+            <NavigationMenuLink className={navigationMenuTriggerStyle()}>
+              Smart Analysis
+            </NavigationMenuLink>
+          </Link>
+        </NavigationMenuItem>
+      </NavigationMenuList>
+    </NavigationMenu>
+  );
+};
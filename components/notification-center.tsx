@@ -0,0 +1,124 @@
+"use client";
+
+import Link from "next/link";
+import { Bell, BellOff, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger,
+} from "@/components/ui/drawer";
+import { useAlerts } from "@/contexts/alert-context";
+
+const SNOOZE_MINUTES = 60;
+
+export const NotificationCenter = () => {
+  const {
+    notifications,
+    unreadCount,
+    acknowledge,
+    acknowledgeAll,
+    snooze,
+    clearNotifications,
+  } = useAlerts();
+  const now = new Date();
+
+  return (
+    <Drawer>
+      <DrawerTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </DrawerTrigger>
+      <DrawerContent>
+        <div className="mx-auto w-full max-w-2xl">
+          <DrawerHeader>
+            <DrawerTitle>Notifications</DrawerTitle>
+            <DrawerDescription>
+              Alerts fired by your{" "}
+              <DrawerClose asChild>
+                <Link href="/alerts" className="underline">
+                  consumption rules
+                </Link>
+              </DrawerClose>
+              .
+            </DrawerDescription>
+          </DrawerHeader>
+          <div className="px-4 max-h-[50vh] overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">
+                No notifications yet.
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {notifications.map((notification) => {
+                  const snoozed =
+                    notification.snoozedUntil &&
+                    new Date(notification.snoozedUntil) > now;
+                  const pending = !notification.acknowledged && !snoozed;
+                  return (
+                    <li
+                      key={notification.id}
+                      className={`py-3 flex items-start justify-between gap-4 ${pending ? "" : "opacity-60"}`}
+                    >
+                      <div className="text-sm">
+                        <p className="font-medium">{notification.scopeLabel}</p>
+                        <p className="text-gray-700">{notification.message}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(notification.firedAt).toLocaleString()}
+                          {snoozed &&
+                            ` · snoozed until ${new Date(notification.snoozedUntil!).toLocaleTimeString()}`}
+                        </p>
+                      </div>
+                      {pending && (
+                        <div className="flex gap-2 shrink-0">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => snooze(notification.id, SNOOZE_MINUTES)}
+                          >
+                            <BellOff className="h-4 w-4 mr-2" />
+                            Snooze 1h
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => acknowledge(notification.id)}
+                          >
+                            <Check className="h-4 w-4 mr-2" />
+                            Acknowledge
+                          </Button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+          <DrawerFooter className="flex-row justify-end">
+            <Button
+              variant="outline"
+              onClick={clearNotifications}
+              disabled={notifications.length === 0}
+            >
+              Clear all
+            </Button>
+            <Button onClick={acknowledgeAll} disabled={unreadCount === 0}>
+              Acknowledge all
+            </Button>
+          </DrawerFooter>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+};
@@ -0,0 +1,104 @@
+"use client";
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import { formatTimestamp } from "@/lib/format";
+import {
+  DemandReading,
+  findPeak,
+  loadDurationCurve,
+  loadFactor,
+} from "@/lib/peak-demand";
+
+export const formatLoadFactor = (value: number | null) =>
+  value === null ? "N/A" : `${(value * 100).toFixed(1)}%`;
+
+// Sorted demand against the share of time; `limit` draws a capacity line
+export const LoadDurationChart = ({
+  values,
+  limit,
+}: {
+  values: number[];
+  limit?: number | null;
+}) => (
+  <ResponsiveContainer width="100%" height="100%">
+    <LineChart
+      data={loadDurationCurve(values)}
+      margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+    >
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis
+        dataKey="percent"
+        type="number"
+        domain={[0, 100]}
+        tickFormatter={(value) => `${value}%`}
+        label={{ value: "Share of time", position: "insideBottom", offset: -10 }}
+      />
+      <YAxis label={{ value: "Demand (kW)", angle: -90, position: "insideLeft" }} />
+      <Tooltip
+        formatter={(value: number) => [`${value.toFixed(2)} kW`, "Demand"]}
+        labelFormatter={(label: number) => `At or above for ${label.toFixed(1)}% of the time`}
+      />
+      <Line type="stepAfter" dataKey="demand" stroke="#8884d8" strokeWidth={2} dot={false} />
+      {limit != null && (
+        <ReferenceLine
+          y={limit}
+          stroke="#ef4444"
+          strokeDasharray="5 5"
+          label={{ value: "Capacity", position: "insideTopRight" }}
+        />
+      )}
+    </LineChart>
+  </ResponsiveContainer>
+);
+
+// Today's peak, load factor and load duration curve on the Home page
+export const PeakDemandPanel = ({ readings }: { readings: DemandReading[] }) => {
+  const peak = findPeak(readings);
+  const values = readings.map((reading) => reading.demand);
+  const average = values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+  return (
+    <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold mb-4">Peak Demand</h2>
+      {!peak ? (
+        <p className="text-sm text-muted-foreground">No readings yet today.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-3">
+            <div>
+              <p className="text-sm text-muted-foreground">Peak so far today</p>
+              <p className="text-lg font-semibold">{peak.demand.toFixed(2)} kW</p>
+              <p className="text-sm text-muted-foreground">
+                at {formatTimestamp(peak.timestamp)} (UTC+7)
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Average demand</p>
+              <p className="text-lg font-semibold">
+                {average !== null ? `${average.toFixed(2)} kW` : "N/A"}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Load factor</p>
+              <p className="text-lg font-semibold">{formatLoadFactor(loadFactor(values))}</p>
+            </div>
+          </div>
+          <div className="md:col-span-2 h-72">
+            <LoadDurationChart values={values} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
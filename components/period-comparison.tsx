@@ -0,0 +1,117 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import { percentChange, PeriodPoint } from "@/lib/period-comparison";
+
+export const NO_COMPARISON = "none";
+
+export const PeriodComparisonSelect = <T extends string>({
+  periods,
+  value,
+  onChange,
+}: {
+  periods: { id: T; label: string }[];
+  value: T | typeof NO_COMPARISON;
+  onChange: (value: T | typeof NO_COMPARISON) => void;
+}) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="w-56">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={NO_COMPARISON}>No comparison</SelectItem>
+      {periods.map((period) => (
+        <SelectItem key={period.id} value={period.id}>
+          Compare with {period.label.toLowerCase()}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const signed = (value: number, digits: number) =>
+  `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+
+// Higher consumption is shown in red, lower in green
+export const DeltaText = ({
+  current,
+  previous,
+  unit,
+}: {
+  current: number;
+  previous: number | undefined;
+  unit: string;
+}) => {
+  if (previous === undefined) return <span className="text-muted-foreground">N/A</span>;
+
+  const delta = current - previous;
+  const pct = percentChange(current, previous);
+  return (
+    <span className={delta > 0 ? "text-red-600" : "text-green-600"}>
+      {signed(delta, 2)} {unit}
+      {pct !== null && ` (${signed(pct, 1)}%)`}
+    </span>
+  );
+};
+
+export const PeriodComparisonTable = ({
+  points,
+  unit,
+  keyHeader,
+  previousLabel,
+}: {
+  points: PeriodPoint[];
+  unit: string;
+  keyHeader: string;
+  previousLabel: string;
+}) => (
+  <div className="mb-8">
+    <h2 className="text-xl font-semibold mb-4">Comparison with {previousLabel}</h2>
+    <div className="bg-white rounded-lg shadow-md overflow-hidden max-h-[480px] overflow-y-auto">
+      <Table>
+        <TableHeader className="bg-gray-100">
+          <TableRow>
+            <TableHead>{keyHeader}</TableHead>
+            <TableHead>Current</TableHead>
+            <TableHead>{previousLabel}</TableHead>
+            <TableHead>Change</TableHead>
+            <TableHead>Change (%)</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {points.map((point) => (
+            <TableRow key={point.key}>
+              <TableCell>{point.label}</TableCell>
+              <TableCell>
+                {point.current !== null ? `${point.current.toFixed(2)} ${unit}` : "N/A"}
+              </TableCell>
+              <TableCell>
+                {point.previous !== null ? `${point.previous.toFixed(2)} ${unit}` : "N/A"}
+              </TableCell>
+              <TableCell className={point.delta !== null && point.delta > 0 ? "text-red-600" : "text-green-600"}>
+                {point.delta !== null ? `${signed(point.delta, 2)} ${unit}` : "N/A"}
+              </TableCell>
+              <TableCell className={point.delta !== null && point.delta > 0 ? "text-red-600" : "text-green-600"}>
+                {point.deltaPct !== null ? `${signed(point.deltaPct, 1)}%` : "N/A"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  </div>
+);
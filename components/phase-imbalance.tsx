@@ -0,0 +1,169 @@
+"use client";
+
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import { MonthlyData } from "@/lib/elisa-schemas";
+import { formatDate } from "@/lib/format";
+import {
+  dailyImbalance,
+  PHASES,
+  summarizeImbalance,
+  timestampImbalance,
+} from "@/lib/phase-imbalance";
+
+export const PhaseImbalancePanel = ({
+  data,
+  limit,
+  onLimitChange,
+}: {
+  data: MonthlyData;
+  limit: number;
+  onLimitChange: (limit: number) => void;
+}) => {
+  const readings = timestampImbalance(data, limit);
+  const days = dailyImbalance(data, limit);
+  const summary = summarizeImbalance(days);
+
+  const chartData = readings.map((point) => ({
+    date: formatDate(point.timestamp),
+    imbalance: point.imbalance,
+    flagged: point.exceeds ? point.imbalance : null,
+  }));
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <h2 className="text-xl font-semibold">Phase Imbalance</h2>
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium">Limit (%)</label>
+          <input
+            type="number"
+            value={limit}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (Number.isFinite(value) && value >= 0) onLimitChange(value);
+            }}
+            className="p-2 border rounded-md w-24"
+            min={0}
+            step={0.5}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-white p-4 rounded-lg shadow-md">
+          <h3 className="font-semibold">Days Over Limit</h3>
+          <p className={`text-lg ${summary.flagged > 0 ? "text-red-600" : ""}`}>
+            {summary.flagged} of {days.length}
+          </p>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-md">
+          <h3 className="font-semibold">Average Imbalance</h3>
+          <p className="text-lg">
+            {summary.average !== null ? `${summary.average.toFixed(2)}%` : "N/A"}
+          </p>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-md">
+          <h3 className="font-semibold">Worst Day</h3>
+          <p className="text-lg">
+            {summary.worst ? formatDate(summary.worst.timestamp) : "N/A"}
+          </p>
+          {summary.worst && (
+            <p>
+              {summary.worst.imbalance!.toFixed(2)}% (phase {summary.worst.heaviest} heaviest)
+            </p>
+          )}
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-md">
+          <h3 className="font-semibold">Most Loaded Phase</h3>
+          {PHASES.map((phase) => (
+            <p key={phase}>
+              <span className="font-medium">Phase {phase}: </span>
+              {summary.heaviestCounts[phase]} days
+            </p>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+        <h2 className="text-xl font-semibold mb-4">Imbalance per Reading</h2>
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart
+              data={chartData}
+              margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis label={{ value: "Imbalance (%)", angle: -90, position: "insideLeft" }} />
+              <Tooltip formatter={(value: number) => `${value.toFixed(2)}%`} />
+              <Legend />
+              <ReferenceLine
+                y={limit}
+                stroke="#ef4444"
+                strokeDasharray="5 5"
+                label={{ value: `Limit ${limit}%`, position: "insideTopRight" }}
+              />
+              <Line
+                type="monotone"
+                dataKey="imbalance"
+                stroke="#8884d8"
+                strokeWidth={2}
+                dot={false}
+                name="Imbalance"
+              />
+              <Scatter dataKey="flagged" fill="#ef4444" name="Over limit" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <Table>
+          <TableHeader className="bg-gray-100">
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Phase 1 (R)</TableHead>
+              <TableHead>Phase 2 (S)</TableHead>
+              <TableHead>Phase 3 (T)</TableHead>
+              <TableHead>Heaviest</TableHead>
+              <TableHead>Imbalance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {days.map((day) => (
+              <TableRow key={day.timestamp} className={day.exceeds ? "bg-red-50" : ""}>
+                <TableCell>{formatDate(day.timestamp)}</TableCell>
+                <TableCell>{day.R.toFixed(2)} kWh</TableCell>
+                <TableCell>{day.S.toFixed(2)} kWh</TableCell>
+                <TableCell>{day.T.toFixed(2)} kWh</TableCell>
+                <TableCell>Phase {day.heaviest}</TableCell>
+                <TableCell className={day.exceeds ? "text-red-600 font-semibold" : ""}>
+                  {day.imbalance !== null ? `${day.imbalance.toFixed(2)}%` : "N/A"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
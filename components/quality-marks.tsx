@@ -0,0 +1,62 @@
+"use client";
+
+import { ReferenceArea } from "recharts";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import {
+  issueCounts,
+  QUALITY_ISSUES,
+  QualityIssue,
+  qualityColor,
+  QualityReport,
+} from "@/lib/data-quality";
+
+export const formatCompleteness = (value: number | null) =>
+  value === null ? "N/A" : `${(value * 100).toFixed(1)}%`;
+
+// Recharts only picks up reference areas that are direct children of the
+// chart, so this is a render helper rather than a component. `label` maps a
+// reading timestamp to its category on the x-axis.
+export const qualityAreas = (
+  issues: QualityIssue[],
+  label: (timestamp: string) => string,
+) =>
+  issues.map((issue) => (
+    <ReferenceArea
+      key={`${issue.kind}-${issue.first}-${issue.last}`}
+      x1={label(issue.start)}
+      x2={label(issue.end)}
+      fill={qualityColor(issue.kind)}
+      fillOpacity={0.2}
+      stroke={qualityColor(issue.kind)}
+      strokeOpacity={0.5}
+      strokeDasharray="3 3"
+      ifOverflow="extendDomain"
+    />
+  ));
+
+// One line under a chart: the issue counts by kind, or that none were found
+export const QualitySummary = ({ report }: { report: QualityReport | null }) => {
+  if (!report || report.readings === 0) return null;
+  const counts = issueCounts(report.issues);
+  const kinds = QUALITY_ISSUES.filter((kind) => counts[kind.id] > 0);
+
+  return kinds.length === 0 ? (
+    <p className="flex items-center gap-1 mt-2 text-sm text-muted-foreground">
+      <CheckCircle2 className="h-4 w-4 text-green-600" />
+      No data quality issues in {report.readings} readings
+    </p>
+  ) : (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-sm text-gray-600">
+      <span className="flex items-center gap-1 font-medium">
+        <AlertTriangle className="h-4 w-4 text-yellow-600" />
+        Data quality {formatCompleteness(report.completeness)}
+      </span>
+      {kinds.map((kind) => (
+        <span key={kind.id} className="flex items-center gap-1" title={kind.description}>
+          <span className="h-3 w-3 rounded-sm" style={{ background: kind.color }} />
+          {kind.label}: {counts[kind.id]}
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+"use client";
+
+import { CloudOff, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useConnectivity } from "@/contexts/connectivity-context";
+
+export const StaleBanner = () => {
+  const { online, staleSince, retry } = useConnectivity();
+  if (online && staleSince === null) return null;
+
+  return (
+    <div className="mx-6 mt-4 flex flex-wrap items-center justify-between gap-2 rounded-lg border border-yellow-300 bg-yellow-50 px-4 py-2 text-sm text-yellow-800 print:hidden">
+      <span className="flex items-center gap-2">
+        <CloudOff className="h-4 w-4" />
+        {staleSince !== null
+          ? `ELISA is unreachable. Showing cached data, stale since ${new Date(staleSince).toLocaleString()}.`
+          : "You are offline. Data will refresh when the connection returns."}
+      </span>
+      {staleSince !== null && (
+        <Button variant="outline" size="sm" onClick={retry}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Retry
+        </Button>
+      )}
+    </div>
+  );
+};
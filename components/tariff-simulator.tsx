@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceArea,
+} from "recharts";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "@/components/ui/table";
+import { intervalHours } from "@/lib/anomaly";
+import { totalPhases } from "@/lib/daily-comparison";
+import { DailyData } from "@/lib/elisa-schemas";
+import { formatTimestamp } from "@/lib/format";
+import {
+  computeCost,
+  CostBreakdown,
+  isPeakHour,
+  shiftLoad,
+  Tariff,
+  TARIFF_PRESETS,
+} from "@/lib/tariff";
+
+const TARIFF_FIELDS: { key: keyof Tariff; label: string; step: number }[] = [
+  { key: "lwbpRate", label: "LWBP rate (Rp/kWh)", step: 0.01 },
+  { key: "wbpRate", label: "WBP rate (Rp/kWh)", step: 0.01 },
+  { key: "wbpStartHour", label: "WBP start hour", step: 1 },
+  { key: "wbpEndHour", label: "WBP end hour", step: 1 },
+  { key: "demandCharge", label: "Demand charge (Rp/kVA/month)", step: 100 },
+  { key: "contractedKva", label: "Contracted kVA (0 = measured peak)", step: 1 },
+  { key: "powerFactor", label: "Power factor", step: 0.01 },
+  { key: "lightingTax", label: "PPJ (fraction)", step: 0.01 },
+  { key: "vat", label: "PPN (fraction)", step: 0.01 },
+];
+
+const BREAKDOWN_ROWS: { key: keyof CostBreakdown; label: string; unit: string }[] = [
+  { key: "wbpKwh", label: "WBP energy", unit: "kWh" },
+  { key: "lwbpKwh", label: "LWBP energy", unit: "kWh" },
+  { key: "peakKw", label: "Peak demand", unit: "kW" },
+  { key: "billedKva", label: "Billed capacity", unit: "kVA" },
+  { key: "wbpCost", label: "WBP cost", unit: "Rp" },
+  { key: "lwbpCost", label: "LWBP cost", unit: "Rp" },
+  { key: "demandCost", label: "Demand charge (prorated)", unit: "Rp" },
+  { key: "tax", label: "Taxes", unit: "Rp" },
+  { key: "total", label: "Total", unit: "Rp" },
+];
+
+// Recomputes the day's cost from the phase energy series under an editable
+// tariff, and compares it with a what-if scenario
+export const TariffSimulator = ({ data }: { data: DailyData }) => {
+  const [tariff, setTariff] = useState<Tariff>(TARIFF_PRESETS[0]);
+  const [scenarioId, setScenarioId] = useState(TARIFF_PRESETS[0].id);
+  const [shiftPercent, setShiftPercent] = useState(0);
+
+  const readings = data.chart_data.map((item) => ({
+    timestamp: item.timestamp,
+    energy: totalPhases(item),
+  }));
+  const hours = intervalHours(readings.map((r) => r.timestamp));
+
+  // The scenario keeps the edited tariff unless another class is picked
+  const scenarioTariff =
+    scenarioId === tariff.id
+      ? tariff
+      : { ...TARIFF_PRESETS.find((t) => t.id === scenarioId)!, contractedKva: tariff.contractedKva };
+  const shifted = shiftLoad(readings, scenarioTariff, { fraction: shiftPercent / 100 });
+
+  const current = computeCost(readings, tariff, hours, 1);
+  const scenario = computeCost(shifted, scenarioTariff, hours, 1);
+
+  const chartData = readings.map((r, index) => ({
+    time: formatTimestamp(r.timestamp),
+    current: r.energy,
+    scenario: shifted[index].energy,
+    peak: isPeakHour(r.timestamp, tariff),
+  }));
+  const peakTimes = chartData.filter((row) => row.peak).map((row) => row.time);
+
+  const updateField = (key: keyof Tariff, value: string) => {
+    const number = Number(value);
+    if (!Number.isFinite(number)) return;
+    setTariff({ ...tariff, [key]: number });
+  };
+
+  const selectPreset = (id: string) => {
+    const preset = TARIFF_PRESETS.find((t) => t.id === id)!;
+    setTariff(preset);
+    setScenarioId(preset.id);
+  };
+
+  return (
+    <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold mb-4">Tariff Cost Model</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">Tariff class</label>
+          <Select value={tariff.id} onValueChange={selectPreset}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TARIFF_PRESETS.map((preset) => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">What-if tariff class</label>
+          <Select value={scenarioId} onValueChange={setScenarioId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TARIFF_PRESETS.map((preset) => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium mb-1">
+            Shift {shiftPercent}% of WBP load to LWBP
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={shiftPercent}
+            onChange={(e) => setShiftPercent(Number(e.target.value))}
+            className="mt-3"
+          />
+        </div>
+      </div>
+
+      <details className="mb-4">
+        <summary className="cursor-pointer text-sm font-medium">Tariff parameters</summary>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mt-4">
+          {TARIFF_FIELDS.map((field) => (
+            <div key={field.key} className="flex flex-col">
+              <label className="text-sm font-medium mb-1">{field.label}</label>
+              <input
+                type="number"
+                value={tariff[field.key] as number}
+                onChange={(e) => updateField(field.key, e.target.value)}
+                className="p-2 border rounded-md"
+                min={0}
+                step={field.step}
+              />
+            </div>
+          ))}
+        </div>
+      </details>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="time" />
+              <YAxis label={{ value: "Energy (kWh)", angle: -90, position: "insideLeft" }} />
+              <Tooltip formatter={(value: number) => `${value.toFixed(2)} kWh`} />
+              <Legend />
+              {peakTimes.length > 0 && (
+                <ReferenceArea
+                  x1={peakTimes[0]}
+                  x2={peakTimes[peakTimes.length - 1]}
+                  fill="#f59e0b"
+                  fillOpacity={0.15}
+                  label={{ value: "WBP", position: "insideTop" }}
+                />
+              )}
+              <Line type="monotone" dataKey="current" stroke="#8884d8" strokeWidth={2} dot={false} name="Current" />
+              <Line type="monotone" dataKey="scenario" stroke="#82ca9d" strokeWidth={2} strokeDasharray="5 5" dot={false} name="What-if" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <Table>
+          <TableHeader className="bg-gray-100">
+            <TableRow>
+              <TableHead></TableHead>
+              <TableHead>Current</TableHead>
+              <TableHead>What-if</TableHead>
+              <TableHead>Difference</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {BREAKDOWN_ROWS.map((row) => {
+              const difference = scenario[row.key] - current[row.key];
+              return (
+                <TableRow key={row.key} className={row.key === "total" ? "font-semibold" : ""}>
+                  <TableCell>{row.label}</TableCell>
+                  <TableCell>{current[row.key].toFixed(2)} {row.unit}</TableCell>
+                  <TableCell>{scenario[row.key].toFixed(2)} {row.unit}</TableCell>
+                  <TableCell className={difference > 0 ? "text-red-600" : difference < 0 ? "text-green-600" : ""}>
+                    {difference > 0 ? "+" : ""}
+                    {difference.toFixed(2)} {row.unit}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            <TableRow>
+              <TableCell>Reported by ELISA</TableCell>
+              <TableCell colSpan={3}>Rp{data.today_data.total_cost.toFixed(2)}</TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import {
+  DEFAULT_OPERATING_HOURS,
+  DEFAULT_TARGET_PERCENT,
+  DEFAULT_WASTE_RATE,
+  HourlyLoad,
+  isAfterHours,
+  OperatingHours,
+  wasteProfile,
+} from "@/lib/waste";
+
+export interface WasteSettings {
+  hours: OperatingHours;
+  targetPercent: number;
+  // Rp per kWh
+  rate: number;
+}
+
+export const DEFAULT_WASTE_SETTINGS: WasteSettings = {
+  hours: DEFAULT_OPERATING_HOURS,
+  targetPercent: DEFAULT_TARGET_PERCENT,
+  rate: DEFAULT_WASTE_RATE,
+};
+
+export const formatRupiah = (value: number) =>
+  `Rp${value.toLocaleString("id-ID", { maximumFractionDigits: 0 })}`;
+
+export const WasteSettingsFields = ({
+  settings,
+  onChange,
+}: {
+  settings: WasteSettings;
+  onChange: (settings: WasteSettings) => void;
+}) => {
+  const number = (value: string, min: number, max: number) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : null;
+  };
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+      <div className="flex flex-col">
+        <label className="text-sm font-medium mb-1">Weekday opening hour</label>
+        <input
+          type="number"
+          value={settings.hours.startHour}
+          onChange={(e) => {
+            const startHour = number(e.target.value, 0, 23);
+            if (startHour !== null) onChange({ ...settings, hours: { ...settings.hours, startHour } });
+          }}
+          className="p-2 border rounded-md"
+          min={0}
+          max={23}
+        />
+      </div>
+      <div className="flex flex-col">
+        <label className="text-sm font-medium mb-1">Weekday closing hour</label>
+        <input
+          type="number"
+          value={settings.hours.endHour}
+          onChange={(e) => {
+            const endHour = number(e.target.value, 1, 24);
+            if (endHour !== null) onChange({ ...settings, hours: { ...settings.hours, endHour } });
+          }}
+          className="p-2 border rounded-md"
+          min={1}
+          max={24}
+        />
+      </div>
+      <div className="flex flex-col">
+        <label className="text-sm font-medium mb-1">
+          Target baseload ({settings.targetPercent}% of current)
+        </label>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={settings.targetPercent}
+          onChange={(e) => onChange({ ...settings, targetPercent: Number(e.target.value) })}
+          className="mt-3"
+        />
+      </div>
+      <div className="flex flex-col">
+        <label className="text-sm font-medium mb-1">Energy rate (Rp/kWh)</label>
+        <input
+          type="number"
+          value={settings.rate}
+          onChange={(e) => {
+            const rate = number(e.target.value, 0, Infinity);
+            if (rate !== null) onChange({ ...settings, rate });
+          }}
+          className="p-2 border rounded-md"
+          min={0}
+          step={0.01}
+        />
+      </div>
+    </div>
+  );
+};
+
+// Baseload and after-hours energy of the selected day, from the hourly
+// totals of its readings
+export const WastePanel = ({ loads }: { loads: HourlyLoad[] }) => {
+  const [settings, setSettings] = useState(DEFAULT_WASTE_SETTINGS);
+  const profile = wasteProfile(loads, settings.hours, settings.targetPercent);
+
+  const chartData = loads.map((load) => ({
+    hour: `${load.hour}:00`,
+    energy: load.energy,
+    afterHours: isAfterHours(load, settings.hours),
+  }));
+
+  return (
+    <div className="mb-8 bg-white p-4 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold mb-4">Baseload &amp; After-hours Use</h2>
+      <WasteSettingsFields settings={settings} onChange={setSettings} />
+      {!profile ? (
+        <p className="text-sm text-muted-foreground">No readings for this day.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-3">
+            <div>
+              <p className="text-sm text-muted-foreground">Estimated baseload</p>
+              <p className="text-lg font-semibold">{profile.baseload.toFixed(2)} kWh/hour</p>
+              <p className="text-sm text-muted-foreground">
+                Target {profile.targetBaseload.toFixed(2)} kWh/hour
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">After hours</p>
+              <p className="text-lg font-semibold">
+                {profile.afterHoursKwh.toFixed(2)} kWh ({(profile.afterHoursShare * 100).toFixed(1)}%)
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Operating hours {profile.operatingKwh.toFixed(2)} kWh
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Avoidable at target</p>
+              <p className="text-lg font-semibold text-red-600">
+                {profile.savingsKwh.toFixed(2)} kWh
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {formatRupiah(profile.savingsKwh * settings.rate)} this day
+              </p>
+            </div>
+          </div>
+          <div className="md:col-span-2 h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="hour" />
+                <YAxis label={{ value: "kWh/hour", angle: -90, position: "insideLeft" }} />
+                <Tooltip formatter={(value: number) => `${value.toFixed(2)} kWh`} />
+                <Legend />
+                <Bar dataKey="energy" name="Energy (after hours in red)" fill="#8884d8">
+                  {chartData.map((row) => (
+                    <Cell key={row.hour} fill={row.afterHours ? "#ef4444" : "#8884d8"} />
+                  ))}
+                </Bar>
+                <ReferenceLine
+                  y={profile.baseload}
+                  stroke="#1f2937"
+                  strokeDasharray="5 5"
+                  label={{ value: "Baseload", position: "insideTopRight" }}
+                />
+                <ReferenceLine
+                  y={profile.targetBaseload}
+                  stroke="#10b981"
+                  strokeDasharray="5 5"
+                  label={{ value: "Target", position: "insideBottomRight" }}
+                />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
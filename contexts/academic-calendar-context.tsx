@@ -0,0 +1,60 @@
+"use client";
+
+import React, { createContext, useContext } from "react";
+import { usePersistedState } from "@/hooks/use-persisted-state";
+import {
+  CalendarEvent,
+  calendarEventsSchema,
+  DEFAULT_ACADEMIC_CALENDAR,
+} from "@/lib/academic-calendar";
+
+const STORAGE_KEY = "elisa-academic-calendar";
+
+interface AcademicCalendarContextType {
+  events: CalendarEvent[];
+  setEvents: (events: CalendarEvent[]) => void;
+  resetEvents: () => void;
+}
+
+const AcademicCalendarContext = createContext<
+  AcademicCalendarContextType | undefined
+>(undefined);
+
+export function AcademicCalendarProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [events, setEvents] = usePersistedState<CalendarEvent[]>(
+    STORAGE_KEY,
+    calendarEventsSchema,
+    DEFAULT_ACADEMIC_CALENDAR,
+  );
+
+  const value: AcademicCalendarContextType = {
+    events,
+    setEvents: (next) =>
+      setEvents(
+        [...next].sort(
+          (a, b) => a.start.localeCompare(b.start) || a.end.localeCompare(b.end),
+        ),
+      ),
+    resetEvents: () => setEvents(DEFAULT_ACADEMIC_CALENDAR),
+  };
+
+  return (
+    <AcademicCalendarContext.Provider value={value}>
+      {children}
+    </AcademicCalendarContext.Provider>
+  );
+}
+
+export function useAcademicCalendar() {
+  const context = useContext(AcademicCalendarContext);
+  if (context === undefined) {
+    throw new Error(
+      "useAcademicCalendar must be used within an AcademicCalendarProvider",
+    );
+  }
+  return context;
+}
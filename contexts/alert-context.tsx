@@ -0,0 +1,261 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+} from "react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { toApiFilters } from "@/contexts/energy-filter-context";
+import { usePersistedState } from "@/hooks/use-persisted-state";
+import {
+  AlertNotification,
+  alertNotificationSchema,
+  AlertRule,
+  alertRuleSchema,
+  alertStateSchema,
+  EMPTY_ALERT_STATE,
+  evaluateAlerts,
+  scopeKey,
+  snoozeRule,
+} from "@/lib/alerts";
+import { ElisaFilters, getNowData } from "@/lib/elisa-client";
+import { NowData, nowDataSchema } from "@/lib/elisa-schemas";
+import { toDateInput } from "@/lib/format";
+import { applyLiveUpdate, liveChannel, subscribeLive } from "@/lib/live";
+
+const STORAGE_KEY = "elisa-alerts";
+const MAX_NOTIFICATIONS = 100;
+const POLL_INTERVAL = 1 * 60 * 1000;
+
+const storedAlertsSchema = z.object({
+  rules: z.array(alertRuleSchema).default([]),
+  notifications: z.array(alertNotificationSchema).default([]),
+  state: alertStateSchema.default(EMPTY_ALERT_STATE),
+});
+
+type StoredAlerts = z.infer<typeof storedAlertsSchema>;
+
+const EMPTY_STORED_ALERTS: StoredAlerts = {
+  rules: [],
+  notifications: [],
+  state: EMPTY_ALERT_STATE,
+};
+
+interface AlertContextType {
+  rules: AlertRule[];
+  notifications: AlertNotification[];
+  unreadCount: number;
+  addRule: (rule: Omit<AlertRule, "id" | "createdAt" | "enabled">) => void;
+  removeRule: (id: string) => void;
+  toggleRule: (id: string) => void;
+  isRuleSnoozed: (id: string) => string | null;
+  acknowledge: (id: string) => void;
+  acknowledgeAll: () => void;
+  snooze: (id: string, minutes: number) => void;
+  clearNotifications: () => void;
+}
+
+const AlertContext = createContext<AlertContextType | undefined>(undefined);
+
+const newId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export function AlertProvider({ children }: { children: React.ReactNode }) {
+  const [stored, setStored, loaded] = usePersistedState(
+    STORAGE_KEY,
+    storedAlertsSchema,
+    EMPTY_STORED_ALERTS,
+  );
+  const { rules, notifications, state: alertState } = stored;
+
+  // The poller reads the latest engine state without restarting on every change
+  const alertStateRef = useRef(alertState);
+  alertStateRef.current = alertState;
+
+  // Follow /api/now once per distinct scope of the enabled rules, on the same
+  // live channel as the home page
+  useEffect(() => {
+    const enabled = rules.filter((rule) => rule.enabled);
+    if (!loaded || enabled.length === 0) return;
+
+    let cancelled = false;
+    const date = toDateInput(new Date());
+    const scopes = new Map(
+      enabled.map((rule) => [scopeKey(rule.scope), toApiFilters(rule.scope)]),
+    );
+    // Latest response per scope; scopes still loading keep their state
+    const readings: Record<string, NowData> = {};
+
+    const evaluate = () => {
+      const result = evaluateAlerts(
+        rules,
+        readings,
+        alertStateRef.current,
+        new Date(),
+      );
+      // Keep the ref current until the stored state catches up, so a
+      // breach reported by two scopes in a row does not notify twice
+      alertStateRef.current = result.state;
+      setStored((prev) => ({
+        ...prev,
+        state: result.state,
+        notifications: [...result.notifications.reverse(), ...prev.notifications].slice(
+          0,
+          MAX_NOTIFICATIONS,
+        ),
+      }));
+      result.notifications.forEach((notification) =>
+        toast.warning(notification.scopeLabel, {
+          description: notification.message,
+        }),
+      );
+    };
+
+    const fetchScope = (key: string, filters: ElisaFilters) =>
+      getNowData(date, filters).then((data) => {
+        readings[key] = data;
+      });
+
+    Promise.allSettled(
+      Array.from(scopes.entries()).map(([key, filters]) => fetchScope(key, filters)),
+    ).then((results) => {
+      if (cancelled) return;
+      results.forEach((result) => {
+        if (result.status === "rejected") {
+          console.error("Error fetching alert data:", result.reason);
+        }
+      });
+      evaluate();
+    });
+
+    const unsubscribes = Array.from(scopes.entries()).map(([key, filters]) =>
+      subscribeLive({
+        channel: liveChannel("/api/now", { date, ...filters }),
+        pollInterval: POLL_INTERVAL,
+        poll: () =>
+          fetchScope(key, filters)
+            .then(() => !cancelled && evaluate())
+            .catch((err) => console.error("Error fetching alert data:", err)),
+        onMessage: (message) => {
+          const updated = applyLiveUpdate(
+            readings[key] ?? null,
+            message,
+            nowDataSchema.partial(),
+          );
+          if (!updated) return;
+          readings[key] = updated;
+          evaluate();
+        },
+      }),
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [loaded, rules, setStored]);
+
+  const addRule = useCallback(
+    (rule: Omit<AlertRule, "id" | "createdAt" | "enabled">) => {
+      setStored((prev) => ({
+        ...prev,
+        rules: [
+          ...prev.rules,
+          {
+            ...rule,
+            id: newId(),
+            enabled: true,
+            createdAt: new Date().toISOString(),
+          },
+        ],
+      }));
+    },
+    [setStored],
+  );
+
+  const removeRule = useCallback((id: string) => {
+    setStored((prev) => ({
+      ...prev,
+      rules: prev.rules.filter((rule) => rule.id !== id),
+      state: {
+        active: prev.state.active.filter((ruleId) => ruleId !== id),
+        snoozedUntil: Object.fromEntries(
+          Object.entries(prev.state.snoozedUntil).filter(([ruleId]) => ruleId !== id),
+        ),
+      },
+    }));
+  }, [setStored]);
+
+  const toggleRule = useCallback((id: string) => {
+    setStored((prev) => ({
+      ...prev,
+      rules: prev.rules.map((rule) =>
+        rule.id === id ? { ...rule, enabled: !rule.enabled } : rule,
+      ),
+    }));
+  }, [setStored]);
+
+  const snooze = useCallback(
+    (id: string, minutes: number) => {
+      const notification = notifications.find((n) => n.id === id);
+      if (!notification) return;
+
+      const until = new Date(Date.now() + minutes * 60 * 1000);
+      setStored((prev) => ({
+        ...prev,
+        state: snoozeRule(prev.state, notification.ruleId, until),
+        notifications: prev.notifications.map((n) =>
+          n.id === id ? { ...n, snoozedUntil: until.toISOString() } : n,
+        ),
+      }));
+    },
+    [notifications, setStored],
+  );
+
+  const now = new Date();
+  const value: AlertContextType = {
+    rules,
+    notifications,
+    unreadCount: notifications.filter(
+      (n) =>
+        !n.acknowledged && !(n.snoozedUntil && new Date(n.snoozedUntil) > now),
+    ).length,
+    addRule,
+    removeRule,
+    toggleRule,
+    isRuleSnoozed: (id) => {
+      const until = alertState.snoozedUntil[id];
+      return until && new Date(until) > now ? until : null;
+    },
+    acknowledge: (id) =>
+      setStored((prev) => ({
+        ...prev,
+        notifications: prev.notifications.map((n) =>
+          n.id === id ? { ...n, acknowledged: true } : n,
+        ),
+      })),
+    acknowledgeAll: () =>
+      setStored((prev) => ({
+        ...prev,
+        notifications: prev.notifications.map((n) => ({ ...n, acknowledged: true })),
+      })),
+    snooze,
+    clearNotifications: () => setStored((prev) => ({ ...prev, notifications: [] })),
+  };
+
+  return (
+    <AlertContext.Provider value={value}>{children}</AlertContext.Provider>
+  );
+}
+
+export function useAlerts() {
+  const context = useContext(AlertContext);
+  if (context === undefined) {
+    throw new Error("useAlerts must be used within an AlertProvider");
+  }
+  return context;
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import { pingElisa } from "@/lib/elisa-client";
+import { clearStale, staleSince, subscribeStale } from "@/lib/offline-cache";
+
+const PING_INTERVAL = 60 * 1000;
+
+interface ConnectivityContextType {
+  online: boolean;
+  // When the oldest cached response on screen was stored, null when live
+  staleSince: number | null;
+  // Bumped when the backend is reachable again; pages refetch on change
+  revision: number;
+  retry: () => void;
+}
+
+const ConnectivityContext = createContext<ConnectivityContextType | undefined>(
+  undefined,
+);
+
+export function ConnectivityProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [online, setOnline] = useState(true);
+  const [stale, setStale] = useState<number | null>(null);
+  const [revision, setRevision] = useState(0);
+
+  const reconcile = useCallback(() => {
+    clearStale();
+    setRevision((value) => value + 1);
+  }, []);
+
+  const retry = useCallback(() => {
+    pingElisa().then((reachable) => {
+      if (reachable) reconcile();
+    });
+  }, [reconcile]);
+
+  useEffect(() => subscribeStale(() => setStale(staleSince())), []);
+
+  useEffect(() => {
+    setOnline(navigator.onLine);
+    const handleOnline = () => {
+      setOnline(true);
+      retry();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [retry]);
+
+  // The browser can be online while the backend is not, so keep probing
+  // while cached data is on screen
+  useEffect(() => {
+    if (stale === null) return;
+    const intervalId = setInterval(retry, PING_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [stale, retry]);
+
+  // The service worker keeps the app shell available offline
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) {
+      return;
+    }
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((err) => console.error("Error registering service worker:", err));
+  }, []);
+
+  return (
+    <ConnectivityContext.Provider
+      value={{ online, staleSince: stale, revision, retry }}
+    >
+      {children}
+    </ConnectivityContext.Provider>
+  );
+}
+
+export function useConnectivity() {
+  const context = useContext(ConnectivityContext);
+  if (context === undefined) {
+    throw new Error(
+      "useConnectivity must be used within a ConnectivityProvider",
+    );
+  }
+  return context;
+}
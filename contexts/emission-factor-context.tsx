@@ -0,0 +1,56 @@
+"use client";
+
+import React, { createContext, useContext } from "react";
+import { usePersistedState } from "@/hooks/use-persisted-state";
+import {
+  DEFAULT_EMISSION_FACTORS,
+  EmissionFactor,
+  emissionFactorsSchema,
+} from "@/lib/emissions";
+
+const STORAGE_KEY = "elisa-emission-factors";
+
+interface EmissionFactorContextType {
+  factors: EmissionFactor[];
+  setFactors: (factors: EmissionFactor[]) => void;
+  resetFactors: () => void;
+}
+
+const EmissionFactorContext = createContext<
+  EmissionFactorContextType | undefined
+>(undefined);
+
+export function EmissionFactorProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [factors, setFactors] = usePersistedState<EmissionFactor[]>(
+    STORAGE_KEY,
+    emissionFactorsSchema,
+    DEFAULT_EMISSION_FACTORS,
+  );
+
+  const value: EmissionFactorContextType = {
+    factors,
+    setFactors: (next) =>
+      setFactors([...next].sort((a, b) => a.year - b.year)),
+    resetFactors: () => setFactors(DEFAULT_EMISSION_FACTORS),
+  };
+
+  return (
+    <EmissionFactorContext.Provider value={value}>
+      {children}
+    </EmissionFactorContext.Provider>
+  );
+}
+
+export function useEmissionFactors() {
+  const context = useContext(EmissionFactorContext);
+  if (context === undefined) {
+    throw new Error(
+      "useEmissionFactors must be used within an EmissionFactorProvider",
+    );
+  }
+  return context;
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {
+  ElisaFilters,
+  getFakultasOptions,
+  getGedungOptions,
+  getLantaiOptions,
+  toApiFilters,
+} from "@/lib/elisa-client";
+import { FilterOption } from "@/lib/elisa-schemas";
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface EnergyFilters {
+  fakultas: string;
+  gedung: string;
+  lantai: string;
+  date: string;
+  month: string;
+  dateRange: DateRange;
+}
+
+export interface FilterLabels {
+  fakultas: string;
+  gedung: string;
+  lantai: string;
+}
+
+interface EnergyFilterContextType extends EnergyFilters {
+  fakultasOptions: FilterOption[];
+  gedungOptions: FilterOption[];
+  lantaiOptions: FilterOption[];
+  // Display labels of the current selection ("All Gedung" etc. for "all")
+  filterLabels: FilterLabels;
+  // Filter values as the ELISA API expects them ("all" is sent as an empty string)
+  apiFilters: ElisaFilters;
+  queryString: string;
+  setFakultas: (fakultas: string) => void;
+  setGedung: (gedung: string) => void;
+  setLantai: (lantai: string) => void;
+  setDate: (date: string) => void;
+  setMonth: (month: string) => void;
+  setDateRange: (dateRange: DateRange) => void;
+  updateFilters: (patch: Partial<EnergyFilters>) => void;
+  resetFilters: () => void;
+}
+
+const EnergyFilterContext = createContext<EnergyFilterContextType | undefined>(
+  undefined,
+);
+
+const labelOf = (options: FilterOption[], value: string, all: string) =>
+  value === "all"
+    ? all
+    : options.find((option) => option.value === value)?.label ?? value;
+
+export { toApiFilters, toApiValue } from "@/lib/elisa-client";
+
+const defaultFilters = (): EnergyFilters => {
+  const today = new Date();
+  const start = new Date(today);
+  start.setDate(today.getDate() - 6);
+
+  return {
+    fakultas: "all",
+    gedung: "all",
+    lantai: "all",
+    date: today.toISOString().split("T")[0],
+    month: today.toISOString().slice(0, 7),
+    dateRange: {
+      start: start.toISOString().split("T")[0],
+      end: today.toISOString().split("T")[0],
+    },
+  };
+};
+
+const parseFilters = (params: URLSearchParams): EnergyFilters => {
+  const defaults = defaultFilters();
+  const fakultas = params.get("fakultas") || defaults.fakultas;
+  const gedung = fakultas === "all" ? "all" : params.get("gedung") || "all";
+  const lantai = gedung === "all" ? "all" : params.get("lantai") || "all";
+
+  return {
+    fakultas,
+    gedung,
+    lantai,
+    date: params.get("date") || defaults.date,
+    month: params.get("month") || defaults.month,
+    dateRange: {
+      start: params.get("start") || defaults.dateRange.start,
+      end: params.get("end") || defaults.dateRange.end,
+    },
+  };
+};
+
+// Only values that differ from the defaults end up in the URL
+const serializeFilters = (filters: EnergyFilters) => {
+  const defaults = defaultFilters();
+  const params = new URLSearchParams();
+
+  if (filters.fakultas !== "all") params.set("fakultas", filters.fakultas);
+  if (filters.gedung !== "all") params.set("gedung", filters.gedung);
+  if (filters.lantai !== "all") params.set("lantai", filters.lantai);
+  if (filters.date !== defaults.date) params.set("date", filters.date);
+  if (filters.month !== defaults.month) params.set("month", filters.month);
+  if (
+    filters.dateRange.start !== defaults.dateRange.start ||
+    filters.dateRange.end !== defaults.dateRange.end
+  ) {
+    params.set("start", filters.dateRange.start);
+    params.set("end", filters.dateRange.end);
+  }
+
+  return params.toString();
+};
+
+export function EnergyFilterProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const filters = useMemo(
+    () => parseFilters(new URLSearchParams(searchParams.toString())),
+    [searchParams],
+  );
+  const queryString = useMemo(() => serializeFilters(filters), [filters]);
+  const { fakultas, gedung, lantai } = filters;
+  const apiFilters = useMemo(
+    () => toApiFilters({ fakultas, gedung, lantai }),
+    [fakultas, gedung, lantai],
+  );
+
+  const [fakultasOptions, setFakultasOptions] = useState<FilterOption[]>([]);
+  const [gedungOptions, setGedungOptions] = useState<FilterOption[]>([]);
+  const [lantaiOptions, setLantaiOptions] = useState<FilterOption[]>([]);
+
+  // Option lists rarely change, so each request is only made once per session
+  const optionsCache = useRef(new Map<string, Promise<FilterOption[]>>());
+
+  const cachedOptions = useCallback(
+    (key: string, load: () => Promise<FilterOption[]>) => {
+      const cached = optionsCache.current.get(key);
+      if (cached) return cached;
+
+      const request = load().catch((err) => {
+        optionsCache.current.delete(key);
+        throw err;
+      });
+      optionsCache.current.set(key, request);
+      return request;
+    },
+    [],
+  );
+
+  // Fetch initial fakultas options
+  useEffect(() => {
+    cachedOptions("fakultas", () => getFakultasOptions())
+      .then(setFakultasOptions)
+      .catch((err) => console.error("Error fetching fakultas:", err));
+  }, [cachedOptions]);
+
+  // Fetch gedung options when fakultas changes
+  useEffect(() => {
+    if (fakultas === "all") {
+      setGedungOptions([]);
+      return;
+    }
+
+    let cancelled = false;
+    cachedOptions(`gedung:${fakultas}`, () => getGedungOptions(fakultas))
+      .then((options) => {
+        if (!cancelled) setGedungOptions(options);
+      })
+      .catch((err) => console.error("Error fetching gedung:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fakultas, cachedOptions]);
+
+  // Fetch lantai options when gedung changes
+  useEffect(() => {
+    if (fakultas === "all" || gedung === "all") {
+      setLantaiOptions([]);
+      return;
+    }
+
+    let cancelled = false;
+    cachedOptions(`lantai:${fakultas}:${gedung}`, () =>
+      getLantaiOptions(fakultas, gedung),
+    )
+      .then((options) => {
+        if (!cancelled) setLantaiOptions(options);
+      })
+      .catch((err) => console.error("Error fetching lantai:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fakultas, gedung, cachedOptions]);
+
+  const updateFilters = useCallback(
+    (patch: Partial<EnergyFilters>) => {
+      const query = serializeFilters({ ...filters, ...patch });
+      router.replace(query ? `${pathname}?${query}` : pathname, {
+        scroll: false,
+      });
+    },
+    [filters, pathname, router],
+  );
+
+  const value: EnergyFilterContextType = {
+    ...filters,
+    fakultasOptions,
+    gedungOptions,
+    lantaiOptions,
+    filterLabels: {
+      fakultas: labelOf(fakultasOptions, fakultas, "All Fakultas"),
+      gedung: labelOf(gedungOptions, gedung, "All Gedung"),
+      lantai: labelOf(lantaiOptions, lantai, "All Lantai"),
+    },
+    apiFilters,
+    queryString,
+    // Changing a level resets every level below it
+    setFakultas: (fakultas) =>
+      updateFilters({ fakultas, gedung: "all", lantai: "all" }),
+    setGedung: (gedung) => updateFilters({ gedung, lantai: "all" }),
+    setLantai: (lantai) => updateFilters({ lantai }),
+    setDate: (date) => updateFilters({ date }),
+    setMonth: (month) => updateFilters({ month }),
+    setDateRange: (dateRange) => updateFilters({ dateRange }),
+    updateFilters,
+    resetFilters: () =>
+      updateFilters({ fakultas: "all", gedung: "all", lantai: "all" }),
+  };
+
+  return (
+    <EnergyFilterContext.Provider value={value}>
+      {children}
+    </EnergyFilterContext.Provider>
+  );
+}
+
+export function useEnergyFilter() {
+  const context = useContext(EnergyFilterContext);
+  if (context === undefined) {
+    throw new Error(
+      "useEnergyFilter must be used within an EnergyFilterProvider",
+    );
+  }
+  return context;
+}
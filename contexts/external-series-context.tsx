@@ -0,0 +1,105 @@
+"use client";
+
+import React, { createContext, useContext, useMemo, useState } from "react";
+import { z } from "zod";
+import { usePersistedState } from "@/hooks/use-persisted-state";
+import {
+  BUILTIN_SOURCES,
+  csvSource,
+  ExternalSeriesSource,
+  parseExternalCsv,
+} from "@/lib/external-series";
+
+const STORAGE_KEY = "elisa-external-series";
+// Larger files are kept for the session only, well inside the few MB of
+// localStorage a browser allows per site
+const MAX_STORED_CSV_LENGTH = 500 * 1024;
+
+interface CsvFile {
+  name: string;
+  text: string;
+}
+
+const storedSettingsSchema = z.object({
+  sourceId: z.string(),
+  csv: z.object({ name: z.string(), text: z.string() }).nullable(),
+});
+
+type StoredSettings = z.infer<typeof storedSettingsSchema>;
+
+const DEFAULT_SETTINGS: StoredSettings = {
+  sourceId: BUILTIN_SOURCES[0].id,
+  csv: null,
+};
+
+interface ExternalSeriesContextType {
+  sources: ExternalSeriesSource[];
+  source: ExternalSeriesSource;
+  setSourceId: (id: string) => void;
+  // Throws when the file cannot be parsed, leaving the current CSV in place.
+  // Returns whether the file is kept across reloads.
+  importCsv: (name: string, text: string) => boolean;
+  removeCsv: () => void;
+}
+
+const ExternalSeriesContext = createContext<
+  ExternalSeriesContextType | undefined
+>(undefined);
+
+export function ExternalSeriesProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [settings, setSettings] = usePersistedState(
+    STORAGE_KEY,
+    storedSettingsSchema,
+    DEFAULT_SETTINGS,
+  );
+  const [sessionCsv, setSessionCsv] = useState<CsvFile | null>(null);
+  const csv = sessionCsv ?? settings.csv;
+
+  // Parsed once per file rather than on every load
+  const sources = useMemo(() => {
+    if (!csv) return BUILTIN_SOURCES;
+    try {
+      return [csvSource(csv.name, parseExternalCsv(csv.text)), ...BUILTIN_SOURCES];
+    } catch (err) {
+      console.error("Error parsing stored external series CSV:", err);
+      return BUILTIN_SOURCES;
+    }
+  }, [csv]);
+
+  const value: ExternalSeriesContextType = {
+    sources,
+    source: sources.find((s) => s.id === settings.sourceId) ?? sources[0],
+    setSourceId: (sourceId) => setSettings((current) => ({ ...current, sourceId })),
+    importCsv: (name, text) => {
+      parseExternalCsv(text);
+      const stored = text.length <= MAX_STORED_CSV_LENGTH;
+      setSessionCsv(stored ? null : { name, text });
+      setSettings({ sourceId: "csv", csv: stored ? { name, text } : null });
+      return stored;
+    },
+    removeCsv: () => {
+      setSessionCsv(null);
+      setSettings(DEFAULT_SETTINGS);
+    },
+  };
+
+  return (
+    <ExternalSeriesContext.Provider value={value}>
+      {children}
+    </ExternalSeriesContext.Provider>
+  );
+}
+
+export function useExternalSeries() {
+  const context = useContext(ExternalSeriesContext);
+  if (context === undefined) {
+    throw new Error(
+      "useExternalSeries must be used within an ExternalSeriesProvider",
+    );
+  }
+  return context;
+}
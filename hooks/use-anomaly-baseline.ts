@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Baseline, loadBaseline } from "@/lib/anomaly";
+import { ElisaFilters } from "@/lib/elisa-client";
+
+// Hour-of-week baseline for the selected filters. History does not change
+// while a page polls, so it is only reloaded when the date or filters change.
+export function useAnomalyBaseline(date: string, filters: ElisaFilters) {
+  const [baseline, setBaseline] = useState<Baseline | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { faculty, building, floor } = filters;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setBaseline(null);
+
+    loadBaseline(date, { faculty, building, floor })
+      .then((result) => {
+        if (!cancelled) setBaseline(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Unknown error occurred");
+        console.error("Error fetching anomaly baseline:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [date, faculty, building, floor]);
+
+  return { baseline, loading, error };
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DateRange } from "@/lib/explorer";
+import {
+  ExternalSeriesData,
+  ExternalSeriesSource,
+} from "@/lib/external-series";
+
+// Readings of the selected external source for a date range, reloaded when
+// the source or the range changes
+export function useExternalSeriesData(
+  source: ExternalSeriesSource,
+  { start, end }: DateRange,
+) {
+  const [data, setData] = useState<ExternalSeriesData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setData(null);
+
+    source
+      .load({ start, end })
+      .then((result) => {
+        if (!cancelled) setData(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Unknown error occurred");
+        console.error("Error fetching external series:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, start, end]);
+
+  return { data, loading, error };
+}
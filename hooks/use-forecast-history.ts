@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ElisaFilters } from "@/lib/elisa-client";
+import {
+  HistorySeries,
+  loadDailyHistory,
+  loadHourlyHistory,
+} from "@/lib/forecast";
+
+// Training history for the forecast panel: hourly energy before a date, or
+// daily totals before a month. Like the anomaly baseline it is not reloaded
+// on every poll.
+export function useForecastHistory(
+  kind: "hourly" | "daily",
+  anchor: string,
+  filters: ElisaFilters,
+) {
+  const [history, setHistory] = useState<HistorySeries | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { faculty, building, floor } = filters;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setHistory(null);
+
+    const load = kind === "hourly" ? loadHourlyHistory : loadDailyHistory;
+    load(anchor, { faculty, building, floor })
+      .then((result) => {
+        if (!cancelled) setHistory(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Unknown error occurred");
+        console.error("Error fetching forecast history:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, anchor, faculty, building, floor]);
+
+  return { history, loading, error };
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { Dispatch, SetStateAction, useEffect, useState } from "react";
+import { z } from "zod";
+
+// State mirrored to localStorage under `key`. Storage is only available after
+// mount, so `initial` is rendered first and replaced by the stored value once
+// it has been read; `loaded` tells when that has happened. Stored values that
+// no longer match `schema` (corrupt, or written by an older version) are
+// discarded. Failed writes, e.g. when storage is full, are logged and leave the
+// in-memory state intact.
+export function usePersistedState<T>(
+  key: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  initial: T,
+): [T, Dispatch<SetStateAction<T>>, boolean] {
+  const [value, setValue] = useState<T>(initial);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    try {
+      const raw = localStorage.getItem(key);
+      if (raw) {
+        const result = schema.safeParse(JSON.parse(raw));
+        if (result.success) {
+          setValue(result.data);
+        } else {
+          console.error(`Discarding invalid stored ${key}:`, result.error.issues);
+        }
+      }
+    } catch (err) {
+      console.error(`Error reading stored ${key}:`, err);
+    }
+    setLoaded(true);
+    // Read once per key; the schema is a module-level constant
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (err) {
+      console.error(`Error storing ${key}:`, err);
+    }
+  }, [key, loaded, value]);
+
+  return [value, setValue, loaded];
+}
@@ -0,0 +1,258 @@
+import { z } from "zod";
+import { addDays } from "./explorer";
+
+// Academic calendar used to annotate the charts and to split statistics by
+// term, exam weeks and holidays. Events cover whole days; `end` is inclusive.
+
+export type CalendarCategory = "semester" | "exam" | "holiday" | "event";
+
+export const CALENDAR_CATEGORIES: {
+  id: CalendarCategory;
+  label: string;
+  color: string;
+}[] = [
+  { id: "semester", label: "Semester", color: "#3b82f6" },
+  { id: "exam", label: "Exam week", color: "#f59e0b" },
+  { id: "holiday", label: "Holiday", color: "#10b981" },
+  { id: "event", label: "Campus event", color: "#a855f7" },
+];
+
+export const categoryColor = (category: CalendarCategory) =>
+  CALENDAR_CATEGORIES.find((c) => c.id === category)?.color ?? "#94a3b8";
+
+export const categoryLabel = (category: CalendarCategory) =>
+  CALENDAR_CATEGORIES.find((c) => c.id === category)?.label ?? category;
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+export const calendarEventSchema = z
+  .object({
+    id: z.string().optional(),
+    title: z.string().min(1),
+    category: z.enum(["semester", "exam", "holiday", "event"]),
+    start: dateSchema,
+    end: dateSchema.optional(),
+  })
+  .refine((event) => !event.end || event.end >= event.start, {
+    message: "End date is before the start date",
+  });
+
+export interface CalendarEvent {
+  id: string;
+  title: string;
+  category: CalendarCategory;
+  start: string;
+  end: string;
+}
+
+const newId = () => Math.random().toString(36).slice(2, 10);
+
+const toEvent = (event: z.infer<typeof calendarEventSchema>): CalendarEvent => ({
+  id: event.id ?? newId(),
+  title: event.title,
+  category: event.category,
+  start: event.start,
+  end: event.end ?? event.start,
+});
+
+// Fixed-date national holidays; moveable ones (Eid, Nyepi, ...) change every
+// year and have to be imported
+const FIXED_HOLIDAYS = [
+  ["01-01", "New Year's Day"],
+  ["05-01", "Labour Day"],
+  ["06-01", "Pancasila Day"],
+  ["08-17", "Independence Day"],
+  ["12-25", "Christmas Day"],
+];
+
+export const DEFAULT_ACADEMIC_CALENDAR: CalendarEvent[] = [2024, 2025, 2026].flatMap(
+  (year) =>
+    FIXED_HOLIDAYS.map(([day, title]) => ({
+      id: `holiday-${year}-${day}`,
+      title,
+      category: "holiday" as const,
+      start: `${year}-${day}`,
+      end: `${year}-${day}`,
+    })),
+);
+
+// Import
+
+// JSON import: an array of events, or an object with an `events` array
+export const calendarEventsSchema = z
+  .array(calendarEventSchema)
+  .transform((events) => events.map(toEvent));
+
+export function parseCalendarJson(text: string): CalendarEvent[] {
+  const raw: unknown = JSON.parse(text);
+  const list = Array.isArray(raw) ? raw : (raw as { events?: unknown })?.events;
+  const result = calendarEventsSchema.safeParse(list);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid calendar: ${issue.path.join(".")} ${issue.message}`);
+  }
+  return result.data;
+}
+
+// Keyword-based, since ICS files rarely agree on CATEGORIES values
+function icsCategory(summary: string, categories: string): CalendarCategory {
+  const text = `${summary} ${categories}`.toLowerCase();
+  if (/ujian|exam|uts|uas|midterm|final/.test(text)) return "exam";
+  if (/libur|holiday|cuti|vacation|break/.test(text)) return "holiday";
+  if (/semester|kuliah|perkuliahan|term|lecture/.test(text)) return "semester";
+  return "event";
+}
+
+const icsDate = (value: string) => {
+  const digits = value.replace(/^.*:/, "").slice(0, 8);
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+};
+
+// Minimal VEVENT reader: SUMMARY, DTSTART, DTEND and CATEGORIES. All-day
+// DTEND values are exclusive, so they are moved back one day.
+export function parseIcs(text: string): CalendarEvent[] {
+  // Unfold continuation lines first (RFC 5545 3.1)
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: CalendarEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  lines.forEach((line) => {
+    if (line === "BEGIN:VEVENT") {
+      current = {};
+    } else if (line === "END:VEVENT" && current) {
+      const { SUMMARY = "Untitled", DTSTART, DTEND, CATEGORIES = "", UID } = current;
+      if (DTSTART) {
+        const start = icsDate(DTSTART);
+        const allDay = /VALUE=DATE[:;]/.test(DTSTART) || !DTSTART.includes("T");
+        let end = DTEND ? icsDate(DTEND) : start;
+        if (DTEND && allDay && end > start) end = addDays(end, -1);
+        events.push({
+          id: UID ?? newId(),
+          title: SUMMARY.replace(/\\,/g, ",").replace(/\\;/g, ";"),
+          category: icsCategory(SUMMARY, CATEGORIES),
+          start,
+          end: end < start ? start : end,
+        });
+      }
+      current = null;
+    } else if (current) {
+      const separator = line.indexOf(":");
+      if (separator < 0) return;
+      const name = line.slice(0, separator).split(";")[0];
+      // Keep parameters on dates so VALUE=DATE can be detected
+      current[name] = name.startsWith("DT") ? line.slice(name.length + 1) : line.slice(separator + 1);
+    }
+  });
+
+  return events;
+}
+
+export const parseCalendarFile = (text: string) =>
+  text.trimStart().startsWith("BEGIN:VCALENDAR")
+    ? parseIcs(text)
+    : parseCalendarJson(text);
+
+// Queries
+
+export const eventsOn = (date: string, events: CalendarEvent[]) =>
+  events.filter((event) => event.start <= date && event.end >= date);
+
+// Most specific event of a day, used to mark single days on the heatmaps
+const SPECIFICITY: CalendarCategory[] = ["holiday", "exam", "event", "semester"];
+
+export const primaryEvent = (
+  date: string,
+  events: CalendarEvent[],
+): CalendarEvent | null =>
+  eventsOn(date, events).sort(
+    (a, b) => SPECIFICITY.indexOf(a.category) - SPECIFICITY.indexOf(b.category),
+  )[0] ?? null;
+
+export interface CalendarBand {
+  event: CalendarEvent;
+  x1: string;
+  x2: string;
+}
+
+// Reference bands for a chart with a category axis. `points` are the chart
+// rows in order with their date (YYYY-MM-DD) and axis label; each event spans
+// from its first to its last row. Semesters come first so shorter events are
+// drawn on top.
+export function calendarBands(
+  points: { date: string; label: string }[],
+  events: CalendarEvent[],
+): CalendarBand[] {
+  if (points.length === 0) return [];
+  const first = points[0].date;
+  const last = points[points.length - 1].date;
+  return events
+    .filter((event) => event.start <= last && event.end >= first)
+    .sort(
+      (a, b) => SPECIFICITY.indexOf(b.category) - SPECIFICITY.indexOf(a.category),
+    )
+    .flatMap((event) => {
+      const inside = points.filter(
+        (point) => point.date >= event.start && point.date <= event.end,
+      );
+      return inside.length
+        ? [{ event, x1: inside[0].label, x2: inside[inside.length - 1].label }]
+        : [];
+    });
+}
+
+// Statistics split
+
+export type CalendarPeriod = "holiday" | "exam" | "term" | "break";
+
+export const CALENDAR_PERIODS: { id: CalendarPeriod; label: string }[] = [
+  { id: "term", label: "In term" },
+  { id: "exam", label: "Exam weeks" },
+  { id: "break", label: "Semester break" },
+  { id: "holiday", label: "Holidays" },
+];
+
+// A holiday wins over an exam week, an exam week over plain term time. Days
+// outside any semester count as break; campus events do not change the period.
+export function periodOf(date: string, events: CalendarEvent[]): CalendarPeriod {
+  const categories = new Set(eventsOn(date, events).map((event) => event.category));
+  if (categories.has("holiday")) return "holiday";
+  if (categories.has("exam")) return "exam";
+  if (categories.has("semester")) return "term";
+  return "break";
+}
+
+export const isWeekend = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+};
+
+export interface CalendarSplitRow {
+  period: CalendarPeriod;
+  weekend: boolean;
+  label: string;
+  days: number;
+  total: number;
+  average: number;
+}
+
+export function splitByCalendar(
+  days: { date: string; energy: number }[],
+  events: CalendarEvent[],
+): CalendarSplitRow[] {
+  return CALENDAR_PERIODS.flatMap(({ id, label }) =>
+    [false, true].map((weekend) => {
+      const matching = days.filter(
+        (day) => periodOf(day.date, events) === id && isWeekend(day.date) === weekend,
+      );
+      const total = matching.reduce((sum, day) => sum + day.energy, 0);
+      return {
+        period: id,
+        weekend,
+        label: `${label}, ${weekend ? "weekends" : "weekdays"}`,
+        days: matching.length,
+        total,
+        average: matching.length ? total / matching.length : 0,
+      };
+    }),
+  ).filter((row) => row.days > 0);
+}
@@ -0,0 +1,148 @@
+import { strict as assert } from "node:assert";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import {
+  AlertRule,
+  AlertState,
+  checkRule,
+  EMPTY_ALERT_STATE,
+  evaluateAlerts,
+  scopeKey,
+  snoozeRule,
+} from "./alerts";
+import { NowData, nowDataSchema } from "./elisa-schemas";
+
+// /api/now responses for one scope between 10:00 and 11:00, readings every
+// five minutes:
+// - now-quiet: power stays around 80 kW
+// - now-sustained: above 110 kW from 10:30 to 11:00
+// - now-spike: above 125 kW only from 10:55
+const fixture = (name: string): NowData =>
+  nowDataSchema.parse(
+    JSON.parse(readFileSync(join(__dirname, "__fixtures__", `${name}.json`), "utf8")),
+  );
+
+const quiet = fixture("now-quiet");
+const sustained = fixture("now-sustained");
+const spike = fixture("now-spike");
+
+const scope = { fakultas: "FTI", gedung: "all", lantai: "all" };
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: "rule-1",
+  scope,
+  scopeLabel: "FTI / All / All",
+  metric: "power",
+  operator: ">",
+  threshold: 100,
+  durationMinutes: 20,
+  enabled: true,
+  createdAt: "2025-03-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const at = (time: string) => new Date(`2025-03-12T${time}:00+07:00`);
+
+const evaluate = (rules: AlertRule[], data: NowData, state: AlertState, now: Date) =>
+  evaluateAlerts(rules, { [scopeKey(scope)]: data }, state, now);
+
+describe("checkRule", () => {
+  it("fires once power has stayed past the threshold for the duration", () => {
+    assert.deepEqual(checkRule(rule(), sustained), {
+      value: 122.5,
+      since: "2025-03-12T10:30:00",
+    });
+  });
+
+  it("ignores runs shorter than the duration", () => {
+    assert.equal(checkRule(rule({ durationMinutes: 45 }), sustained), null);
+    assert.equal(checkRule(rule(), spike), null);
+    assert.deepEqual(checkRule(rule({ durationMinutes: 5 }), spike), {
+      value: 126.4,
+      since: "2025-03-12T10:55:00",
+    });
+  });
+
+  it("only counts the run that ends at the latest reading", () => {
+    assert.equal(checkRule(rule({ durationMinutes: 0 }), quiet), null);
+    assert.notEqual(
+      checkRule(rule({ operator: "<", threshold: 90, durationMinutes: 25 }), quiet),
+      null,
+    );
+    assert.equal(
+      checkRule(rule({ operator: "<", threshold: 90, durationMinutes: 5 }), sustained),
+      null,
+    );
+  });
+
+  it("checks daily totals as they stand", () => {
+    const total = sustained.today_data.total_daya;
+    assert.notEqual(
+      checkRule(rule({ metric: "daily_energy", threshold: total - 1 }), sustained),
+      null,
+    );
+    assert.equal(
+      checkRule(rule({ metric: "daily_energy", threshold: total + 1 }), sustained),
+      null,
+    );
+  });
+});
+
+describe("evaluateAlerts", () => {
+  it("notifies once while a breach lasts and re-arms after it clears", () => {
+    const rules = [rule()];
+    const first = evaluate(rules, sustained, EMPTY_ALERT_STATE, at("11:00"));
+    assert.equal(first.notifications.length, 1);
+    assert.deepEqual(first.state.active, ["rule-1"]);
+
+    const repeated = evaluate(rules, sustained, first.state, at("11:01"));
+    assert.equal(repeated.notifications.length, 0);
+
+    const cleared = evaluate(rules, quiet, repeated.state, at("11:02"));
+    assert.equal(cleared.notifications.length, 0);
+    assert.deepEqual(cleared.state.active, []);
+
+    const again = evaluate(rules, sustained, cleared.state, at("11:03"));
+    assert.equal(again.notifications.length, 1);
+    assert.equal(again.notifications[0].ruleId, "rule-1");
+  });
+
+  it("keeps the previous state for scopes without a reading", () => {
+    const rules = [rule()];
+    const fired = evaluate(rules, sustained, EMPTY_ALERT_STATE, at("11:00"));
+    const missing = evaluateAlerts(rules, {}, fired.state, at("11:01"));
+    assert.deepEqual(missing.state.active, ["rule-1"]);
+    assert.equal(missing.notifications.length, 0);
+  });
+
+  it("disarms disabled rules", () => {
+    const fired = evaluate([rule()], sustained, EMPTY_ALERT_STATE, at("11:00"));
+    const disabled = evaluate([rule({ enabled: false })], sustained, fired.state, at("11:01"));
+    assert.deepEqual(disabled.state.active, []);
+    assert.equal(disabled.notifications.length, 0);
+  });
+});
+
+describe("snoozeRule", () => {
+  it("silences a rule until the snooze expires, then fires again", () => {
+    const rules = [rule()];
+    const fired = evaluate(rules, sustained, EMPTY_ALERT_STATE, at("11:00"));
+    const snoozed = snoozeRule(fired.state, "rule-1", at("11:30"));
+    assert.deepEqual(snoozed.active, []);
+
+    const during = evaluate(rules, sustained, snoozed, at("11:10"));
+    assert.equal(during.notifications.length, 0);
+    assert.equal(during.state.snoozedUntil["rule-1"], at("11:30").toISOString());
+
+    const after = evaluate(rules, sustained, during.state, at("11:31"));
+    assert.equal(after.notifications.length, 1);
+    assert.deepEqual(after.state.snoozedUntil, {});
+  });
+
+  it("drops snoozes of rules that no longer exist", () => {
+    const snoozed = snoozeRule(EMPTY_ALERT_STATE, "removed", at("12:00"));
+    const result = evaluate([rule()], quiet, snoozed, at("11:00"));
+    assert.deepEqual(result.state.snoozedUntil, {});
+  });
+});
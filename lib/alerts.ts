@@ -0,0 +1,223 @@
+import { z } from "zod";
+import { NowData } from "./elisa-schemas";
+
+// Threshold alert engine. Everything here is pure so rules can be checked
+// against recorded /api/now responses without a browser or network.
+
+export type AlertMetric = "power" | "daily_energy" | "daily_cost";
+export type AlertOperator = ">" | "<";
+
+export const ALERT_METRICS: { id: AlertMetric; label: string; unit: string }[] =
+  [
+    { id: "power", label: "Power", unit: "kW" },
+    { id: "daily_energy", label: "Daily energy", unit: "kWh" },
+    { id: "daily_cost", label: "Daily cost", unit: "Rp" },
+  ];
+
+// /api/now only returns the last hour of readings, so a longer run can never
+// be observed
+export const MAX_DURATION_MINUTES = 60;
+
+export interface AlertScope {
+  fakultas: string;
+  gedung: string;
+  lantai: string;
+}
+
+export interface AlertRule {
+  id: string;
+  scope: AlertScope;
+  // Display label of the scope at the time the rule was created
+  scopeLabel: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  // How long power has to stay past the threshold; ignored for daily totals
+  durationMinutes: number;
+  enabled: boolean;
+  createdAt: string;
+}
+
+export interface AlertNotification {
+  id: string;
+  ruleId: string;
+  scopeLabel: string;
+  message: string;
+  value: number;
+  firedAt: string;
+  acknowledged: boolean;
+  snoozedUntil?: string;
+}
+
+export interface AlertState {
+  // Rules currently past their threshold; they fire again only after clearing
+  active: string[];
+  snoozedUntil: Record<string, string>;
+}
+
+export interface Breach {
+  value: number;
+  since: string;
+}
+
+export const EMPTY_ALERT_STATE: AlertState = { active: [], snoozedUntil: {} };
+
+// Stored rules, notifications and engine state, checked when read back
+
+const alertScopeSchema = z.object({
+  fakultas: z.string(),
+  gedung: z.string(),
+  lantai: z.string(),
+});
+
+export const alertRuleSchema = z.object({
+  id: z.string(),
+  scope: alertScopeSchema,
+  scopeLabel: z.string(),
+  metric: z.enum(["power", "daily_energy", "daily_cost"]),
+  operator: z.enum([">", "<"]),
+  threshold: z.number(),
+  // Rules saved before the limit existed are capped rather than dropped
+  durationMinutes: z
+    .number()
+    .int()
+    .min(0)
+    .transform((minutes) => Math.min(minutes, MAX_DURATION_MINUTES)),
+  enabled: z.boolean(),
+  createdAt: z.string(),
+});
+
+export const alertNotificationSchema = z.object({
+  id: z.string(),
+  ruleId: z.string(),
+  scopeLabel: z.string(),
+  message: z.string(),
+  value: z.number(),
+  firedAt: z.string(),
+  acknowledged: z.boolean(),
+  snoozedUntil: z.string().optional(),
+});
+
+export const alertStateSchema = z.object({
+  active: z.array(z.string()),
+  snoozedUntil: z.record(z.string()),
+});
+
+export const scopeKey = ({ fakultas, gedung, lantai }: AlertScope) =>
+  [fakultas, gedung, lantai].join("/");
+
+const metricInfo = (metric: AlertMetric) =>
+  ALERT_METRICS.find((m) => m.id === metric)!;
+
+const passes = (value: number, operator: AlertOperator, threshold: number) =>
+  operator === ">" ? value > threshold : value < threshold;
+
+export function describeRule(rule: AlertRule): string {
+  const { label, unit } = metricInfo(rule.metric);
+  const condition = `${label} ${rule.operator} ${rule.threshold} ${unit}`;
+  return rule.metric === "power" && rule.durationMinutes > 0
+    ? `${condition} for ${rule.durationMinutes} minutes`
+    : condition;
+}
+
+// Power must hold past the threshold over the trailing run of readings that
+// ends at the latest one; daily totals are checked as they stand.
+export function checkRule(rule: AlertRule, data: NowData): Breach | null {
+  if (rule.metric !== "power") {
+    const value =
+      rule.metric === "daily_energy"
+        ? data.today_data.total_daya
+        : data.today_data.total_cost;
+    const since = data.chart_data[data.chart_data.length - 1]?.timestamp ?? "";
+    return passes(value, rule.operator, rule.threshold)
+      ? { value, since }
+      : null;
+  }
+
+  const readings = [...data.chart_data].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+  );
+  let start = readings.length;
+  while (
+    start > 0 &&
+    passes(readings[start - 1].power, rule.operator, rule.threshold)
+  ) {
+    start--;
+  }
+  if (start === readings.length) return null;
+
+  const run = readings.slice(start);
+  const first = new Date(run[0].timestamp).getTime();
+  const last = new Date(run[run.length - 1].timestamp).getTime();
+  if (last - first < rule.durationMinutes * 60 * 1000) return null;
+
+  return {
+    value: run[run.length - 1].power,
+    since: run[0].timestamp,
+  };
+}
+
+export const isSnoozed = (state: AlertState, ruleId: string, now: Date) => {
+  const until = state.snoozedUntil[ruleId];
+  return until !== undefined && new Date(until) > now;
+};
+
+// `readings` holds the latest /api/now response per scope key. Rules without a
+// reading keep their previous state so a failed request does not re-fire them.
+export function evaluateAlerts(
+  rules: AlertRule[],
+  readings: Record<string, NowData>,
+  state: AlertState,
+  now: Date,
+): { state: AlertState; notifications: AlertNotification[] } {
+  const active = new Set(state.active);
+  const notifications: AlertNotification[] = [];
+
+  rules.forEach((rule) => {
+    const data = readings[scopeKey(rule.scope)];
+    if (!rule.enabled) {
+      active.delete(rule.id);
+      return;
+    }
+    if (!data) return;
+
+    const breach = checkRule(rule, data);
+    if (!breach) {
+      active.delete(rule.id);
+      return;
+    }
+    if (active.has(rule.id) || isSnoozed(state, rule.id, now)) return;
+
+    const { unit } = metricInfo(rule.metric);
+    active.add(rule.id);
+    notifications.push({
+      id: `${rule.id}-${now.getTime()}`,
+      ruleId: rule.id,
+      scopeLabel: rule.scopeLabel,
+      message: `${describeRule(rule)} (now ${breach.value.toFixed(2)} ${unit})`,
+      value: breach.value,
+      firedAt: now.toISOString(),
+      acknowledged: false,
+    });
+  });
+
+  // Expired snoozes are dropped so the state does not grow forever
+  const snoozedUntil = Object.fromEntries(
+    Object.entries(state.snoozedUntil).filter(
+      ([ruleId]) =>
+        isSnoozed(state, ruleId, now) && rules.some((r) => r.id === ruleId),
+    ),
+  );
+
+  return { state: { active: Array.from(active), snoozedUntil }, notifications };
+}
+
+// A snoozed rule is re-armed so it fires again if still breaching afterwards
+export const snoozeRule = (
+  state: AlertState,
+  ruleId: string,
+  until: Date,
+): AlertState => ({
+  active: state.active.filter((id) => id !== ruleId),
+  snoozedUntil: { ...state.snoozedUntil, [ruleId]: until.toISOString() },
+});
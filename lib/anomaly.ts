@@ -0,0 +1,217 @@
+import { ElisaFilters, getHeatmapData } from "./elisa-client";
+import { HeatmapData } from "./elisa-schemas";
+import { toDateInput } from "./format";
+import { toDayIndex } from "./heatmap";
+
+// Expected consumption per hour of the week, learned from past weekly heatmaps.
+// Each past week contributes one sample to every weekday/hour cell.
+
+export type AnomalyMethod = "iqr" | "zscore";
+
+export interface AnomalyOptions {
+  method: AnomalyMethod;
+  // IQR multiplier (Tukey fences) or number of standard deviations
+  threshold: number;
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = {
+  method: "iqr",
+  threshold: 1.5,
+};
+
+export const BASELINE_WEEKS = 8;
+
+export interface CellStats {
+  samples: number;
+  median: number;
+  q1: number;
+  q3: number;
+  mean: number;
+  std: number;
+}
+
+// Indexed [dayIndex (0 = Sunday)][hour]; null when no history is available
+export type Baseline = (CellStats | null)[][];
+
+export interface Band {
+  expected: number;
+  low: number;
+  high: number;
+}
+
+export interface SeriesPoint {
+  timestamp: string;
+  value: number;
+}
+
+export interface Anomaly {
+  index: number;
+  timestamp: string;
+  value: number;
+  expected: number;
+  low: number;
+  high: number;
+  // Distance outside the band (positive above, negative below)
+  deviation: number;
+  // Deviation relative to the expected value, in percent
+  deviationPct: number | null;
+}
+
+// Linearly interpolated quantile of values sorted in ascending order
+export const quantile = (sorted: number[], q: number) => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return (
+    sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+  );
+};
+
+export function cellStats(values: number[]): CellStats | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  const variance =
+    sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length;
+  return {
+    samples: sorted.length,
+    median: quantile(sorted, 0.5),
+    q1: quantile(sorted, 0.25),
+    q3: quantile(sorted, 0.75),
+    mean,
+    std: Math.sqrt(variance),
+  };
+}
+
+export function buildBaseline(weeks: HeatmapData[]): Baseline {
+  const samples: number[][][] = Array(7)
+    .fill(0)
+    .map(() =>
+      Array(24)
+        .fill(0)
+        .map(() => [] as number[]),
+    );
+
+  weeks.forEach((week) => {
+    week.heatmap.forEach((cell) => {
+      samples[toDayIndex(cell.day)][cell.hour].push(cell.value);
+    });
+  });
+
+  return samples.map((day) => day.map(cellStats));
+}
+
+export function expectedBand(
+  stats: CellStats,
+  { method, threshold }: AnomalyOptions,
+): Band {
+  if (method === "zscore") {
+    return {
+      expected: stats.mean,
+      low: stats.mean - threshold * stats.std,
+      high: stats.mean + threshold * stats.std,
+    };
+  }
+  const iqr = stats.q3 - stats.q1;
+  return {
+    expected: stats.median,
+    low: stats.q1 - threshold * iqr,
+    high: stats.q3 + threshold * iqr,
+  };
+}
+
+export const bandAt = (
+  baseline: Baseline,
+  timestamp: string,
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS,
+): Band | null => {
+  const date = new Date(timestamp);
+  const stats = baseline[date.getDay()]?.[date.getHours()];
+  // A band from fewer than three weeks says little about what is normal
+  return stats && stats.samples >= 3 ? expectedBand(stats, options) : null;
+};
+
+export function detectAnomalies(
+  points: SeriesPoint[],
+  baseline: Baseline,
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS,
+): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+
+  points.forEach((point, index) => {
+    const band = bandAt(baseline, point.timestamp, options);
+    if (!band) return;
+    if (point.value >= band.low && point.value <= band.high) return;
+
+    const deviation =
+      point.value > band.high
+        ? point.value - band.high
+        : point.value - band.low;
+    anomalies.push({
+      index,
+      timestamp: point.timestamp,
+      value: point.value,
+      ...band,
+      deviation,
+      deviationPct:
+        band.expected !== 0
+          ? ((point.value - band.expected) / band.expected) * 100
+          : null,
+    });
+  });
+
+  return anomalies;
+}
+
+// Runs of consecutive flagged points as [first index, last index]
+export function anomalySegments(anomalies: Anomaly[]): [number, number][] {
+  const segments: [number, number][] = [];
+  anomalies.forEach(({ index }) => {
+    const last = segments[segments.length - 1];
+    if (last && last[1] === index - 1) {
+      last[1] = index;
+    } else {
+      segments.push([index, index]);
+    }
+  });
+  return segments;
+}
+
+// Typical spacing between readings, in hours, so sub-hourly energy readings
+// can be compared with the hourly heatmap values
+export function intervalHours(timestamps: string[]): number {
+  const gaps = timestamps
+    .slice(1)
+    .map((t, i) => new Date(t).getTime() - new Date(timestamps[i]).getTime())
+    .filter((gap) => gap > 0)
+    .sort((a, b) => a - b);
+  if (gaps.length === 0) return 1;
+  return quantile(gaps, 0.5) / (60 * 60 * 1000);
+}
+
+// One heatmap request per past week, ending the day before `date`
+export async function loadBaseline(
+  date: string,
+  filters: ElisaFilters,
+  weeks = BASELINE_WEEKS,
+): Promise<Baseline> {
+  const ranges = Array.from({ length: weeks }, (_, i) => {
+    // UTC dates so toDateInput does not shift the day in UTC+7
+    const end = new Date(`${date}T00:00:00Z`);
+    end.setUTCDate(end.getUTCDate() - 1 - i * 7);
+    const start = new Date(end);
+    start.setUTCDate(end.getUTCDate() - 6);
+    return { start: toDateInput(start), end: toDateInput(end) };
+  });
+
+  const results = await Promise.allSettled(
+    ranges.map(({ start, end }) => getHeatmapData(start, end, filters)),
+  );
+  const history = results.flatMap((result) =>
+    result.status === "fulfilled" ? [result.value] : [],
+  );
+  if (history.length === 0) {
+    throw new Error("No heatmap history available for the anomaly baseline");
+  }
+  return buildBaseline(history);
+}
@@ -0,0 +1,89 @@
+import { ElisaFilters } from "./elisa-client";
+import { DailyData } from "./elisa-schemas";
+import { formatTimestamp } from "./format";
+
+export const MIN_COMPARISON_SERIES = 2;
+export const MAX_COMPARISON_SERIES = 5;
+
+export interface ComparisonSeries {
+  id: string;
+  label: string;
+  filters: ElisaFilters;
+}
+
+export interface SeriesSummary {
+  id: string;
+  label: string;
+  energy: number;
+  cost: number;
+  peak: number;
+  peakTime: string | null;
+}
+
+export type ComparisonRow = { time: string; timestamp: string } & Record<
+  string,
+  number | string | null
+>;
+
+export const seriesId = ({ faculty, building, floor }: ElisaFilters) =>
+  [faculty, building, floor].join("/");
+
+// Combined R+S+T reading per timestamp
+export const totalPhases = (reading: { R: number; S: number; T: number }) =>
+  reading.R + reading.S + reading.T;
+
+export function summarizeSeries(
+  series: ComparisonSeries,
+  data: DailyData,
+): SeriesSummary {
+  let peak = 0;
+  let peakTime: string | null = null;
+  data.chart_data.forEach((reading) => {
+    const total = totalPhases(reading);
+    if (peakTime === null || total > peak) {
+      peak = total;
+      peakTime = reading.timestamp;
+    }
+  });
+
+  return {
+    id: series.id,
+    label: series.label,
+    energy: data.today_data.total_daya,
+    cost: data.today_data.total_cost,
+    peak,
+    peakTime,
+  };
+}
+
+// Chart keys are positional: building names may contain dots, which recharts
+// would read as nested paths
+export const seriesKey = (index: number) => `series${index}`;
+
+// Align every series on its timestamps so they can share one chart.
+// Timestamps missing from a series are left as null (a gap in that line).
+export function mergeSeries(
+  series: ComparisonSeries[],
+  results: Record<string, DailyData>,
+): ComparisonRow[] {
+  const rows = new Map<string, ComparisonRow>();
+
+  series.forEach(({ id }, index) => {
+    results[id]?.chart_data.forEach((reading) => {
+      let row = rows.get(reading.timestamp);
+      if (!row) {
+        row = {
+          timestamp: reading.timestamp,
+          time: formatTimestamp(reading.timestamp),
+        } as ComparisonRow;
+        for (let i = 0; i < series.length; i++) row[seriesKey(i)] = null;
+        rows.set(reading.timestamp, row);
+      }
+      row[seriesKey(index)] = totalPhases(reading);
+    });
+  });
+
+  return Array.from(rows.values()).sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+  );
+}
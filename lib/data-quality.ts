@@ -0,0 +1,310 @@
+import { totalPhases } from "./daily-comparison";
+import { DailyData, MonthlyData, NowData } from "./elisa-schemas";
+
+// Checks on the readings in ELISA responses: missing intervals, meters stuck
+// on one value, negative or implausibly large values and irregular
+// timestamps. Every successful response is checked as it arrives, and the
+// latest report per endpoint and parameters is kept for the health page.
+
+export type QualityIssueKind =
+  | "gap"
+  | "stuck"
+  | "negative"
+  | "implausible"
+  | "irregular";
+
+export const QUALITY_ISSUES: {
+  id: QualityIssueKind;
+  label: string;
+  color: string;
+  description: string;
+}[] = [
+  {
+    id: "gap",
+    label: "Missing readings",
+    color: "#9ca3af",
+    description: "Intervals with no reading",
+  },
+  {
+    id: "stuck",
+    label: "Stuck meter",
+    color: "#8b5cf6",
+    description: "The same value repeated for an hour or more",
+  },
+  {
+    id: "negative",
+    label: "Negative value",
+    color: "#ef4444",
+    description: "Energy or power below zero",
+  },
+  {
+    id: "implausible",
+    label: "Implausible value",
+    color: "#f97316",
+    description: "Far above the typical reading",
+  },
+  {
+    id: "irregular",
+    label: "Irregular timestamp",
+    color: "#0ea5e9",
+    description: "Duplicate, out of order or off-interval timestamps",
+  },
+];
+
+export const qualityColor = (kind: QualityIssueKind) =>
+  QUALITY_ISSUES.find((issue) => issue.id === kind)?.color ?? "#9ca3af";
+
+export const qualityLabel = (kind: QualityIssueKind) =>
+  QUALITY_ISSUES.find((issue) => issue.id === kind)?.label ?? kind;
+
+export interface QualityPoint {
+  timestamp: string;
+  value: number;
+}
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  // Affected readings; for gaps, the readings either side of the gap
+  first: number;
+  last: number;
+  start: string;
+  end: string;
+  // Missing intervals for gaps, affected readings otherwise
+  count: number;
+}
+
+export interface QualityReport {
+  issues: QualityIssue[];
+  readings: number;
+  expected: number;
+  // Readings without issues over expected readings, 0-1; null when none
+  // are expected
+  completeness: number | null;
+  intervalMinutes: number;
+}
+
+export interface QualityOptions {
+  // Repeats of one value before a meter counts as stuck
+  stuckReadings: number;
+  // Multiple of the median reading above which a value is implausible
+  implausibleFactor: number;
+  // Reading interval; the median spacing of the readings when unset
+  intervalMinutes?: number;
+  // Readings that should exist; the span of the readings when unset
+  expected?: number;
+}
+
+export const DEFAULT_QUALITY_OPTIONS: QualityOptions = {
+  stuckReadings: 4,
+  implausibleFactor: 10,
+};
+
+// ELISA meters report every 15 minutes
+export const READING_INTERVAL_MINUTES = 15;
+export const READINGS_PER_DAY = (24 * 60) / READING_INTERVAL_MINUTES;
+
+// Offset from a whole number of intervals still counted as regular
+const INTERVAL_TOLERANCE = 0.1;
+
+const MINUTE = 60 * 1000;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Consecutive flagged indices as [first, last] runs
+function runs(flags: boolean[]): [number, number][] {
+  const segments: [number, number][] = [];
+  flags.forEach((flag, index) => {
+    if (!flag) return;
+    const last = segments[segments.length - 1];
+    if (last && last[1] === index - 1) {
+      last[1] = index;
+    } else {
+      segments.push([index, index]);
+    }
+  });
+  return segments;
+}
+
+export function checkSeries(
+  points: QualityPoint[],
+  options: QualityOptions = DEFAULT_QUALITY_OPTIONS,
+): QualityReport {
+  const times = points.map((point) => new Date(point.timestamp).getTime());
+  const spacing = times
+    .slice(1)
+    .map((time, i) => time - times[i])
+    .filter((gap) => gap > 0);
+  const interval =
+    (options.intervalMinutes ??
+      (spacing.length ? median(spacing) / MINUTE : READING_INTERVAL_MINUTES)) *
+    MINUTE;
+
+  const issues: QualityIssue[] = [];
+  const issue = (
+    kind: QualityIssueKind,
+    first: number,
+    last: number,
+    count = last - first + 1,
+  ) =>
+    issues.push({
+      kind,
+      first,
+      last,
+      start: points[first].timestamp,
+      end: points[last].timestamp,
+      count,
+    });
+
+  // Spacing between neighbouring readings
+  let missing = 0;
+  const irregular = points.map(() => false);
+  times.forEach((time, i) => {
+    if (i === 0) return;
+    const steps = (time - times[i - 1]) / interval;
+    if (!Number.isFinite(steps) || steps <= 0) {
+      irregular[i] = true;
+      return;
+    }
+    const whole = Math.round(steps);
+    if (Math.abs(steps - whole) > INTERVAL_TOLERANCE) {
+      irregular[i] = true;
+    } else if (whole > 1) {
+      missing += whole - 1;
+      issue("gap", i - 1, i, whole - 1);
+    }
+  });
+  runs(irregular).forEach(([first, last]) => issue("irregular", first, last));
+
+  // Values
+  const values = points.map((point) => point.value);
+  const typical = median(values.filter((value) => value > 0));
+  const limit = Number.isFinite(typical) ? typical * options.implausibleFactor : Infinity;
+  runs(values.map((value) => value < 0)).forEach(([first, last]) =>
+    issue("negative", first, last),
+  );
+  runs(values.map((value) => !Number.isFinite(value) || value > limit)).forEach(
+    ([first, last]) => issue("implausible", first, last),
+  );
+
+  // Runs of one repeated value, zeros included
+  let runStart = 0;
+  values.forEach((value, i) => {
+    const next = i + 1 < values.length ? values[i + 1] : undefined;
+    if (next === value) return;
+    if (i - runStart + 1 >= options.stuckReadings) issue("stuck", runStart, i);
+    runStart = i + 1;
+  });
+
+  // Readings can have several issues but only count as invalid once
+  const flagged = points.map(() => false);
+  issues.forEach(({ kind, first, last }) => {
+    if (kind === "gap") return;
+    for (let i = first; i <= last; i++) flagged[i] = true;
+  });
+
+  const expected = options.expected ?? points.length + missing;
+  const valid = flagged.filter((flag) => !flag).length;
+  issues.sort((a, b) => a.first - b.first || a.last - b.last);
+  return {
+    issues,
+    readings: points.length,
+    expected,
+    completeness: expected > 0 ? Math.min(1, valid / expected) : null,
+    intervalMinutes: interval / MINUTE,
+  };
+}
+
+// Issue counts per kind; gaps count missing intervals
+export function issueCounts(issues: QualityIssue[]): Record<QualityIssueKind, number> {
+  const counts: Record<QualityIssueKind, number> = {
+    gap: 0,
+    stuck: 0,
+    negative: 0,
+    implausible: 0,
+    irregular: 0,
+  };
+  issues.forEach((issue) => {
+    counts[issue.kind] += issue.count;
+  });
+  return counts;
+}
+
+// Readings of the responses that carry a time series
+const RESPONSE_SERIES: Record<string, (body: unknown) => QualityPoint[]> = {
+  "/api/now": (body) =>
+    (body as NowData).chart_data.map((reading) => ({
+      timestamp: reading.timestamp,
+      value: reading.power,
+    })),
+  "/api/daily": (body) =>
+    (body as DailyData).chart_data.map((reading) => ({
+      timestamp: reading.timestamp,
+      value: totalPhases(reading),
+    })),
+  "/api/monthly": (body) =>
+    (body as MonthlyData).daily_data.map((day) => ({
+      timestamp: day.timestamp,
+      value: day.energy,
+    })),
+};
+
+export const responseSeries = (endpoint: string, body: unknown) =>
+  RESPONSE_SERIES[endpoint]?.(body) ?? null;
+
+// Checked responses
+
+export interface ResponseQuality {
+  key: string;
+  endpoint: string;
+  params: Record<string, string>;
+  report: QualityReport;
+  checkedAt: number;
+}
+
+// Only the latest responses are kept, so a long session paging through dates
+// does not grow the registry without bound
+const MAX_RESPONSE_REPORTS = 200;
+
+// In insertion order, which recordQuality keeps oldest first
+const responseReports = new Map<string, ResponseQuality>();
+const listeners = new Set<() => void>();
+
+export function recordQuality(
+  key: string,
+  endpoint: string,
+  params: Record<string, string>,
+  body: unknown,
+) {
+  const points = responseSeries(endpoint, body);
+  if (!points) return;
+  responseReports.delete(key);
+  responseReports.set(key, {
+    key,
+    endpoint,
+    params,
+    report: checkSeries(points),
+    checkedAt: Date.now(),
+  });
+  if (responseReports.size > MAX_RESPONSE_REPORTS) {
+    const oldest = responseReports.keys().next();
+    if (!oldest.done) responseReports.delete(oldest.value);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+// Most recently checked first
+export const qualityReports = () =>
+  Array.from(responseReports.values()).sort((a, b) => b.checkedAt - a.checkedAt);
+
+export function subscribeQuality(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
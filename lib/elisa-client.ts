@@ -0,0 +1,301 @@
+import { z } from "zod";
+import { recordQuality } from "./data-quality";
+import {
+  analysisSchema,
+  dailyDataSchema,
+  facultyComparisonDataSchema,
+  fakultasOptionsSchema,
+  gedungOptionsSchema,
+  heatmapDataSchema,
+  lantaiOptionsSchema,
+  monthlyDataSchema,
+  nowDataSchema,
+} from "./elisa-schemas";
+import {
+  cacheKey,
+  markFresh,
+  markStale,
+  readCache,
+  writeCache,
+} from "./offline-cache";
+
+const ANALYSIS_URL = process.env.NEXT_PUBLIC_API_URL;
+
+export interface ElisaFilters {
+  faculty: string;
+  building: string;
+  floor: string;
+}
+
+// Filter selections use "all" where the API expects an empty value
+export const toApiValue = (value: string) => (value === "all" ? "" : value);
+
+export const toApiFilters = ({
+  fakultas,
+  gedung,
+  lantai,
+}: {
+  fakultas: string;
+  gedung: string;
+  lantai: string;
+}): ElisaFilters => ({
+  faculty: toApiValue(fakultas),
+  building: toApiValue(gedung),
+  floor: toApiValue(lantai),
+});
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export class ElisaApiError extends Error {
+  constructor(
+    message: string,
+    public readonly endpoint: string,
+  ) {
+    super(message);
+    this.name = "ElisaApiError";
+  }
+}
+
+// The backend could not be reached or answered with a non-2xx status
+export class ElisaRequestError extends ElisaApiError {
+  constructor(
+    endpoint: string,
+    public readonly status?: number,
+  ) {
+    super(
+      status
+        ? `Failed to fetch ${endpoint}: ${status}`
+        : `Failed to reach ${endpoint}`,
+      endpoint,
+    );
+    this.name = "ElisaRequestError";
+  }
+}
+
+// The backend answered, but not with the shape the dashboard expects
+export class ElisaValidationError extends ElisaApiError {
+  constructor(
+    endpoint: string,
+    public readonly issues: z.ZodIssue[],
+  ) {
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    super(`Unexpected response from ${endpoint}: ${summary}`, endpoint);
+    this.name = "ElisaValidationError";
+  }
+}
+
+export const isAbortError = (err: unknown) =>
+  err instanceof Error && err.name === "AbortError";
+
+export const buildElisaUrl = (
+  endpoint: string,
+  params: Record<string, string> = {},
+) => {
+  const query = new URLSearchParams(params).toString();
+  return `${ANALYSIS_URL}${endpoint}${query ? `?${query}` : ""}`;
+};
+
+async function fetchElisa<T extends z.ZodTypeAny>(
+  endpoint: string,
+  params: Record<string, string>,
+  schema: T,
+  options: RequestOptions,
+): Promise<z.infer<T>> {
+  let response: Response;
+  try {
+    response = await fetch(buildElisaUrl(endpoint, params), {
+      signal: options.signal,
+    });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new ElisaRequestError(endpoint);
+  }
+
+  if (!response.ok) {
+    throw new ElisaRequestError(endpoint, response.status);
+  }
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new ElisaValidationError(endpoint, [
+      { code: "custom", path: [], message: "Response is not valid JSON" },
+    ]);
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ElisaValidationError(endpoint, result.error.issues);
+  }
+  return result.data;
+}
+
+// Successful responses are cached per endpoint and parameters and checked
+// for data quality issues. When the backend is unreachable or failing, the
+// last cached response is returned instead and reported as stale.
+export async function requestElisa<T extends z.ZodTypeAny>(
+  endpoint: string,
+  params: Record<string, string>,
+  schema: T,
+  options: RequestOptions = {},
+): Promise<z.infer<T>> {
+  const key = cacheKey(endpoint, params);
+  try {
+    const data = await fetchElisa(endpoint, params, schema, options);
+    markFresh(key);
+    recordQuality(key, endpoint, params, data);
+    writeCache(key, endpoint, data).catch((err) =>
+      console.error("Error caching ELISA response:", err),
+    );
+    return data;
+  } catch (err) {
+    const unreachable =
+      err instanceof ElisaRequestError &&
+      (err.status === undefined || err.status >= 500);
+    if (!unreachable) throw err;
+
+    const cached = await readCache(key).catch(() => null);
+    const result = cached && schema.safeParse(cached.body);
+    if (!cached || !result || !result.success) throw err;
+    markStale(key, cached.storedAt);
+    return result.data;
+  }
+}
+
+// Any successful answer means the backend is reachable again
+export async function pingElisa(): Promise<boolean> {
+  try {
+    const response = await fetch(buildElisaUrl("/api/get-fakultas"));
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+const filterParams = ({ faculty, building, floor }: ElisaFilters) => ({
+  faculty,
+  building,
+  floor,
+});
+
+// Filter options
+
+export const getFakultasOptions = async (options?: RequestOptions) =>
+  (await requestElisa("/api/get-fakultas", {}, fakultasOptionsSchema, options))
+    .fakultas;
+
+export const getGedungOptions = async (
+  fakultas: string,
+  options?: RequestOptions,
+) =>
+  (
+    await requestElisa(
+      "/api/get-gedung",
+      { fakultas },
+      gedungOptionsSchema,
+      options,
+    )
+  ).gedung;
+
+export const getLantaiOptions = async (
+  fakultas: string,
+  gedung: string,
+  options?: RequestOptions,
+) =>
+  (
+    await requestElisa(
+      "/api/get-lantai",
+      { fakultas, gedung },
+      lantaiOptionsSchema,
+      options,
+    )
+  ).lantai;
+
+// Dashboard data
+
+export const getNowData = (
+  date: string,
+  filters: ElisaFilters,
+  options?: RequestOptions,
+) =>
+  requestElisa(
+    "/api/now",
+    { date, ...filterParams(filters) },
+    nowDataSchema,
+    options,
+  );
+
+export const getDailyData = (
+  date: string,
+  filters: ElisaFilters,
+  options?: RequestOptions,
+) =>
+  requestElisa(
+    "/api/daily",
+    { date, ...filterParams(filters) },
+    dailyDataSchema,
+    options,
+  );
+
+// month is in YYYY-MM format
+export const getMonthlyData = (
+  month: string,
+  filters: ElisaFilters,
+  options?: RequestOptions,
+) =>
+  requestElisa(
+    "/api/monthly",
+    { date: month, ...filterParams(filters) },
+    monthlyDataSchema,
+    options,
+  );
+
+export const getHeatmapData = (
+  start: string,
+  end: string,
+  filters: ElisaFilters,
+  options?: RequestOptions,
+) =>
+  requestElisa(
+    "/api/heatmap",
+    { start, end, ...filterParams(filters) },
+    heatmapDataSchema,
+    options,
+  );
+
+// The faculty comparison is served from /api/compare
+export const getFacultyComparison = (
+  month: string,
+  options?: RequestOptions,
+) =>
+  requestElisa(
+    "/api/compare",
+    { date: month },
+    facultyComparisonDataSchema,
+    options,
+  );
+
+// LLM analysis text
+
+export type AnalysisView = "now" | "daily" | "monthly" | "heatmap" | "faculty";
+
+export const getAnalysis = async (
+  view: AnalysisView,
+  params: Record<string, string>,
+  options?: RequestOptions,
+) =>
+  (
+    await requestElisa(
+      `/api/analysis/${view}`,
+      params,
+      analysisSchema,
+      options,
+    )
+  ).analysis;
@@ -0,0 +1,148 @@
+import { z } from "zod";
+
+// Response schemas for the ELISA analysis backend (NEXT_PUBLIC_API_URL).
+// Fields the backend is known to omit are marked optional so the pages keep
+// their "N/A" fallbacks instead of failing validation.
+
+export const filterOptionSchema = z.object({
+  value: z.string(),
+  label: z.string(),
+});
+export const fakultasOptionsSchema = z.object({
+  fakultas: z.array(filterOptionSchema).default([]),
+});
+export const gedungOptionsSchema = z.object({
+  gedung: z.array(filterOptionSchema).default([]),
+});
+export const lantaiOptionsSchema = z.object({
+  lantai: z.array(filterOptionSchema).default([]),
+});
+
+export type FilterOption = z.infer<typeof filterOptionSchema>;
+
+const summarySchema = z.object({
+  total_daya: z.number(),
+  avg_daya: z.number(),
+  total_cost: z.number(),
+  avg_cost: z.number(),
+});
+
+const prevMonthSchema = z
+  .object({
+    total_daya: z.number(),
+    total_cost: z.number(),
+    day_daya: z.number(),
+    day_cost: z.number(),
+    hour_daya: z.number(),
+    hour_cost: z.number(),
+  })
+  .partial();
+
+export const nowDataSchema = z.object({
+  chart_data: z.array(
+    z.object({
+      timestamp: z.string(),
+      power: z.number(),
+    }),
+  ),
+  today_data: summarySchema,
+  prev_month_data: prevMonthSchema.optional(),
+});
+
+const phaseReadingSchema = z.object({
+  timestamp: z.string(),
+  R: z.number(),
+  S: z.number(),
+  T: z.number(),
+});
+
+export const dailyDataSchema = z.object({
+  chart_data: z.array(phaseReadingSchema),
+  hourly_data: z.array(
+    z.object({
+      hour: z.string(),
+      cost: z.number(),
+      energy: z.number(),
+    }),
+  ),
+  today_data: summarySchema,
+  prev_month_data: prevMonthSchema.optional(),
+});
+
+export const monthlyDataSchema = z.object({
+  chart_data: z.array(phaseReadingSchema),
+  daily_data: z.array(
+    z.object({
+      timestamp: z.string(),
+      cost: z.number(),
+      energy: z.number(),
+      "phase 1": z.number(),
+      "phase 2": z.number(),
+      "phase 3": z.number(),
+    }),
+  ),
+  month_data: summarySchema,
+  prev_month_data: prevMonthSchema.optional(),
+});
+
+export const heatmapDataSchema = z.object({
+  dates: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  heatmap: z.array(
+    z.object({
+      day: z.number().int().min(1).max(7).describe("1-7 (Monday-Sunday)"),
+      hour: z.number().int().min(0).max(23),
+      value: z.number(),
+    }),
+  ),
+});
+
+const facultyValueSchema = z.object({
+  fakultas: z.string(),
+  energy: z.number(),
+  cost: z.number(),
+});
+
+export const facultyComparisonDataSchema = z.object({
+  value: z.array(facultyValueSchema),
+  data: z.object({
+    max: facultyValueSchema,
+    min: facultyValueSchema,
+    total: z
+      .object({
+        total: z.number(),
+        cost: z.number(),
+      })
+      .optional(),
+    average: z
+      .object({
+        average: z.number(),
+        cost: z.number(),
+      })
+      .optional(),
+  }),
+  info: z.array(
+    z.object({
+      faculty: z.string(),
+      energy: z.number(),
+      cost: z.number(),
+      area: z.number(),
+      ike: z.number(),
+      students: z.number(),
+      specific_energy: z.number(),
+    }),
+  ),
+});
+
+export const analysisSchema = z.object({
+  analysis: z.string(),
+});
+
+export type NowData = z.infer<typeof nowDataSchema>;
+export type DailyData = z.infer<typeof dailyDataSchema>;
+export type MonthlyData = z.infer<typeof monthlyDataSchema>;
+export type HeatmapData = z.infer<typeof heatmapDataSchema>;
+export type FacultyComparisonData = z.infer<typeof facultyComparisonDataSchema>;
+export type FacultyInfo = FacultyComparisonData["info"][number];
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { getFacultyComparison } from "./elisa-client";
+
+// Grid emission factors (kg CO2e per kWh) by year. Defaults are indicative
+// values for the Jawa-Madura-Bali grid and can be edited in the app.
+
+export interface EmissionFactor {
+  year: number;
+  factor: number;
+}
+
+export const emissionFactorsSchema = z.array(
+  z.object({
+    year: z.number().int(),
+    factor: z.number().nonnegative(),
+  }),
+);
+
+export const DEFAULT_EMISSION_FACTORS: EmissionFactor[] = [
+  { year: 2019, factor: 0.87 },
+  { year: 2020, factor: 0.87 },
+  { year: 2021, factor: 0.85 },
+  { year: 2022, factor: 0.85 },
+  { year: 2023, factor: 0.87 },
+  { year: 2024, factor: 0.87 },
+];
+
+export interface FacultyEmissions {
+  faculty: string;
+  energy: number;
+  emissions: number;
+}
+
+// Years after the last recorded one reuse the latest factor, years before the
+// first one the earliest
+export function factorFor(year: number, factors: EmissionFactor[]): number {
+  const sorted = [...factors].sort((a, b) => a.year - b.year);
+  if (sorted.length === 0) return 0;
+  const match = [...sorted].reverse().find((f) => f.year <= year);
+  return (match ?? sorted[0]).factor;
+}
+
+export const yearOf = (date: string) => Number(date.slice(0, 4));
+
+// kg CO2e for energy consumed on `date` (YYYY-MM-DD or YYYY-MM)
+export const emissionsFor = (
+  kwh: number,
+  date: string,
+  factors: EmissionFactor[],
+) => kwh * factorFor(yearOf(date), factors);
+
+export const formatEmissions = (kg: number) =>
+  kg >= 1000 ? `${(kg / 1000).toFixed(2)} t CO2e` : `${kg.toFixed(2)} kg CO2e`;
+
+// Months from January up to and including `month`
+export const monthsToDate = (month: string) => {
+  const [year, last] = month.split("-").map(Number);
+  return Array.from(
+    { length: last },
+    (_, i) => `${year}-${String(i + 1).padStart(2, "0")}`,
+  );
+};
+
+// Year-to-date energy and emissions per faculty from one /api/compare request
+// per month; months that fail to load are left out
+export async function loadFacultyYearToDate(
+  month: string,
+  factors: EmissionFactor[],
+): Promise<{ months: string[]; faculties: FacultyEmissions[] }> {
+  const months = monthsToDate(month);
+  const results = await Promise.allSettled(
+    months.map((m) => getFacultyComparison(m)),
+  );
+
+  const totals = new Map<string, FacultyEmissions>();
+  const loaded: string[] = [];
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(`Error fetching faculty data for ${months[index]}:`, result.reason);
+      return;
+    }
+    loaded.push(months[index]);
+    result.value.value.forEach(({ fakultas, energy }) => {
+      const total = totals.get(fakultas) ?? {
+        faculty: fakultas,
+        energy: 0,
+        emissions: 0,
+      };
+      total.energy += energy;
+      total.emissions += emissionsFor(energy, months[index], factors);
+      totals.set(fakultas, total);
+    });
+  });
+
+  return {
+    months: loaded,
+    faculties: Array.from(totals.values()).sort(
+      (a, b) => b.emissions - a.emissions,
+    ),
+  };
+}
@@ -0,0 +1,193 @@
+import { totalPhases } from "./daily-comparison";
+import { ElisaFilters, getDailyData, getMonthlyData } from "./elisa-client";
+
+// Arbitrary date ranges assembled from the per-day and per-month endpoints.
+// Sub-daily granularities need one /api/daily request per day, daily and
+// weekly ones one /api/monthly request per month.
+
+export type Granularity = "15min" | "hourly" | "daily" | "weekly";
+
+export const GRANULARITIES: { id: Granularity; label: string }[] = [
+  { id: "15min", label: "15 minutes" },
+  { id: "hourly", label: "Hourly" },
+  { id: "daily", label: "Daily" },
+  { id: "weekly", label: "Weekly" },
+];
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export const MAX_SUBDAILY_DAYS = 31;
+const REQUEST_BATCH_SIZE = 4;
+
+export interface ExplorerReading {
+  timestamp: string;
+  energy: number;
+  // Only the monthly endpoint reports cost per reading
+  cost: number | null;
+}
+
+export interface ExplorerBucket {
+  start: string;
+  energy: number;
+  cost: number | null;
+  readings: number;
+}
+
+export const isSubDaily = (granularity: Granularity) =>
+  granularity === "15min" || granularity === "hourly";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Date part of an API timestamp, which is already in UTC+7 local time
+const dateKey = (timestamp: string) => timestamp.slice(0, 10);
+
+export const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+// Weeks run Sunday to Saturday, as on the Heatmap page
+export const startOfWeek = (date: string) =>
+  addDays(date, -new Date(`${date}T00:00:00Z`).getUTCDay());
+
+export function eachDay({ start, end }: DateRange): string[] {
+  const days: string[] = [];
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+export function eachMonth({ start, end }: DateRange): string[] {
+  const months: string[] = [];
+  let [year, month] = start.slice(0, 7).split("-").map(Number);
+  const last = end.slice(0, 7);
+  while (`${year}-${pad(month)}` <= last) {
+    months.push(`${year}-${pad(month)}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+// Runs requests a few at a time so long ranges do not flood the backend
+export async function inBatches<T, R>(
+  items: T[],
+  load: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += REQUEST_BATCH_SIZE) {
+    const batch = items.slice(i, i + REQUEST_BATCH_SIZE);
+    results.push(...(await Promise.all(batch.map(load))));
+  }
+  return results;
+}
+
+export async function loadRangeReadings(
+  range: DateRange,
+  granularity: Granularity,
+  filters: ElisaFilters,
+): Promise<ExplorerReading[]> {
+  if (range.start > range.end) {
+    throw new Error("Start date must be before end date");
+  }
+
+  if (isSubDaily(granularity)) {
+    const days = eachDay(range);
+    if (days.length > MAX_SUBDAILY_DAYS) {
+      throw new Error(
+        `15-minute and hourly views are limited to ${MAX_SUBDAILY_DAYS} days; use daily or weekly for longer ranges`,
+      );
+    }
+    const responses = await inBatches(days, (day) =>
+      getDailyData(day, filters),
+    );
+    return responses.flatMap((data) =>
+      data.chart_data.map((reading) => ({
+        timestamp: reading.timestamp,
+        energy: totalPhases(reading),
+        cost: null,
+      })),
+    );
+  }
+
+  const responses = await inBatches(eachMonth(range), (month) =>
+    getMonthlyData(month, filters),
+  );
+  return responses
+    .flatMap((data) => data.daily_data)
+    .filter(
+      (day) =>
+        dateKey(day.timestamp) >= range.start &&
+        dateKey(day.timestamp) <= range.end,
+    )
+    .map((day) => ({
+      timestamp: day.timestamp,
+      energy: day.energy,
+      cost: day.cost,
+    }));
+}
+
+export function bucketStart(timestamp: string, granularity: Granularity) {
+  if (granularity === "daily") return dateKey(timestamp);
+  if (granularity === "weekly") {
+    return startOfWeek(dateKey(timestamp));
+  }
+
+  const date = new Date(timestamp);
+  const minutes =
+    granularity === "15min" ? Math.floor(date.getMinutes() / 15) * 15 : 0;
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(minutes)}`;
+}
+
+export function aggregateReadings(
+  readings: ExplorerReading[],
+  granularity: Granularity,
+): ExplorerBucket[] {
+  const buckets = new Map<string, ExplorerBucket>();
+
+  readings.forEach((reading) => {
+    const start = bucketStart(reading.timestamp, granularity);
+    const bucket = buckets.get(start) ?? {
+      start,
+      energy: 0,
+      cost: 0,
+      readings: 0,
+    };
+    bucket.energy += reading.energy;
+    bucket.cost =
+      bucket.cost === null || reading.cost === null
+        ? null
+        : bucket.cost + reading.cost;
+    bucket.readings++;
+    buckets.set(start, bucket);
+  });
+
+  return Array.from(buckets.values()).sort((a, b) =>
+    a.start.localeCompare(b.start),
+  );
+}
+
+export function formatBucket(start: string, granularity: Granularity) {
+  if (isSubDaily(granularity)) {
+    return new Date(start).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  }
+  const date = new Date(`${start}T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  return granularity === "weekly" ? `Week of ${date}` : date;
+}
@@ -0,0 +1,142 @@
+// CSV / XLSX export of the data shown on the ELISA dashboard views
+
+export type ExportValue = string | number | null | undefined;
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+}
+
+export interface ExportTable {
+  name: string;
+  columns: ExportColumn[];
+  rows: Record<string, ExportValue>[];
+}
+
+export interface ExportDocument {
+  title: string;
+  // Active filters and date range, written above the data
+  metadata: [string, string][];
+  tables: ExportTable[];
+}
+
+export type ExportFormat = "csv" | "xlsx";
+
+export const filterMetadata = (labels: {
+  fakultas: string;
+  gedung: string;
+  lantai: string;
+}): [string, string][] => [
+  ["Fakultas", labels.fakultas],
+  ["Gedung", labels.gedung],
+  ["Lantai", labels.lantai],
+];
+
+export const keyValueTable = (
+  name: string,
+  entries: [string, ExportValue][],
+): ExportTable => ({
+  name,
+  columns: [
+    { key: "metric", header: "Metric" },
+    { key: "value", header: "Value" },
+  ],
+  rows: entries.map(([metric, value]) => ({ metric, value })),
+});
+
+const toCell = (value: ExportValue) =>
+  value === null || value === undefined ? "" : value;
+
+const tableToRows = (table: ExportTable): ExportValue[][] => [
+  table.columns.map((column) => column.header),
+  ...table.rows.map((row) => table.columns.map((column) => toCell(row[column.key]))),
+];
+
+const headerRows = (doc: ExportDocument): ExportValue[][] => [
+  [doc.title],
+  ...doc.metadata,
+  ["Exported at", new Date().toISOString()],
+];
+
+// Spreadsheets evaluate text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: ExportValue) => {
+  const cell = toCell(value);
+  const text =
+    typeof cell === "string" && FORMULA_PREFIX.test(cell) ? `'${cell}` : String(cell);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(doc: ExportDocument): string {
+  const rows: ExportValue[][] = [...headerRows(doc)];
+  doc.tables.forEach((table) => {
+    rows.push([], [table.name], ...tableToRows(table));
+  });
+  return rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n");
+}
+
+export const exportFilename = (doc: ExportDocument, format: ExportFormat) =>
+  `${doc.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")}.${format}`;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export function downloadCsv(doc: ExportDocument) {
+  // BOM so Excel opens the file as UTF-8
+  const blob = new Blob(["\uFEFF", toCsv(doc)], {
+    type: "text/csv;charset=utf-8",
+  });
+  downloadBlob(blob, exportFilename(doc, "csv"));
+}
+
+// Sheet names are limited to 31 characters and must be unique regardless of
+// case, so truncated names that collide get a numbered suffix
+function sheetName(tableName: string, usedNames: Set<string>): string {
+  const base = tableName.replace(/[\\/?*[\]:]/g, " ").slice(0, 31);
+  let name = base;
+  for (let n = 2; usedNames.has(name.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    name = `${base.slice(0, 31 - suffix.length)}${suffix}`;
+  }
+  usedNames.add(name.toLowerCase());
+  return name;
+}
+
+// Each table becomes its own sheet, with the title and filters on top
+export async function downloadXlsx(doc: ExportDocument) {
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+
+  doc.tables.forEach((table) => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ...headerRows(doc),
+      [],
+      ...tableToRows(table),
+    ]);
+    XLSX.utils.book_append_sheet(workbook, sheet, sheetName(table.name, usedNames));
+  });
+
+  const buffer = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
+  downloadBlob(
+    new Blob([buffer], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    }),
+    exportFilename(doc, "xlsx"),
+  );
+}
+
+export const downloadExport = (doc: ExportDocument, format: ExportFormat) =>
+  format === "csv" ? downloadCsv(doc) : downloadXlsx(doc);
@@ -0,0 +1,257 @@
+import { z } from "zod";
+import { bucketStart, DateRange, eachDay } from "./explorer";
+
+// External series (weather, occupancy) plotted against power. A source only
+// has to return readings for a date range, so a weather API or a building
+// access system can be added next to the CSV import and the stub.
+
+export type ExternalSeriesKind = "temperature" | "humidity" | "occupancy";
+
+export const EXTERNAL_SERIES: {
+  id: ExternalSeriesKind;
+  label: string;
+  unit: string;
+  color: string;
+}[] = [
+  { id: "temperature", label: "Temperature", unit: "°C", color: "#ef4444" },
+  { id: "humidity", label: "Humidity", unit: "%", color: "#0ea5e9" },
+  { id: "occupancy", label: "Occupancy", unit: "people", color: "#22c55e" },
+];
+
+export interface ExternalReading {
+  timestamp: string;
+  value: number;
+}
+
+export type ExternalSeriesData = Partial<
+  Record<ExternalSeriesKind, ExternalReading[]>
+>;
+
+export interface ExternalSeriesSource {
+  id: string;
+  label: string;
+  load: (range: DateRange) => Promise<ExternalSeriesData>;
+}
+
+const inRange = (timestamp: string, { start, end }: DateRange) =>
+  timestamp.slice(0, 10) >= start && timestamp.slice(0, 10) <= end;
+
+// CSV
+
+const COLUMN_ALIASES: Record<ExternalSeriesKind | "timestamp", string[]> = {
+  timestamp: ["timestamp", "time", "datetime", "date", "waktu"],
+  temperature: ["temperature", "temp", "suhu"],
+  humidity: ["humidity", "rh", "kelembaban"],
+  occupancy: ["occupancy", "occupants", "people", "headcount"],
+};
+
+// First row is the header; the separator is a comma or, as exported by
+// Indonesian-locale spreadsheets, a semicolon. Units in brackets are ignored,
+// so "Temperature (°C)" is recognised.
+export function parseExternalCsv(text: string): ExternalSeriesData {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length < 2) throw new Error("The CSV file has no data rows");
+  const separator = lines[0].includes(";") ? ";" : ",";
+  const header = lines[0]
+    .split(separator)
+    .map((name) => name.replace(/\(.*\)|\[.*\]|"/g, "").trim().toLowerCase());
+  const column = (key: keyof typeof COLUMN_ALIASES) =>
+    header.findIndex((name) => COLUMN_ALIASES[key].includes(name));
+
+  const timestampColumn = column("timestamp");
+  if (timestampColumn < 0) throw new Error("The CSV file needs a timestamp column");
+  const columns = EXTERNAL_SERIES.map(({ id }) => ({ id, index: column(id) })).filter(
+    ({ index }) => index >= 0,
+  );
+  if (columns.length === 0) {
+    throw new Error("The CSV file needs a temperature, humidity or occupancy column");
+  }
+
+  const data: ExternalSeriesData = {};
+  lines.slice(1).forEach((line) => {
+    const cells = line.split(separator).map((cell) => cell.replace(/"/g, "").trim());
+    // Date-only timestamps are read as local midnight
+    const raw = cells[timestampColumn] ?? "";
+    const timestamp = raw.length === 10 ? `${raw}T00:00` : raw.replace(" ", "T");
+    if (!timestamp || Number.isNaN(new Date(timestamp).getTime())) return;
+    columns.forEach(({ id, index }) => {
+      const value = Number(cells[index]?.replace(",", "."));
+      if (cells[index] === "" || !Number.isFinite(value)) return;
+      (data[id] ??= []).push({ timestamp, value });
+    });
+  });
+  return data;
+}
+
+export const csvSource = (name: string, data: ExternalSeriesData): ExternalSeriesSource => ({
+  id: "csv",
+  label: `CSV: ${name}`,
+  load: async (range) =>
+    Object.fromEntries(
+      Object.entries(data).map(([kind, readings]) => [
+        kind,
+        (readings ?? []).filter((reading) => inRange(reading.timestamp, range)),
+      ]),
+    ),
+});
+
+// Local service
+
+const EXTERNAL_SERIES_URL = process.env.NEXT_PUBLIC_EXTERNAL_SERIES_URL;
+
+const serviceResponseSchema = z.object({
+  readings: z.array(
+    z.object({
+      timestamp: z.string(),
+      temperature: z.number().nullish(),
+      humidity: z.number().nullish(),
+      occupancy: z.number().nullish(),
+    }),
+  ),
+});
+
+// GET {NEXT_PUBLIC_EXTERNAL_SERIES_URL}?start=YYYY-MM-DD&end=YYYY-MM-DD
+const serviceSource = (url: string): ExternalSeriesSource => ({
+  id: "service",
+  label: "Local service",
+  load: async ({ start, end }) => {
+    const response = await fetch(`${url}?start=${start}&end=${end}`);
+    if (!response.ok) {
+      throw new Error(`External series service returned ${response.status}`);
+    }
+    const { readings } = serviceResponseSchema.parse(await response.json());
+    const data: ExternalSeriesData = {};
+    readings.forEach((reading) => {
+      EXTERNAL_SERIES.forEach(({ id }) => {
+        const value = reading[id];
+        if (value !== null && value !== undefined) {
+          (data[id] ??= []).push({ timestamp: reading.timestamp, value });
+        }
+      });
+    });
+    return data;
+  },
+});
+
+// Stub
+
+// Deterministic noise in [-1, 1] so the stub draws the same curve every time
+const noise = (seed: string) => {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  return ((hash >>> 0) % 2001) / 1000 - 1;
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Hourly sample data shaped like Bandung weather (warmest mid-afternoon) and
+// a weekday lecture schedule, for trying the overlay without a data feed
+const stubSource: ExternalSeriesSource = {
+  id: "stub",
+  label: "Sample data (stub)",
+  load: async (range) => {
+    const data: Required<ExternalSeriesData> = {
+      temperature: [],
+      humidity: [],
+      occupancy: [],
+    };
+    eachDay(range).forEach((day) => {
+      const weekday = ![0, 6].includes(new Date(`${day}T00:00:00Z`).getUTCDay());
+      const dayOffset = noise(day) * 1.5;
+      for (let hour = 0; hour < 24; hour++) {
+        const timestamp = `${day}T${pad(hour)}:00`;
+        const temperature =
+          23 + dayOffset + 4.5 * Math.cos((2 * Math.PI * (hour - 14)) / 24) + noise(timestamp) * 0.5;
+        const inSession = weekday && hour >= 7 && hour < 18;
+        const occupancy = inSession
+          ? 1200 * Math.sin((Math.PI * (hour - 6.5)) / 12) * (1 + noise(`${timestamp}o`) * 0.1)
+          : weekday
+            ? 60
+            : 30;
+        data.temperature.push({ timestamp, value: Number(temperature.toFixed(1)) });
+        data.humidity.push({
+          timestamp,
+          value: Number(Math.min(98, 78 - 3 * (temperature - 23) + noise(`${timestamp}h`) * 3).toFixed(0)),
+        });
+        data.occupancy.push({ timestamp, value: Math.round(occupancy) });
+      }
+    });
+    return data;
+  },
+};
+
+// The configured service first, then the stub
+export const BUILTIN_SOURCES: ExternalSeriesSource[] = EXTERNAL_SERIES_URL
+  ? [serviceSource(EXTERNAL_SERIES_URL), stubSource]
+  : [stubSource];
+
+// Alignment
+
+// Mean of the readings in each hourly or daily bucket, keyed like the
+// explorer buckets (YYYY-MM-DDTHH:00 or YYYY-MM-DD)
+export function bucketAverages(
+  readings: ExternalReading[],
+  granularity: "hourly" | "daily",
+): Record<string, number> {
+  const sums = new Map<string, { total: number; count: number }>();
+  readings.forEach((reading) => {
+    const key = bucketStart(reading.timestamp, granularity);
+    const sum = sums.get(key) ?? { total: 0, count: 0 };
+    sum.total += reading.value;
+    sum.count++;
+    sums.set(key, sum);
+  });
+  return Object.fromEntries(
+    Array.from(sums.entries()).map(([key, sum]) => [key, sum.total / sum.count]),
+  );
+}
+
+// Statistics
+
+export interface Regression {
+  n: number;
+  // Pearson correlation
+  r: number;
+  r2: number;
+  // power = intercept + slope * external
+  slope: number;
+  intercept: number;
+}
+
+// Least squares fit of power on the external series over the keys both
+// have; null with fewer than three pairs or a constant series
+export function regress(
+  external: Record<string, number>,
+  power: Record<string, number>,
+): Regression | null {
+  const keys = Object.keys(external).filter((key) => power[key] !== undefined);
+  const n = keys.length;
+  if (n < 3) return null;
+  const xs = keys.map((key) => external[key]);
+  const ys = keys.map((key) => power[key]);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - meanX) * (ys[i] - meanY);
+    sxx += (x - meanX) ** 2;
+    syy += (ys[i] - meanY) ** 2;
+  });
+  if (sxx === 0 || syy === 0) return null;
+
+  const r = sxy / Math.sqrt(sxx * syy);
+  const slope = sxy / sxx;
+  return { n, r, r2: r * r, slope, intercept: meanY - slope * meanX };
+}
+
+export const correlationStrength = (r: number) => {
+  const magnitude = Math.abs(r);
+  const strength =
+    magnitude >= 0.7 ? "Strong" : magnitude >= 0.4 ? "Moderate" : magnitude >= 0.2 ? "Weak" : "No";
+  return strength === "No"
+    ? "No clear relation"
+    : `${strength} ${r > 0 ? "positive" : "negative"}`;
+};
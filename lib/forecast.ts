@@ -0,0 +1,282 @@
+import { totalPhases } from "./daily-comparison";
+import { ElisaFilters } from "./elisa-client";
+import {
+  addDays,
+  aggregateReadings,
+  eachDay,
+  loadRangeReadings,
+} from "./explorer";
+
+// Short-term consumption forecasts computed in the browser from the
+// explorer's range loaders. Seasonal naive repeats the last season;
+// Holt-Winters is the additive variant with a small parameter grid search.
+
+export type ForecastMethod = "seasonal_naive" | "holt_winters";
+
+export const FORECAST_METHODS: { id: ForecastMethod; label: string }[] = [
+  { id: "seasonal_naive", label: "Seasonal naive" },
+  { id: "holt_winters", label: "Holt-Winters" },
+];
+
+// Daily page: hourly series with a weekly season. Monthly page: daily totals
+// with a weekly season.
+export const HOURLY_SEASON = 24 * 7;
+export const DAILY_SEASON = 7;
+export const DAILY_HISTORY_DAYS = 28;
+export const MONTHLY_HISTORY_DAYS = 182;
+
+// 95% interval
+const Z = 1.96;
+
+export interface ForecastPoint {
+  value: number;
+  low: number;
+  high: number;
+}
+
+export interface Forecast {
+  points: ForecastPoint[];
+  // Standard deviation of the one-step in-sample errors
+  residualStd: number;
+}
+
+interface Fit {
+  forecast: number[];
+  residuals: number[];
+}
+
+function seasonalNaive(history: number[], season: number, horizon: number): Fit {
+  const last = history.slice(-season);
+  return {
+    forecast: Array.from({ length: horizon }, (_, i) => last[i % last.length] ?? 0),
+    residuals: history.slice(season).map((value, i) => value - history[i]),
+  };
+}
+
+function holtWintersFit(
+  history: number[],
+  season: number,
+  horizon: number,
+  alpha: number,
+  beta: number,
+  gamma: number,
+): Fit {
+  const mean = (values: number[]) =>
+    values.reduce((sum, v) => sum + v, 0) / values.length;
+  const first = mean(history.slice(0, season));
+  let level = first;
+  let trend = (mean(history.slice(season, 2 * season)) - first) / season;
+  const seasonal = history.slice(0, season).map((value) => value - first);
+
+  const residuals: number[] = [];
+  for (let t = season; t < history.length; t++) {
+    const s = seasonal[t % season];
+    residuals.push(history[t] - (level + trend + s));
+    const previousLevel = level;
+    level = alpha * (history[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonal[t % season] = gamma * (history[t] - level) + (1 - gamma) * s;
+  }
+
+  const forecast = Array.from(
+    { length: horizon },
+    (_, i) => level + (i + 1) * trend + seasonal[(history.length + i) % season],
+  );
+  return { forecast, residuals };
+}
+
+const ALPHAS = [0.1, 0.3, 0.5];
+const BETAS = [0, 0.05, 0.1];
+const GAMMAS = [0.1, 0.3, 0.5];
+
+// Picks the smoothing parameters with the lowest in-sample squared error
+function holtWinters(history: number[], season: number, horizon: number): Fit {
+  let best = seasonalNaive(history, season, horizon);
+  let bestError = Infinity;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of GAMMAS) {
+        const fit = holtWintersFit(history, season, horizon, alpha, beta, gamma);
+        const error = fit.residuals.reduce((sum, r) => sum + r * r, 0);
+        if (error < bestError) {
+          best = fit;
+          bestError = error;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+export function forecastSeries(
+  history: number[],
+  season: number,
+  horizon: number,
+  method: ForecastMethod,
+): Forecast {
+  if (history.length < season) {
+    throw new Error("Not enough history for a forecast");
+  }
+  // Holt-Winters needs two full seasons to initialise its trend
+  const fit =
+    method === "holt_winters" && history.length >= 2 * season
+      ? holtWinters(history, season, horizon)
+      : seasonalNaive(history, season, horizon);
+
+  const residualStd = Math.sqrt(
+    fit.residuals.reduce((sum, r) => sum + r * r, 0) /
+      Math.max(fit.residuals.length, 1),
+  );
+  // Uncertainty grows with the number of seasons ahead
+  const points = fit.forecast.map((value, i) => {
+    const spread = Z * residualStd * Math.sqrt(1 + Math.floor(i / season));
+    return {
+      value: Math.max(value, 0),
+      low: Math.max(value - spread, 0),
+      high: Math.max(value + spread, 0),
+    };
+  });
+  return { points, residualStd };
+}
+
+// Mean absolute percentage error over non-zero actuals
+export function mape(actual: number[], predicted: number[]): number | null {
+  const errors = actual.flatMap((value, i) =>
+    value !== 0 && predicted[i] !== undefined
+      ? [Math.abs((value - predicted[i]) / value)]
+      : [],
+  );
+  return errors.length
+    ? (errors.reduce((sum, e) => sum + e, 0) / errors.length) * 100
+    : null;
+}
+
+// Holds out the last `horizon` points, forecasts them from the rest and
+// scores the result
+export function backtest(
+  history: number[],
+  season: number,
+  horizon: number,
+  method: ForecastMethod,
+): number | null {
+  const train = history.slice(0, -horizon);
+  if (train.length < season) return null;
+  const { points } = forecastSeries(train, season, horizon, method);
+  return mape(
+    history.slice(-horizon),
+    points.map((p) => p.value),
+  );
+}
+
+// Sum of a forecast window; interval half-widths are combined as independent
+// errors
+export function forecastTotal(points: ForecastPoint[]): ForecastPoint {
+  const value = points.reduce((sum, p) => sum + p.value, 0);
+  const spread = Math.sqrt(
+    points.reduce((sum, p) => sum + ((p.high - p.low) / 2) ** 2, 0),
+  );
+  return { value, low: Math.max(value - spread, 0), high: value + spread };
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export interface HistorySeries {
+  // Bucket keys: YYYY-MM-DDTHH:00 for hourly series, YYYY-MM-DD for daily
+  keys: string[];
+  values: number[];
+}
+
+// Hourly energy of a day's readings keyed like HistorySeries
+export const hourlyTotals = (
+  readings: { timestamp: string; R: number; S: number; T: number }[],
+): Record<string, number> =>
+  Object.fromEntries(
+    aggregateReadings(
+      readings.map((reading) => ({
+        timestamp: reading.timestamp,
+        energy: totalPhases(reading),
+        cost: null,
+      })),
+      "hourly",
+    ).map((bucket) => [bucket.start, bucket.energy]),
+  );
+
+// Hourly energy for the DAILY_HISTORY_DAYS days before `date`. Missing hours
+// repeat the same hour of the previous day so gaps do not read as zero load.
+export async function loadHourlyHistory(
+  date: string,
+  filters: ElisaFilters,
+): Promise<HistorySeries> {
+  const range = {
+    start: addDays(date, -DAILY_HISTORY_DAYS),
+    end: addDays(date, -1),
+  };
+  const buckets = new Map(
+    aggregateReadings(
+      await loadRangeReadings(range, "hourly", filters),
+      "hourly",
+    ).map((bucket) => [bucket.start, bucket.energy]),
+  );
+  const keys = eachDay(range).flatMap((day) =>
+    Array.from({ length: 24 }, (_, hour) => `${day}T${pad(hour)}:00`),
+  );
+  const values: number[] = [];
+  keys.forEach((key, i) => {
+    values.push(buckets.get(key) ?? values[i - 24] ?? 0);
+  });
+  return { keys, values };
+}
+
+// Daily totals for the MONTHLY_HISTORY_DAYS days before `month` (YYYY-MM)
+export async function loadDailyHistory(
+  month: string,
+  filters: ElisaFilters,
+): Promise<HistorySeries> {
+  const first = `${month}-01`;
+  const range = { start: addDays(first, -MONTHLY_HISTORY_DAYS), end: addDays(first, -1) };
+  const totals = new Map(
+    (await loadRangeReadings(range, "daily", filters)).map((reading) => [
+      reading.timestamp.slice(0, 10),
+      reading.energy,
+    ]),
+  );
+  const keys = eachDay(range);
+  const values: number[] = [];
+  keys.forEach((key, i) => {
+    values.push(totals.get(key) ?? values[i - DAILY_SEASON] ?? 0);
+  });
+  return { keys, values };
+}
+
+export interface ForecastHorizon {
+  id: string;
+  label: string;
+  length: number;
+}
+
+export const HOURLY_HORIZONS: ForecastHorizon[] = [
+  { id: "day", label: "1 day", length: 24 },
+  { id: "week", label: "1 week", length: 24 * 7 },
+];
+
+export const dailyHorizons = (month: string): ForecastHorizon[] => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const days = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return [
+    { id: "week", label: "1 week", length: 7 },
+    { id: "month", label: "Full month", length: days },
+  ];
+};
+
+// Bucket keys of the forecast window, in the same format as HistorySeries
+export function forecastKeys(
+  kind: "hourly" | "daily",
+  start: string,
+  length: number,
+): string[] {
+  return Array.from({ length }, (_, i) =>
+    kind === "hourly"
+      ? `${addDays(start, Math.floor(i / 24))}T${pad(i % 24)}:00`
+      : addDays(start, i),
+  );
+}
@@ -0,0 +1,245 @@
+import { ElisaFilters, getHeatmapData } from "./elisa-client";
+import { HeatmapData } from "./elisa-schemas";
+import { addDays, DateRange, eachDay } from "./explorer";
+import { percentChange } from "./period-comparison";
+
+export const dayNames = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+export const hourLabels = Array(24)
+  .fill(0)
+  .map((_, i) => `${i}:00`);
+
+// Row index (0 = Sunday) of a heatmap cell
+export const toDayIndex = (day: number) => (day + 6) % 7;
+
+// 7 days x 24 hours grid, Sunday first
+export function buildHeatmapGrid(heatmap: HeatmapData["heatmap"]): number[][] {
+  const grid = Array(7)
+    .fill(0)
+    .map(() => Array(24).fill(0));
+  heatmap.forEach((item) => {
+    grid[toDayIndex(item.day)][item.hour] = item.value;
+  });
+  return grid;
+}
+
+// Same red-to-green scale as the heatmap page
+export const heatColor = (ratio: number) =>
+  `rgb(${Math.round(255 * ratio)}, ${Math.round(255 * (1 - ratio))}, 0)`;
+
+export type HeatmapLayout = "week" | "weeks" | "calendar" | "difference";
+
+export const HEATMAP_LAYOUTS: { id: HeatmapLayout; label: string }[] = [
+  { id: "week", label: "Day x hour (one week)" },
+  { id: "weeks", label: "Week x hour (several weeks)" },
+  { id: "calendar", label: "Calendar (daily totals)" },
+  { id: "difference", label: "Difference between two ranges" },
+];
+
+export const WEEK_COUNTS = [4, 8, 12];
+
+export type ColorScale = "linear" | "log" | "quantile";
+
+export const COLOR_SCALES: { id: ColorScale; label: string }[] = [
+  { id: "linear", label: "Linear" },
+  { id: "log", label: "Logarithmic" },
+  { id: "quantile", label: "Quantile" },
+];
+
+export const QUANTILE_CLASSES = 5;
+
+// Maps a value to a 0-1 ratio for heatColor. The log scale keeps a few
+// very large cells from washing out the rest; the quantile scale gives each
+// of QUANTILE_CLASSES color steps the same number of cells.
+export function colorScale(
+  values: number[],
+  scale: ColorScale,
+): (value: number) => number {
+  if (values.length === 0) return () => 0;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  if (scale === "quantile") {
+    const sorted = [...values].sort((a, b) => a - b);
+    return (value) => {
+      // Binary search for the number of values below `value`
+      let below = 0;
+      let high = sorted.length;
+      while (below < high) {
+        const mid = (below + high) >> 1;
+        if (sorted[mid] < value) below = mid + 1;
+        else high = mid;
+      }
+      const rank = Math.min(
+        Math.floor((below / sorted.length) * QUANTILE_CLASSES),
+        QUANTILE_CLASSES - 1,
+      );
+      return QUANTILE_CLASSES > 1 ? rank / (QUANTILE_CLASSES - 1) : 0;
+    };
+  }
+
+  // Shifted so zero and negative readings stay defined on the log scale
+  const transform =
+    scale === "log"
+      ? (value: number) => Math.log1p(value - min)
+      : (value: number) => value;
+  const low = transform(min);
+  const span = transform(max) - low;
+  return (value) =>
+    span > 0 ? Math.min(Math.max((transform(value) - low) / span, 0), 1) : 0;
+}
+
+// Value at each quantile boundary, for the legend
+export function quantileBreaks(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length === 0) return [];
+  return Array.from({ length: QUANTILE_CLASSES - 1 }, (_, i) => {
+    const index = Math.floor(((i + 1) / QUANTILE_CLASSES) * sorted.length);
+    return sorted[Math.min(index, sorted.length - 1)];
+  });
+}
+
+// Calendar date of a cell in a week starting on `start` (a Sunday)
+export const cellDate = (start: string, dayIndex: number) =>
+  addDays(start, dayIndex);
+
+export interface WeekGrid {
+  start: string;
+  grid: number[][];
+}
+
+// The `weeks` weeks ending with the one starting on `start`, oldest first
+export async function loadWeekGrids(
+  start: string,
+  filters: ElisaFilters,
+  weeks: number,
+): Promise<WeekGrid[]> {
+  const starts = Array.from({ length: weeks }, (_, i) =>
+    addDays(start, -7 * (weeks - 1 - i)),
+  );
+  const results = await Promise.all(
+    starts.map((weekStart) =>
+      getHeatmapData(weekStart, addDays(weekStart, 6), filters),
+    ),
+  );
+  return results.map((data, i) => ({
+    start: starts[i],
+    grid: buildHeatmapGrid(data.heatmap),
+  }));
+}
+
+// One row per day across the loaded weeks
+export function stackWeeks(weeks: WeekGrid[]): {
+  dates: string[];
+  grid: number[][];
+} {
+  const dates = weeks.flatMap((week) =>
+    week.grid.map((_, dayIndex) => cellDate(week.start, dayIndex)),
+  );
+  return { dates, grid: weeks.flatMap((week) => week.grid) };
+}
+
+export interface CalendarCell {
+  date: string;
+  value: number | null;
+}
+
+// GitHub-style year calendar: one column per week, one row per weekday
+// (0 = Sunday). Days outside the year are null.
+export function buildCalendar(
+  year: number,
+  totals: { date: string; value: number }[],
+): (CalendarCell | null)[][] {
+  const values = new Map(totals.map((t) => [t.date, t.value]));
+  const first = `${year}-01-01`;
+  const offset = new Date(`${first}T00:00:00Z`).getUTCDay();
+  const columns: (CalendarCell | null)[][] = [];
+  for (let day = addDays(first, -offset); day <= `${year}-12-31`; day = addDays(day, 7)) {
+    columns.push(
+      Array.from({ length: 7 }, (_, i) => {
+        const date = addDays(day, i);
+        if (!date.startsWith(String(year))) return null;
+        return { date, value: values.get(date) ?? null };
+      }),
+    );
+  }
+  return columns;
+}
+
+// Blue for less energy than the baseline, red for more; ratio is -1 to 1
+export const divergingColor = (ratio: number) => {
+  const t = Math.min(Math.abs(ratio), 1);
+  const fade = Math.round(255 * (1 - t));
+  return ratio < 0 ? `rgb(${fade}, ${fade}, 255)` : `rgb(255, ${fade}, ${fade})`;
+};
+
+// Days of each weekday in a range, Sunday first
+export function weekdayCounts(range: DateRange): number[] {
+  const counts: number[] = Array(7).fill(0);
+  eachDay(range).forEach((date) => {
+    counts[new Date(`${date}T00:00:00Z`).getUTCDay()] += 1;
+  });
+  return counts;
+}
+
+// /api/heatmap sums every matching weekday of a range, so a two-week range
+// doubles each cell. Dividing each row by how often its weekday occurs gives
+// the average week, which compares across ranges of any length.
+export function averageWeekGrid(grid: number[][], range: DateRange): number[][] {
+  const counts = weekdayCounts(range);
+  return grid.map((row, dayIndex) =>
+    row.map((value) => (counts[dayIndex] > 0 ? value / counts[dayIndex] : 0)),
+  );
+}
+
+export interface HeatmapDiffCell {
+  dayIndex: number;
+  hour: number;
+  baseline: number;
+  current: number;
+  delta: number;
+  deltaPct: number | null;
+}
+
+// Per-cell change from `baseline` to `current`, both 7 x 24 grids
+export function diffGrids(
+  current: number[][],
+  baseline: number[][],
+): HeatmapDiffCell[] {
+  return current.flatMap((row, dayIndex) =>
+    row.map((value, hour) => {
+      const before = baseline[dayIndex]?.[hour] ?? 0;
+      return {
+        dayIndex,
+        hour,
+        baseline: before,
+        current: value,
+        delta: value - before,
+        deltaPct: percentChange(value, before),
+      };
+    }),
+  );
+}
+
+// Largest changes in either direction; relative ranking skips cells with a
+// zero baseline
+export function topChanges(
+  cells: HeatmapDiffCell[],
+  by: "absolute" | "relative",
+  count = 10,
+): HeatmapDiffCell[] {
+  const magnitude = (cell: HeatmapDiffCell) =>
+    by === "absolute" ? Math.abs(cell.delta) : Math.abs(cell.deltaPct ?? 0);
+  return cells
+    .filter((cell) => by === "absolute" || cell.deltaPct !== null)
+    .sort((a, b) => magnitude(b) - magnitude(a))
+    .slice(0, count);
+}
@@ -0,0 +1,116 @@
+import {
+  getFakultasOptions,
+  getGedungOptions,
+  getLantaiOptions,
+  getNowData,
+  toApiFilters,
+} from "./elisa-client";
+import { FilterOption } from "./elisa-schemas";
+
+// Fakultas -> Gedung -> Lantai tree with today's energy and cost per node.
+// Levels are loaded when a node is expanded, so the campus overview costs one
+// /api/now request per faculty rather than one per floor.
+
+export type HierarchyLevel = "fakultas" | "gedung" | "lantai";
+
+// Filter values of a node, "all" below its own level
+export interface HierarchyScope {
+  fakultas: string;
+  gedung: string;
+  lantai: string;
+}
+
+export interface HierarchyNode {
+  key: string;
+  level: HierarchyLevel;
+  label: string;
+  scope: HierarchyScope;
+  energy: number | null;
+  cost: number | null;
+  // null until loaded; floors have no children
+  children: HierarchyNode[] | null;
+}
+
+export const ROOT_SCOPE: HierarchyScope = {
+  fakultas: "all",
+  gedung: "all",
+  lantai: "all",
+};
+
+export const nodeKey = (scope: HierarchyScope) =>
+  [scope.fakultas, scope.gedung, scope.lantai]
+    .filter((value) => value !== "all")
+    .join("/");
+
+// Level and scope of the children of `parent` (null for the campus root)
+function childLevel(parent: HierarchyNode | null): HierarchyLevel | null {
+  if (!parent) return "fakultas";
+  if (parent.level === "fakultas") return "gedung";
+  if (parent.level === "gedung") return "lantai";
+  return null;
+}
+
+function childOptions(parent: HierarchyNode | null): Promise<FilterOption[]> {
+  if (!parent) return getFakultasOptions();
+  if (parent.level === "fakultas") return getGedungOptions(parent.scope.fakultas);
+  return getLantaiOptions(parent.scope.fakultas, parent.scope.gedung);
+}
+
+export async function loadChildren(
+  parent: HierarchyNode | null,
+  date: string,
+): Promise<HierarchyNode[]> {
+  const level = childLevel(parent);
+  if (!level) return [];
+  const options = await childOptions(parent);
+  const scopes = options.map((option) => ({
+    ...(parent?.scope ?? ROOT_SCOPE),
+    [level]: option.value,
+  }));
+
+  const metrics = await Promise.allSettled(
+    scopes.map((scope) => getNowData(date, toApiFilters(scope))),
+  );
+  return options
+    .map((option, i) => {
+      const result = metrics[i];
+      const today = result.status === "fulfilled" ? result.value.today_data : null;
+      return {
+        key: nodeKey(scopes[i]),
+        level,
+        label: option.label,
+        scope: scopes[i],
+        energy: today?.total_daya ?? null,
+        cost: today?.total_cost ?? null,
+        children: level === "lantai" ? [] : null,
+      };
+    })
+    .sort((a, b) => (b.energy ?? -1) - (a.energy ?? -1));
+}
+
+// Copy of the tree with `children` attached to the node with `key`
+export function withChildren(
+  nodes: HierarchyNode[],
+  key: string,
+  children: HierarchyNode[],
+): HierarchyNode[] {
+  return nodes.map((node) =>
+    node.key === key
+      ? { ...node, children }
+      : node.children
+        ? { ...node, children: withChildren(node.children, key, children) }
+        : node,
+  );
+}
+
+export function findNode(
+  nodes: HierarchyNode[],
+  key: string,
+): HierarchyNode | null {
+  for (const node of nodes) {
+    if (node.key === key) return node;
+    const found = node.children ? findNode(node.children, key) : null;
+    if (found) return found;
+  }
+  return null;
+}
@@ -0,0 +1,120 @@
+import { getFacultyComparison } from "./elisa-client";
+import { FacultyComparisonData, FacultyInfo } from "./elisa-schemas";
+import { previousMonth } from "./period-comparison";
+
+// Energy intensity (IKE, kWh per m² per month) benchmarked against the
+// building energy intensity classes of the Indonesian Ministry of Energy
+// (ESDM). IKE is taken from the backend so the benchmark matches the value
+// shown on the Faculty page.
+
+export type IkeStandard = "ac" | "non_ac";
+
+export interface IkeBand {
+  label: string;
+  min: number;
+  max: number;
+  color: string;
+}
+
+export const IKE_STANDARDS: Record<
+  IkeStandard,
+  { label: string; bands: IkeBand[] }
+> = {
+  ac: {
+    label: "Air-conditioned building",
+    bands: [
+      { label: "Very efficient", min: 0, max: 7.92, color: "#16a34a" },
+      { label: "Efficient", min: 7.92, max: 12.08, color: "#65a30d" },
+      { label: "Fairly efficient", min: 12.08, max: 14.58, color: "#ca8a04" },
+      { label: "Somewhat wasteful", min: 14.58, max: 19.17, color: "#ea580c" },
+      { label: "Wasteful", min: 19.17, max: 23.75, color: "#dc2626" },
+      { label: "Very wasteful", min: 23.75, max: Infinity, color: "#991b1b" },
+    ],
+  },
+  non_ac: {
+    label: "Non air-conditioned building",
+    bands: [
+      { label: "Efficient", min: 0, max: 1.67, color: "#16a34a" },
+      { label: "Fairly efficient", min: 1.67, max: 2.5, color: "#ca8a04" },
+      { label: "Wasteful", min: 2.5, max: 3.34, color: "#dc2626" },
+      { label: "Very wasteful", min: 3.34, max: Infinity, color: "#991b1b" },
+    ],
+  },
+};
+
+export const BENCHMARK_MONTHS = 6;
+
+export interface FacultyBenchmark {
+  faculty: string;
+  energy: number;
+  cost: number;
+  area: number;
+  students: number;
+  // Null when the faculty has no recorded area or students
+  ike: number | null;
+  energyPerStudent: number | null;
+  band: IkeBand | null;
+}
+
+export interface BenchmarkMonth {
+  month: string;
+  data: FacultyComparisonData;
+}
+
+export const bandOf = (value: number | null, bands: IkeBand[]) =>
+  value === null
+    ? null
+    : bands.find((band) => value >= band.min && value < band.max) ?? null;
+
+export function benchmarkFaculties(
+  info: FacultyInfo[],
+  standard: IkeStandard,
+): FacultyBenchmark[] {
+  const { bands } = IKE_STANDARDS[standard];
+  return info.map((item) => {
+    // Faculties without a recorded area have no meaningful IKE
+    const ike = item.area > 0 ? item.ike : null;
+    return {
+      faculty: item.faculty,
+      energy: item.energy,
+      cost: item.cost,
+      area: item.area,
+      students: item.students,
+      ike,
+      energyPerStudent: item.students > 0 ? item.energy / item.students : null,
+      band: bandOf(ike, bands),
+    };
+  });
+}
+
+// Rank 1 is the lowest IKE; faculties without an IKE are left unranked
+export function rankByIke(benchmarks: FacultyBenchmark[]) {
+  const ranked = benchmarks
+    .filter((b) => b.ike !== null)
+    .sort((a, b) => a.ike! - b.ike!);
+  return new Map(ranked.map((b, index) => [b.faculty, index + 1]));
+}
+
+export const recentMonths = (month: string, count: number) => {
+  const months = [month];
+  while (months.length < count) {
+    months.unshift(previousMonth(months[0], "previous_month"));
+  }
+  return months;
+};
+
+// Months that fail to load are skipped rather than failing the whole view
+export async function loadBenchmarkHistory(
+  month: string,
+  count = BENCHMARK_MONTHS,
+): Promise<BenchmarkMonth[]> {
+  const months = recentMonths(month, count);
+  const results = await Promise.allSettled(months.map((m) => getFacultyComparison(m)));
+  return results.flatMap((result, index) => {
+    if (result.status === "rejected") {
+      console.error(`Error fetching faculty data for ${months[index]}:`, result.reason);
+      return [];
+    }
+    return [{ month: months[index], data: result.value }];
+  });
+}
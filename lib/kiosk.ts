@@ -0,0 +1,132 @@
+import {
+  getFacultyComparison,
+  getHeatmapData,
+  getNowData,
+} from "./elisa-client";
+import {
+  FacultyComparisonData,
+  HeatmapData,
+  NowData,
+} from "./elisa-schemas";
+import { addDays } from "./explorer";
+
+// Wall-display slideshow for /kiosk. Everything is configured through the URL
+// so a lobby TV only needs a bookmark, e.g.
+//   /kiosk?slides=campus,faculties,heatmap,ranking&faculties=FTI,FMIPA&interval=20
+
+export type KioskSlideType = "campus" | "faculties" | "heatmap" | "ranking";
+
+export const KIOSK_SLIDE_TYPES: KioskSlideType[] = [
+  "campus",
+  "faculties",
+  "heatmap",
+  "ranking",
+];
+
+export type KioskSlide =
+  | { type: "campus" }
+  | { type: "faculty"; faculty: string }
+  | { type: "heatmap" }
+  | { type: "ranking" };
+
+export interface KioskConfig {
+  slides: KioskSlide[];
+  faculties: string[];
+  // Seconds per slide
+  interval: number;
+}
+
+export const DEFAULT_KIOSK_INTERVAL = 20;
+export const MIN_KIOSK_INTERVAL = 5;
+export const KIOSK_REFRESH_INTERVAL = 60 * 1000;
+
+const listParam = (params: URLSearchParams, name: string) =>
+  (params.get(name) ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+// Unknown slide names are ignored; the faculties slide expands to one slide
+// per listed faculty and is dropped when none are listed
+export function parseKioskConfig(params: URLSearchParams): KioskConfig {
+  const requested = listParam(params, "slides").filter(
+    (type): type is KioskSlideType =>
+      KIOSK_SLIDE_TYPES.includes(type as KioskSlideType),
+  );
+  const types = requested.length ? requested : KIOSK_SLIDE_TYPES;
+  const faculties = listParam(params, "faculties");
+  const seconds = Number(params.get("interval"));
+
+  return {
+    slides: types.flatMap((type): KioskSlide[] =>
+      type === "faculties"
+        ? faculties.map((faculty) => ({ type: "faculty", faculty }))
+        : [{ type }],
+    ),
+    faculties,
+    interval:
+      Number.isFinite(seconds) && seconds > 0
+        ? Math.max(seconds, MIN_KIOSK_INTERVAL)
+        : DEFAULT_KIOSK_INTERVAL,
+  };
+}
+
+export const slideKey = (slide: KioskSlide) =>
+  slide.type === "faculty" ? `faculty:${slide.faculty}` : slide.type;
+
+export interface KioskData {
+  // Keyed by faculty, "" for the whole campus
+  now: Record<string, NowData>;
+  heatmap: HeatmapData | null;
+  ranking: FacultyComparisonData | null;
+  updatedAt: number;
+}
+
+// Only the data the configured slides need; a failing request leaves its
+// slide empty instead of blanking the display
+export async function loadKioskData(
+  config: KioskConfig,
+  today: string,
+): Promise<KioskData> {
+  const types = new Set(config.slides.map((slide) => slide.type));
+  const scopes = [
+    ...(types.has("campus") ? [""] : []),
+    ...(types.has("faculty") ? config.faculties : []),
+  ];
+  const weekStart = addDays(today, -new Date(`${today}T00:00:00Z`).getUTCDay());
+
+  const [now, heatmap, ranking] = await Promise.all([
+    Promise.allSettled(
+      scopes.map((faculty) =>
+        getNowData(today, { faculty, building: "", floor: "" }),
+      ),
+    ),
+    types.has("heatmap")
+      ? getHeatmapData(weekStart, addDays(weekStart, 6), {
+          faculty: "",
+          building: "",
+          floor: "",
+        }).catch((err) => {
+          console.error("Error fetching kiosk heatmap:", err);
+          return null;
+        })
+      : null,
+    types.has("ranking")
+      ? getFacultyComparison(today.slice(0, 7)).catch((err) => {
+          console.error("Error fetching kiosk ranking:", err);
+          return null;
+        })
+      : null,
+  ]);
+
+  return {
+    now: Object.fromEntries(
+      now.flatMap((result, i) =>
+        result.status === "fulfilled" ? [[scopes[i], result.value]] : [],
+      ),
+    ),
+    heatmap,
+    ranking,
+    updatedAt: Date.now(),
+  };
+}
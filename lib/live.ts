@@ -0,0 +1,179 @@
+import { z } from "zod";
+import { cacheKey } from "./offline-cache";
+
+// Shared subscription layer for the dashboard pages. When NEXT_PUBLIC_LIVE_URL
+// is set, updates are pushed over a WebSocket (ws:// or wss://) or Server-Sent
+// Events (http:// or https://); otherwise, and whenever the stream is down,
+// each subscription falls back to polling.
+//
+// A channel is the endpoint plus its parameters, e.g. /api/now?date=...
+// Pushed messages are JSON objects with that `channel` and a partial response
+// of the same endpoint: `chart_data` holds only the new readings, any other
+// field replaces the current value.
+
+const LIVE_URL = process.env.NEXT_PUBLIC_LIVE_URL;
+const RECONNECT_DELAY = 30 * 1000;
+
+export const liveChannel = cacheKey;
+
+export interface LiveSubscription {
+  channel: string;
+  pollInterval: number;
+  poll: () => void;
+  // Pages without push support leave this out and are only polled
+  onMessage?: (message: Record<string, unknown>) => void;
+}
+
+interface Entry {
+  subscription: LiveSubscription;
+  timer: ReturnType<typeof setInterval> | null;
+  source: EventSource | null;
+}
+
+const entries = new Set<Entry>();
+let socket: WebSocket | null = null;
+let socketOpen = false;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+const isWebSocketUrl = () => !!LIVE_URL && /^wss?:\/\//.test(LIVE_URL);
+const streamed = (entry: Entry) => !!LIVE_URL && !!entry.subscription.onMessage;
+
+function startPolling(entry: Entry) {
+  if (entry.timer) return;
+  entry.timer = setInterval(entry.subscription.poll, entry.subscription.pollInterval);
+}
+
+function stopPolling(entry: Entry) {
+  if (!entry.timer) return;
+  clearInterval(entry.timer);
+  entry.timer = null;
+}
+
+function dispatch(raw: string, entry?: Entry) {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch (err) {
+    console.error("Ignoring malformed live message:", err);
+    return;
+  }
+  if (!message || typeof message !== "object") return;
+  const { channel } = message as { channel?: unknown };
+  const targets = entry ? [entry] : Array.from(entries);
+  targets.forEach(({ subscription }) => {
+    if (subscription.channel === channel) {
+      subscription.onMessage?.(message as Record<string, unknown>);
+    }
+  });
+}
+
+// One socket carries every channel
+
+function connectSocket() {
+  if (socket || !LIVE_URL) return;
+  socket = new WebSocket(LIVE_URL);
+  socket.onopen = () => {
+    socketOpen = true;
+    entries.forEach((entry) => {
+      if (!streamed(entry)) return;
+      stopPolling(entry);
+      sendSubscribe(entry.subscription.channel);
+    });
+  };
+  socket.onmessage = (event) => dispatch(String(event.data));
+  socket.onclose = () => {
+    socket = null;
+    socketOpen = false;
+    entries.forEach((entry) => streamed(entry) && startPolling(entry));
+    scheduleReconnect();
+  };
+  socket.onerror = () => socket?.close();
+}
+
+function sendSubscribe(channel: string, action = "subscribe") {
+  if (socket && socketOpen) socket.send(JSON.stringify({ action, channel }));
+}
+
+function scheduleReconnect() {
+  if (reconnectTimer || !Array.from(entries).some(streamed)) return;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    if (Array.from(entries).some(streamed)) connectSocket();
+  }, RECONNECT_DELAY);
+}
+
+// Server-Sent Events need one connection per channel
+
+function openEventSource(entry: Entry) {
+  const source = new EventSource(
+    `${LIVE_URL}?channel=${encodeURIComponent(entry.subscription.channel)}`,
+  );
+  entry.source = source;
+  source.onopen = () => stopPolling(entry);
+  source.onmessage = (event) => dispatch(event.data, entry);
+  // EventSource reconnects by itself; poll until it does
+  source.onerror = () => startPolling(entry);
+}
+
+// Starts listening and returns the cleanup function, so a page effect can
+// `return subscribeLive(...)`
+export function subscribeLive(subscription: LiveSubscription): () => void {
+  const entry: Entry = { subscription, timer: null, source: null };
+  entries.add(entry);
+  startPolling(entry);
+
+  if (streamed(entry)) {
+    if (isWebSocketUrl()) {
+      if (socketOpen) {
+        stopPolling(entry);
+        sendSubscribe(subscription.channel);
+      } else {
+        connectSocket();
+      }
+    } else {
+      openEventSource(entry);
+    }
+  }
+
+  return () => {
+    entries.delete(entry);
+    stopPolling(entry);
+    entry.source?.close();
+    if (streamed(entry) && isWebSocketUrl()) {
+      sendSubscribe(subscription.channel, "unsubscribe");
+      if (!Array.from(entries).some(streamed)) socket?.close();
+    }
+  };
+}
+
+// Appends pushed readings to a response, keeping timestamps unique and in
+// order; other fields of the update replace the current ones. Updates that
+// do not match the schema are ignored.
+export function applyLiveUpdate<
+  T extends { chart_data: { timestamp: string }[] },
+>(
+  current: T | null,
+  message: Record<string, unknown>,
+  schema: z.ZodType<Partial<T>>,
+): T | null {
+  if (!current) return current;
+  const result = schema.safeParse(message);
+  if (!result.success) {
+    console.error("Ignoring invalid live update:", result.error.issues);
+    return current;
+  }
+
+  const { chart_data: readings, ...rest } = result.data;
+  const merged = new Map(
+    current.chart_data.map((reading) => [reading.timestamp, reading]),
+  );
+  (readings ?? []).forEach((reading) => merged.set(reading.timestamp, reading));
+
+  return {
+    ...current,
+    ...rest,
+    chart_data: Array.from(merged.values()).sort((a, b) =>
+      a.timestamp.localeCompare(b.timestamp),
+    ),
+  };
+}
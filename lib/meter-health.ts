@@ -0,0 +1,103 @@
+import {
+  checkSeries,
+  DEFAULT_QUALITY_OPTIONS,
+  QualityReport,
+  READING_INTERVAL_MINUTES,
+  READINGS_PER_DAY,
+} from "./data-quality";
+import { totalPhases } from "./daily-comparison";
+import {
+  ElisaFilters,
+  getDailyData,
+  getFakultasOptions,
+  getGedungOptions,
+} from "./elisa-client";
+import { DailyData } from "./elisa-schemas";
+import { DateRange, eachDay, inBatches } from "./explorer";
+
+// Data completeness per faculty, or per building of one faculty, over a few
+// whole days of 15-minute readings
+
+export const HEALTH_DAY_COUNTS = [1, 3, 7];
+
+// Completeness below this is flagged on the health page
+export const COMPLETENESS_TARGET = 0.95;
+
+export interface HealthEntity {
+  key: string;
+  label: string;
+  value: string;
+  // null when the readings could not be loaded
+  report: QualityReport | null;
+  error: string | null;
+}
+
+export async function loadHealthEntities(
+  range: DateRange,
+  fakultas: string | null,
+): Promise<HealthEntity[]> {
+  const options = fakultas
+    ? await getGedungOptions(fakultas)
+    : await getFakultasOptions();
+  const days = eachDay(range);
+  const expected = days.length * READINGS_PER_DAY;
+  const filtersOf = (value: string): ElisaFilters => ({
+    faculty: fakultas ?? value,
+    building: fakultas ? value : "",
+    floor: "",
+  });
+
+  // One request per entity and day, settled so a failure only marks its own
+  // entity
+  const requests = options.flatMap((option) =>
+    days.map((day) => ({ option, day })),
+  );
+  const results = await inBatches(requests, ({ option, day }) =>
+    getDailyData(day, filtersOf(option.value)).then(
+      (value): PromiseSettledResult<DailyData> => ({ status: "fulfilled", value }),
+      (reason): PromiseSettledResult<DailyData> => ({ status: "rejected", reason }),
+    ),
+  );
+
+  return options.map((option, i) => {
+    const entityResults = results.slice(i * days.length, (i + 1) * days.length);
+    const key = fakultas ? `${fakultas}/${option.value}` : option.value;
+    const failed = entityResults.find(
+      (result): result is PromiseRejectedResult => result.status === "rejected",
+    );
+    if (failed) {
+      console.error(`Error fetching readings for ${option.label}:`, failed.reason);
+      return {
+        key,
+        label: option.label,
+        value: option.value,
+        report: null,
+        error:
+          failed.reason instanceof Error
+            ? failed.reason.message
+            : "Unknown error occurred",
+      };
+    }
+    return {
+      key,
+      label: option.label,
+      value: option.value,
+      report: checkSeries(
+        entityResults.flatMap((result) =>
+          result.status === "fulfilled"
+            ? result.value.chart_data.map((reading) => ({
+                timestamp: reading.timestamp,
+                value: totalPhases(reading),
+              }))
+            : [],
+        ),
+        {
+          ...DEFAULT_QUALITY_OPTIONS,
+          intervalMinutes: READING_INTERVAL_MINUTES,
+          expected,
+        },
+      ),
+      error: null,
+    };
+  });
+}
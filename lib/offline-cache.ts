@@ -0,0 +1,104 @@
+// Last successful ELISA response per endpoint and parameter combination,
+// kept in IndexedDB so the dashboards can fall back to it while the backend
+// is unreachable. Which responses are currently being served from the cache
+// is tracked here too, for the "stale since" banner.
+
+const DB_NAME = "elisa-cache";
+const STORE = "responses";
+
+export interface CachedResponse {
+  key: string;
+  endpoint: string;
+  body: unknown;
+  storedAt: number;
+}
+
+// Parameters are sorted so the same filters always map to the same entry
+export const cacheKey = (endpoint: string, params: Record<string, string>) =>
+  `${endpoint}?${new URLSearchParams(
+    Object.entries(params).sort(([a], [b]) => a.localeCompare(b)),
+  ).toString()}`;
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+const cacheAvailable = () => typeof indexedDB !== "undefined";
+
+export async function readCache(key: string): Promise<CachedResponse | null> {
+  if (!cacheAvailable()) return null;
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE).objectStore(STORE).get(key);
+    request.onsuccess = () => resolve((request.result as CachedResponse) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function writeCache(
+  key: string,
+  endpoint: string,
+  body: unknown,
+): Promise<void> {
+  if (!cacheAvailable()) return;
+  const db = await openDatabase();
+  const entry: CachedResponse = { key, endpoint, body, storedAt: Date.now() };
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, "readwrite");
+    transaction.objectStore(STORE).put(entry);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Stale responses
+
+const staleEntries = new Map<string, number>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export function markStale(key: string, storedAt: number) {
+  staleEntries.set(key, storedAt);
+  notify();
+}
+
+export function markFresh(key: string) {
+  if (staleEntries.delete(key)) notify();
+}
+
+// Called once the backend answers again; pages refetch and re-mark whatever
+// still fails
+export function clearStale() {
+  if (staleEntries.size === 0) return;
+  staleEntries.clear();
+  notify();
+}
+
+// Time the oldest response on screen was stored, or null when all are live
+export function staleSince(): number | null {
+  return staleEntries.size ? Math.min(...Array.from(staleEntries.values())) : null;
+}
+
+export function subscribeStale(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
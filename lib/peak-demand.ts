@@ -0,0 +1,112 @@
+import { intervalHours } from "./anomaly";
+import { ElisaFilters } from "./elisa-client";
+import { loadRangeReadings } from "./explorer";
+import { monthRange } from "./report";
+import { HourlyLoad } from "./waste";
+
+// Maximum demand, load factor and load duration curves. Demand is average
+// power over a reading interval: the /api/now power directly, or the energy
+// of a /api/daily reading divided by the reading interval.
+
+export interface DemandReading {
+  timestamp: string;
+  // kW
+  demand: number;
+}
+
+export interface DailyPeak {
+  date: string;
+  timestamp: string;
+  peak: number;
+  average: number;
+  loadFactor: number;
+}
+
+export interface DurationPoint {
+  // Share of time the demand is at or above `demand`, 0-100
+  percent: number;
+  demand: number;
+}
+
+// Enough points for a smooth curve on a month of 15-minute readings
+const DURATION_POINTS = 200;
+
+export function demandFromEnergy(
+  readings: { timestamp: string; energy: number }[],
+): DemandReading[] {
+  const hours = intervalHours(readings.map((reading) => reading.timestamp));
+  return readings.map((reading) => ({
+    timestamp: reading.timestamp,
+    demand: reading.energy / hours,
+  }));
+}
+
+export const findPeak = (readings: DemandReading[]): DemandReading | null =>
+  readings.reduce<DemandReading | null>(
+    (max, reading) => (max === null || reading.demand > max.demand ? reading : max),
+    null,
+  );
+
+// Average over peak demand; 1 means a perfectly flat load
+export function loadFactor(values: number[]): number | null {
+  const peak = Math.max(...values, 0);
+  if (values.length === 0 || peak <= 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length / peak;
+}
+
+export function dailyPeaks(readings: DemandReading[]): DailyPeak[] {
+  const days = new Map<string, DemandReading[]>();
+  readings.forEach((reading) => {
+    const date = reading.timestamp.slice(0, 10);
+    const day = days.get(date) ?? [];
+    day.push(reading);
+    days.set(date, day);
+  });
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([date, dayReadings]) => {
+      const peak = findPeak(dayReadings);
+      const values = dayReadings.map((reading) => reading.demand);
+      if (!peak) return [];
+      return [
+        {
+          date,
+          timestamp: peak.timestamp,
+          peak: peak.demand,
+          average: values.reduce((sum, value) => sum + value, 0) / values.length,
+          loadFactor: loadFactor(values) ?? 0,
+        },
+      ];
+    });
+}
+
+// Demand sorted from highest to lowest against the share of time,
+// resampled to at most DURATION_POINTS points
+export function loadDurationCurve(values: number[]): DurationPoint[] {
+  const sorted = [...values].sort((a, b) => b - a);
+  const n = sorted.length;
+  if (n === 0) return [];
+  const count = Math.min(n, DURATION_POINTS);
+  return Array.from({ length: count }, (_, i) => {
+    const index = count === 1 ? 0 : Math.round((i * (n - 1)) / (count - 1));
+    return { percent: ((index + 1) / n) * 100, demand: sorted[index] };
+  });
+}
+
+// Share of time the demand exceeds `limit`, 0-1
+export const shareAbove = (values: number[], limit: number) =>
+  values.length ? values.filter((value) => value > limit).length / values.length : 0;
+
+// Hourly loads in kWh are average kW over the hour
+export const hourlyLoadFactor = (loads: HourlyLoad[]) =>
+  loadFactor(loads.filter((load) => load.energy > 0).map((load) => load.energy));
+
+// Month of readings up to today, one /api/daily request per day
+export async function loadMonthDemand(
+  month: string,
+  filters: ElisaFilters,
+): Promise<DemandReading[]> {
+  const range = monthRange(month);
+  if (range.start > range.end) return [];
+  return demandFromEnergy(await loadRangeReadings(range, "15min", filters));
+}
@@ -0,0 +1,110 @@
+// Period-over-period comparison: the selected day or month against an earlier
+// one, aligned point by point (time of day on Daily, day of month on Monthly).
+
+export type DailyPeriod = "previous_day" | "last_week";
+export type MonthlyPeriod = "previous_month" | "last_year";
+
+export const DAILY_PERIODS: { id: DailyPeriod; label: string }[] = [
+  { id: "previous_day", label: "Previous day" },
+  { id: "last_week", label: "Same weekday last week" },
+];
+
+export const MONTHLY_PERIODS: { id: MonthlyPeriod; label: string }[] = [
+  { id: "previous_month", label: "Previous month" },
+  { id: "last_year", label: "Same month last year" },
+];
+
+export interface SeriesValue {
+  timestamp: string;
+  value: number;
+}
+
+export interface PeriodPoint {
+  key: string;
+  label: string;
+  // Timestamp of the current reading, when there is one for this point
+  timestamp: string | null;
+  current: number | null;
+  previous: number | null;
+  delta: number | null;
+  deltaPct: number | null;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export function previousDate(date: string, period: DailyPeriod): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - (period === "previous_day" ? 1 : 7));
+  return d.toISOString().slice(0, 10);
+}
+
+export function previousMonth(month: string, period: MonthlyPeriod): string {
+  const [year, monthNumber] = month.split("-").map(Number);
+  if (period === "last_year") return `${year - 1}-${pad(monthNumber)}`;
+  return monthNumber === 1
+    ? `${year - 1}-12`
+    : `${year}-${pad(monthNumber - 1)}`;
+}
+
+export const percentChange = (current: number, previous: number) =>
+  previous !== 0 ? ((current - previous) / previous) * 100 : null;
+
+// Alignment keys: readings of different days line up by time of day, days of
+// different months by day of month
+export const timeOfDayKey = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const dayOfMonthKey = (timestamp: string) =>
+  pad(new Date(timestamp).getDate());
+
+export function alignPeriods(
+  current: SeriesValue[],
+  previous: SeriesValue[],
+  keyOf: (timestamp: string) => string,
+  labelOf: (key: string, timestamp: string | null) => string,
+): PeriodPoint[] {
+  const points = new Map<string, PeriodPoint>();
+  const pointAt = (key: string) => {
+    let point = points.get(key);
+    if (!point) {
+      point = {
+        key,
+        label: "",
+        timestamp: null,
+        current: null,
+        previous: null,
+        delta: null,
+        deltaPct: null,
+      };
+      points.set(key, point);
+    }
+    return point;
+  };
+
+  current.forEach(({ timestamp, value }) => {
+    const point = pointAt(keyOf(timestamp));
+    point.timestamp = timestamp;
+    point.current = (point.current ?? 0) + value;
+  });
+  previous.forEach(({ timestamp, value }) => {
+    const point = pointAt(keyOf(timestamp));
+    point.previous = (point.previous ?? 0) + value;
+  });
+
+  return Array.from(points.values())
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .map((point) => ({
+      ...point,
+      label: labelOf(point.key, point.timestamp),
+      delta:
+        point.current !== null && point.previous !== null
+          ? point.current - point.previous
+          : null,
+      deltaPct:
+        point.current !== null && point.previous !== null
+          ? percentChange(point.current, point.previous)
+          : null,
+    }));
+}
@@ -0,0 +1,88 @@
+import { MonthlyData } from "./elisa-schemas";
+
+// Three-phase imbalance as the largest deviation of a phase from the mean of
+// the three, relative to that mean (the NEMA definition), in percent.
+
+export type Phase = "R" | "S" | "T";
+
+export const PHASES: Phase[] = ["R", "S", "T"];
+
+export const DEFAULT_IMBALANCE_LIMIT = 10;
+
+export interface ImbalancePoint {
+  timestamp: string;
+  R: number;
+  S: number;
+  T: number;
+  average: number;
+  // Null when all phases are zero
+  imbalance: number | null;
+  heaviest: Phase;
+  exceeds: boolean;
+}
+
+export interface ImbalanceSummary {
+  average: number | null;
+  worst: ImbalancePoint | null;
+  flagged: number;
+  // How often each phase carried the most load
+  heaviestCounts: Record<Phase, number>;
+}
+
+export function phaseImbalance(
+  timestamp: string,
+  phases: Record<Phase, number>,
+  limit: number,
+): ImbalancePoint {
+  const average = (phases.R + phases.S + phases.T) / 3;
+  const heaviest = PHASES.reduce((max, phase) =>
+    phases[phase] > phases[max] ? phase : max,
+  );
+  const deviation = Math.max(
+    ...PHASES.map((phase) => Math.abs(phases[phase] - average)),
+  );
+  const imbalance = average !== 0 ? (deviation / Math.abs(average)) * 100 : null;
+
+  return {
+    timestamp,
+    ...phases,
+    average,
+    imbalance,
+    heaviest,
+    exceeds: imbalance !== null && imbalance > limit,
+  };
+}
+
+export const timestampImbalance = (data: MonthlyData, limit: number) =>
+  data.chart_data.map(({ timestamp, R, S, T }) =>
+    phaseImbalance(timestamp, { R, S, T }, limit),
+  );
+
+// daily_data reports the phases as "phase 1/2/3", i.e. R/S/T
+export const dailyImbalance = (data: MonthlyData, limit: number) =>
+  data.daily_data.map((day) =>
+    phaseImbalance(
+      day.timestamp,
+      { R: day["phase 1"], S: day["phase 2"], T: day["phase 3"] },
+      limit,
+    ),
+  );
+
+export function summarizeImbalance(points: ImbalancePoint[]): ImbalanceSummary {
+  const measured = points.filter((p) => p.imbalance !== null);
+  const heaviestCounts: Record<Phase, number> = { R: 0, S: 0, T: 0 };
+  measured.forEach((p) => heaviestCounts[p.heaviest]++);
+
+  return {
+    average:
+      measured.length > 0
+        ? measured.reduce((sum, p) => sum + p.imbalance!, 0) / measured.length
+        : null,
+    worst: measured.reduce<ImbalancePoint | null>(
+      (max, p) => (max === null || p.imbalance! > max.imbalance! ? p : max),
+      null,
+    ),
+    flagged: points.filter((p) => p.exceeds).length,
+    heaviestCounts,
+  };
+}
@@ -0,0 +1,95 @@
+import {
+  ElisaFilters,
+  getAnalysis,
+  getFacultyComparison,
+  getHeatmapData,
+  getMonthlyData,
+} from "./elisa-client";
+import {
+  FacultyComparisonData,
+  HeatmapData,
+  MonthlyData,
+} from "./elisa-schemas";
+import { toDateInput } from "./format";
+
+export type ReportSection = "monthly" | "faculty" | "heatmap";
+
+export const REPORT_SECTIONS: { id: ReportSection; label: string }[] = [
+  { id: "monthly", label: "Monthly totals" },
+  { id: "faculty", label: "Faculty ranking" },
+  { id: "heatmap", label: "Weekly heatmap" },
+];
+
+export interface MonthlyReport {
+  month: string;
+  generatedAt: string;
+  monthly?: MonthlyData;
+  faculty?: FacultyComparisonData;
+  heatmap?: HeatmapData;
+  // LLM analysis per section; missing when the analysis endpoint fails
+  analysis: Partial<Record<ReportSection, string>>;
+}
+
+// First and last day of a YYYY-MM month, capped at today for the current month
+export const monthRange = (month: string) => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const start = new Date(Date.UTC(year, monthIndex - 1, 1));
+  const end = new Date(Date.UTC(year, monthIndex, 0));
+  const today = new Date();
+  return {
+    start: toDateInput(start),
+    end: toDateInput(end < today ? end : today),
+  };
+};
+
+const optional = <T>(request: Promise<T>, section: string) =>
+  request.catch((err) => {
+    console.error(`Error fetching ${section} for report:`, err);
+    return undefined;
+  });
+
+export async function loadMonthlyReport(
+  month: string,
+  filters: ElisaFilters,
+  sections: ReportSection[],
+): Promise<MonthlyReport> {
+  const { start, end } = monthRange(month);
+  const include = (section: ReportSection) => sections.includes(section);
+
+  // Data failures abort the report; analysis text is best effort
+  const [monthly, faculty, heatmap, ...analyses] = await Promise.all([
+    include("monthly") ? getMonthlyData(month, filters) : undefined,
+    include("faculty") ? getFacultyComparison(month) : undefined,
+    include("heatmap") ? getHeatmapData(start, end, filters) : undefined,
+    include("monthly")
+      ? optional(
+          getAnalysis("monthly", { date: month, ...filters }),
+          "monthly analysis",
+        )
+      : undefined,
+    include("faculty")
+      ? optional(getAnalysis("faculty", { date: month }), "faculty analysis")
+      : undefined,
+    include("heatmap")
+      ? optional(
+          getAnalysis("heatmap", { start, end, ...filters }),
+          "heatmap analysis",
+        )
+      : undefined,
+  ]);
+
+  const [monthlyAnalysis, facultyAnalysis, heatmapAnalysis] = analyses;
+
+  return {
+    month,
+    generatedAt: new Date().toISOString(),
+    monthly,
+    faculty,
+    heatmap,
+    analysis: {
+      monthly: monthlyAnalysis,
+      faculty: facultyAnalysis,
+      heatmap: heatmapAnalysis,
+    },
+  };
+}
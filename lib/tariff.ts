@@ -0,0 +1,170 @@
+// PLN-style tariff model: time-of-use energy rates (WBP peak hours and LWBP
+// off-peak hours), a monthly kVA demand charge and taxes. Preset rates are
+// indicative and meant to be edited to match the actual contract.
+
+export interface Tariff {
+  id: string;
+  label: string;
+  // Rp per kWh
+  lwbpRate: number;
+  wbpRate: number;
+  // Peak window in local hours, [start, end)
+  wbpStartHour: number;
+  wbpEndHour: number;
+  // Rp per kVA per month
+  demandCharge: number;
+  // Contracted capacity; when 0 the measured peak is billed instead
+  contractedKva: number;
+  powerFactor: number;
+  // Street lighting tax (PPJ) and VAT (PPN), as fractions
+  lightingTax: number;
+  vat: number;
+}
+
+export const TARIFF_PRESETS: Tariff[] = [
+  {
+    id: "p2-tm",
+    label: "P-2/TM (government, medium voltage)",
+    lwbpRate: 1035.78,
+    wbpRate: 1553.67,
+    wbpStartHour: 17,
+    wbpEndHour: 22,
+    demandCharge: 36000,
+    contractedKva: 0,
+    powerFactor: 0.85,
+    lightingTax: 0.03,
+    vat: 0,
+  },
+  {
+    id: "s3-tm",
+    label: "S-3/TM (social, medium voltage)",
+    lwbpRate: 900,
+    wbpRate: 1350,
+    wbpStartHour: 17,
+    wbpEndHour: 22,
+    demandCharge: 29500,
+    contractedKva: 0,
+    powerFactor: 0.85,
+    lightingTax: 0.03,
+    vat: 0,
+  },
+  {
+    id: "b3-tm",
+    label: "B-3/TM (business, medium voltage)",
+    lwbpRate: 1114.74,
+    wbpRate: 1672.11,
+    wbpStartHour: 17,
+    wbpEndHour: 22,
+    demandCharge: 36000,
+    contractedKva: 0,
+    powerFactor: 0.85,
+    lightingTax: 0.03,
+    vat: 0.11,
+  },
+  {
+    id: "p1-tr",
+    label: "P-1/TR (government, low voltage, flat rate)",
+    lwbpRate: 1699.53,
+    wbpRate: 1699.53,
+    wbpStartHour: 17,
+    wbpEndHour: 22,
+    demandCharge: 0,
+    contractedKva: 0,
+    powerFactor: 0.85,
+    lightingTax: 0.03,
+    vat: 0,
+  },
+];
+
+export interface EnergyReading {
+  timestamp: string;
+  // kWh over the reading interval
+  energy: number;
+}
+
+export interface CostBreakdown {
+  wbpKwh: number;
+  lwbpKwh: number;
+  wbpCost: number;
+  lwbpCost: number;
+  peakKw: number;
+  billedKva: number;
+  demandCost: number;
+  tax: number;
+  total: number;
+}
+
+export interface LoadShift {
+  // Share of peak-window energy moved to off-peak hours, 0-1
+  fraction: number;
+}
+
+const DAYS_PER_BILLING_MONTH = 30;
+
+export const isPeakHour = (timestamp: string, tariff: Tariff) => {
+  const hour = new Date(timestamp).getHours();
+  return hour >= tariff.wbpStartHour && hour < tariff.wbpEndHour;
+};
+
+// Moved energy is spread evenly over the off-peak readings
+export function shiftLoad(
+  readings: EnergyReading[],
+  tariff: Tariff,
+  { fraction }: LoadShift,
+): EnergyReading[] {
+  const offPeak = readings.filter((r) => !isPeakHour(r.timestamp, tariff));
+  if (fraction <= 0 || offPeak.length === 0) return readings;
+
+  const moved = readings
+    .filter((r) => isPeakHour(r.timestamp, tariff))
+    .reduce((sum, r) => sum + r.energy * fraction, 0);
+  const added = moved / offPeak.length;
+
+  return readings.map((r) => ({
+    ...r,
+    energy: isPeakHour(r.timestamp, tariff)
+      ? r.energy * (1 - fraction)
+      : r.energy + added,
+  }));
+}
+
+// `days` prorates the monthly demand charge to the period the readings cover
+export function computeCost(
+  readings: EnergyReading[],
+  tariff: Tariff,
+  intervalHours: number,
+  days: number,
+): CostBreakdown {
+  let wbpKwh = 0;
+  let lwbpKwh = 0;
+  let peakKw = 0;
+
+  readings.forEach((r) => {
+    if (isPeakHour(r.timestamp, tariff)) wbpKwh += r.energy;
+    else lwbpKwh += r.energy;
+    peakKw = Math.max(peakKw, r.energy / intervalHours);
+  });
+
+  const wbpCost = wbpKwh * tariff.wbpRate;
+  const lwbpCost = lwbpKwh * tariff.lwbpRate;
+  const billedKva =
+    tariff.contractedKva > 0
+      ? tariff.contractedKva
+      : peakKw / (tariff.powerFactor || 1);
+  const demandCost =
+    billedKva * tariff.demandCharge * (days / DAYS_PER_BILLING_MONTH);
+  const subtotal = wbpCost + lwbpCost + demandCost;
+  const tax = subtotal * (tariff.lightingTax + tariff.vat);
+
+  return {
+    wbpKwh,
+    lwbpKwh,
+    wbpCost,
+    lwbpCost,
+    peakKw,
+    billedKva,
+    demandCost,
+    tax,
+    total: subtotal + tax,
+  };
+}
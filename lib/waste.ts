@@ -0,0 +1,217 @@
+import { isWeekend } from "./academic-calendar";
+import { quantile } from "./anomaly";
+import {
+  ElisaFilters,
+  getFakultasOptions,
+  getGedungOptions,
+  getHeatmapData,
+} from "./elisa-client";
+import { HeatmapData } from "./elisa-schemas";
+import { addDays, inBatches } from "./explorer";
+import { buildHeatmapGrid, cellDate } from "./heatmap";
+import { TARIFF_PRESETS } from "./tariff";
+
+// Baseload and after-hours analysis. Everything outside weekday operating
+// hours, including whole weekends, counts as after hours; energy above a
+// target baseload in those hours is treated as avoidable.
+
+export interface OperatingHours {
+  // Local hours on weekdays, [startHour, endHour)
+  startHour: number;
+  endHour: number;
+}
+
+export const DEFAULT_OPERATING_HOURS: OperatingHours = {
+  startHour: 7,
+  endHour: 18,
+};
+
+// Baseload is this percentile of the hourly loads, which ignores the odd
+// hour with a failed reading better than the minimum does
+export const BASELOAD_PERCENTILE = 0.1;
+
+// Default target: a 30% lower baseload
+export const DEFAULT_TARGET_PERCENT = 70;
+
+// After-hours energy is mostly billed at the off-peak (LWBP) rate
+export const DEFAULT_WASTE_RATE = TARIFF_PRESETS[0].lwbpRate;
+
+export const WASTE_WEEK_COUNTS = [1, 2, 4];
+
+export interface HourlyLoad {
+  date: string;
+  hour: number;
+  // kWh used in the hour
+  energy: number;
+}
+
+export interface WasteProfile {
+  totalKwh: number;
+  // kWh per hour
+  baseload: number;
+  operatingKwh: number;
+  afterHoursKwh: number;
+  afterHoursShare: number;
+  // Average kWh per day
+  weekdayKwh: number | null;
+  weekendKwh: number | null;
+  // Weekend day over weekday day; null unless both are present
+  weekendRatio: number | null;
+  targetBaseload: number;
+  savingsKwh: number;
+  // Days the loads cover, to scale savings to a year
+  days: number;
+}
+
+export const isAfterHours = (
+  { date, hour }: Pick<HourlyLoad, "date" | "hour">,
+  { startHour, endHour }: OperatingHours,
+) => isWeekend(date) || hour < startHour || hour >= endHour;
+
+// Zero hours are treated as missing data, not as a switched-off building
+export function wasteProfile(
+  loads: HourlyLoad[],
+  hours: OperatingHours,
+  targetPercent: number,
+): WasteProfile | null {
+  const measured = loads.filter((load) => load.energy > 0);
+  if (measured.length === 0) return null;
+
+  const baseload = quantile(
+    measured.map((load) => load.energy).sort((a, b) => a - b),
+    BASELOAD_PERCENTILE,
+  );
+  const targetBaseload = (baseload * targetPercent) / 100;
+
+  let operatingKwh = 0;
+  let afterHoursKwh = 0;
+  let savingsKwh = 0;
+  const dayTotals = new Map<string, number>();
+  measured.forEach((load) => {
+    if (isAfterHours(load, hours)) {
+      afterHoursKwh += load.energy;
+      savingsKwh += Math.max(0, load.energy - targetBaseload);
+    } else {
+      operatingKwh += load.energy;
+    }
+    dayTotals.set(load.date, (dayTotals.get(load.date) ?? 0) + load.energy);
+  });
+
+  const average = (weekend: boolean) => {
+    const totals = Array.from(dayTotals.entries())
+      .filter(([date]) => isWeekend(date) === weekend)
+      .map(([, total]) => total);
+    return totals.length
+      ? totals.reduce((sum, total) => sum + total, 0) / totals.length
+      : null;
+  };
+  const weekdayKwh = average(false);
+  const weekendKwh = average(true);
+  const totalKwh = operatingKwh + afterHoursKwh;
+
+  return {
+    totalKwh,
+    baseload,
+    operatingKwh,
+    afterHoursKwh,
+    afterHoursShare: afterHoursKwh / totalKwh,
+    weekdayKwh,
+    weekendKwh,
+    weekendRatio:
+      weekdayKwh && weekendKwh !== null ? weekendKwh / weekdayKwh : null,
+    targetBaseload,
+    savingsKwh,
+    days: dayTotals.size,
+  };
+}
+
+export const annualSavings = (profile: WasteProfile) =>
+  profile.days > 0 ? (profile.savingsKwh * 365) / profile.days : 0;
+
+// Converters
+
+// From hourlyTotals() of the Daily page readings
+export const loadsFromHourlyTotals = (
+  totals: Record<string, number>,
+): HourlyLoad[] =>
+  Object.entries(totals).map(([key, energy]) => ({
+    date: key.slice(0, 10),
+    hour: Number(key.slice(11, 13)),
+    energy,
+  }));
+
+// From a heatmap grid of the week starting on `start` (a Sunday)
+export const loadsFromGrid = (start: string, grid: number[][]): HourlyLoad[] =>
+  grid.flatMap((row, dayIndex) =>
+    row.map((energy, hour) => ({
+      date: cellDate(start, dayIndex),
+      hour,
+      energy,
+    })),
+  );
+
+// Leaderboard
+
+export interface WasteEntity {
+  key: string;
+  label: string;
+  // Filter value of the faculty or building
+  value: string;
+  loads: HourlyLoad[];
+}
+
+// Hourly loads of every faculty, or of every building of `fakultas`, for the
+// `weeks` weeks ending with the one starting on `start` (a Sunday). Entities
+// with a week that fails to load are left out.
+export async function loadWasteEntities(
+  start: string,
+  weeks: number,
+  fakultas: string | null,
+): Promise<WasteEntity[]> {
+  const options = fakultas
+    ? await getGedungOptions(fakultas)
+    : await getFakultasOptions();
+  const starts = Array.from({ length: weeks }, (_, i) =>
+    addDays(start, -7 * (weeks - 1 - i)),
+  );
+  const filtersOf = (value: string): ElisaFilters => ({
+    faculty: fakultas ?? value,
+    building: fakultas ? value : "",
+    floor: "",
+  });
+
+  // One request per entity and week, settled so a failure only drops its
+  // own entity
+  const requests = options.flatMap((option) =>
+    starts.map((weekStart) => ({ option, weekStart })),
+  );
+  const results = await inBatches(requests, ({ option, weekStart }) =>
+    getHeatmapData(weekStart, addDays(weekStart, 6), filtersOf(option.value)).then(
+      (value): PromiseSettledResult<HeatmapData> => ({ status: "fulfilled", value }),
+      (reason): PromiseSettledResult<HeatmapData> => ({ status: "rejected", reason }),
+    ),
+  );
+
+  return options.flatMap((option, i) => {
+    const entityResults = results.slice(i * weeks, (i + 1) * weeks);
+    const failed = entityResults.find(
+      (result): result is PromiseRejectedResult => result.status === "rejected",
+    );
+    if (failed) {
+      console.error(`Error fetching heatmap for ${option.label}:`, failed.reason);
+      return [];
+    }
+    return [
+      {
+        key: fakultas ? `${fakultas}/${option.value}` : option.value,
+        label: option.label,
+        value: option.value,
+        loads: entityResults.flatMap((result, week) =>
+          result.status === "fulfilled"
+            ? loadsFromGrid(starts[week], buildHeatmapGrid(result.value.heatmap))
+            : [],
+        ),
+      },
+    ];
+  });
+}